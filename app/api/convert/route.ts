@@ -0,0 +1,60 @@
+import { ConvertError, convertDocument, readConvertOptions, readFormData } from '@/lib/convert';
+
+// Convert a document to table rows, an export file or a severity summary.
+//
+// Send the document as the request body (any supported input format) with
+// options in the query string, or as multipart form data with a `file` field
+// and options as further fields:
+//   output   table (default) | summary | csv | tsv | xlsx | markdown | html
+//   format   auto (default) | json | ndjson | json5 | yaml | csv
+//   path     JSON Pointer to convert only part of the document
+//   query    JSONPath or JMESPath expression, with language=jsonpath|jmespath
+//   table    export only the table with this name, e.g. Vulnerabilities
+//   name     file name for exports
+//
+// e.g. curl --data-binary @report.json 'http://localhost:3000/api/convert?output=csv&table=Vulnerabilities'
+
+export const runtime = 'nodejs';
+
+const MAX_DOCUMENT_BYTES = 100 * 1024 * 1024;
+
+const errorResponse = (error: ConvertError) =>
+  Response.json({ error: error.message, location: error.location }, { status: error.status });
+
+export async function POST(request: Request) {
+  if (Number(request.headers.get('content-length') ?? 0) > MAX_DOCUMENT_BYTES) {
+    return errorResponse(new ConvertError(`Documents are limited to ${MAX_DOCUMENT_BYTES / 1024 / 1024} MB`, 413));
+  }
+
+  const { searchParams } = new URL(request.url);
+  try {
+    let text: string;
+    let fileName: string | undefined;
+    let get = (key: string) => searchParams.get(key);
+
+    if (request.headers.get('content-type')?.startsWith('multipart/form-data')) {
+      const form = await readFormData(request);
+      const file = form.get('file');
+      if (!(file instanceof File)) throw new ConvertError('Expected the document in a "file" field', 400);
+      text = await file.text();
+      fileName = file.name;
+      get = (key: string) => {
+        const field = form.get(key);
+        return typeof field === 'string' ? field : searchParams.get(key);
+      };
+    } else {
+      text = await request.text();
+    }
+    if (text.length > MAX_DOCUMENT_BYTES) {
+      throw new ConvertError(`Documents are limited to ${MAX_DOCUMENT_BYTES / 1024 / 1024} MB`, 413);
+    }
+
+    const result = convertDocument(text, readConvertOptions(get, fileName), fileName);
+    const headers: Record<string, string> = { 'Content-Type': result.contentType };
+    if (result.fileName) headers['Content-Disposition'] = `attachment; filename="${result.fileName.replace(/[^\x20-\x7e]|"/g, '_')}"`;
+    return new Response(result.body as BodyInit, { headers });
+  } catch (e) {
+    if (e instanceof ConvertError) return errorResponse(e);
+    throw e;
+  }
+}
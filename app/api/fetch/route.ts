@@ -0,0 +1,119 @@
+import { FETCH_TIMEOUT_MS, FetchSourceError, MAX_FETCH_BYTES, readFetchRequest } from '@/lib/fetch-source';
+
+// Fetch a document on behalf of the page, so endpoints without CORS headers
+// (internal services, local mock servers) can be loaded.
+//
+// POST a JSON object { url, method, headers, body } as application/json;
+// other content types are refused, so cross-site forms can't reach the proxy
+// without a CORS preflight. The response is the upstream body as plain text,
+// sandboxed so it never runs as a page of the viewer, with the upstream
+// content type in X-Upstream-Content-Type. Upstream errors, timeouts and
+// oversized responses come back as { error } with a 4xx/5xx status.
+//
+// Set FETCH_ALLOWED_HOSTS to a comma-separated list of hosts (e.g.
+// "localhost:4000,scanner.internal") to only load documents from those.
+//
+// e.g. curl -H 'Content-Type: application/json' -d '{"url":"http://localhost:4000/report.json"}' http://localhost:3000/api/fetch
+
+export const runtime = 'nodejs';
+
+const errorResponse = (error: FetchSourceError) => Response.json({ error: error.message }, { status: error.status });
+
+const isTimeout = (e: unknown) => e instanceof Error && e.name === 'TimeoutError';
+
+// Hosts documents may be loaded from, with or without a port; any when unset
+const allowedHosts = (): string[] =>
+  (process.env.FETCH_ALLOWED_HOSTS ?? '').split(',').map(host => host.trim().toLowerCase()).filter(Boolean);
+
+const isAllowedHost = (url: string, allowed: string[]): boolean => {
+  const { host, hostname } = new URL(url);
+  return allowed.length === 0 || allowed.includes(host) || allowed.includes(hostname);
+};
+
+const sizeError = () => new FetchSourceError(`Responses are limited to ${MAX_FETCH_BYTES / 1024 / 1024} MB`, 413);
+
+// Read a response body, giving up once it passes the size limit
+async function readLimited(response: Response): Promise<Uint8Array> {
+  if (Number(response.headers.get('content-length') ?? 0) > MAX_FETCH_BYTES) throw sizeError();
+  if (!response.body) return new Uint8Array();
+
+  const reader = response.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    size += value.byteLength;
+    if (size > MAX_FETCH_BYTES) {
+      await reader.cancel();
+      throw sizeError();
+    }
+    chunks.push(value);
+  }
+
+  const body = new Uint8Array(size);
+  let offset = 0;
+  chunks.forEach(chunk => {
+    body.set(chunk, offset);
+    offset += chunk.byteLength;
+  });
+  return body;
+}
+
+export async function POST(request: Request) {
+  try {
+    if (request.headers.get('content-type')?.split(';')[0].trim().toLowerCase() !== 'application/json') {
+      throw new FetchSourceError('Expected a JSON request object sent as application/json', 415);
+    }
+    let input: unknown;
+    try {
+      input = await request.json();
+    } catch {
+      throw new FetchSourceError('Expected a JSON request object', 400);
+    }
+    const { url, method, headers, body } = readFetchRequest(input);
+    const allowed = allowedHosts();
+    if (!isAllowedHost(url, allowed)) throw new FetchSourceError(`Loading from ${new URL(url).host} is not allowed`, 403);
+
+    let response: Response;
+    try {
+      response = await fetch(url, {
+        method,
+        headers,
+        body,
+        redirect: 'follow',
+        cache: 'no-store',
+        signal: AbortSignal.timeout(FETCH_TIMEOUT_MS),
+      });
+    } catch (e) {
+      if (isTimeout(e)) throw e;
+      const cause = e instanceof Error && e.cause instanceof Error ? e.cause.message : e instanceof Error ? e.message : String(e);
+      throw new FetchSourceError(`Could not reach ${new URL(url).host}: ${cause}`, 502);
+    }
+
+    if (!isAllowedHost(response.url || url, allowed)) {
+      await response.body?.cancel();
+      throw new FetchSourceError(`Redirected to ${new URL(response.url).host}, which is not allowed`, 403);
+    }
+    if (!response.ok) {
+      await response.body?.cancel();
+      throw new FetchSourceError(`The server responded ${response.status} ${response.statusText}`.trim(), 502);
+    }
+
+    const content = await readLimited(response);
+    return new Response(content as BodyInit, {
+      headers: {
+        'Content-Type': 'text/plain; charset=utf-8',
+        'X-Upstream-Content-Type': response.headers.get('content-type') ?? 'application/octet-stream',
+        'X-Content-Type-Options': 'nosniff',
+        'Content-Security-Policy': 'sandbox',
+        'Cache-Control': 'no-store',
+      },
+    });
+  } catch (e) {
+    if (e instanceof FetchSourceError) return errorResponse(e);
+    // The timeout covers reading the body too
+    if (isTimeout(e)) return errorResponse(new FetchSourceError(`No response within ${FETCH_TIMEOUT_MS / 1000} seconds`, 504));
+    throw e;
+  }
+}
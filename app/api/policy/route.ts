@@ -0,0 +1,43 @@
+import { checkPolicy, ConvertError, readFormData } from '@/lib/convert';
+
+// Evaluate a policy against a report, for CI gates. Send multipart form data
+// with the report in a `file` field and the rules (JSON or YAML, see
+// lib/policy.ts) in a `policy` field, as a file or as text.
+//
+// Responds with the verdict as JSON: status 200 when every rule passes and
+// 422 when one fails, so `curl --fail` exits non-zero on a failed gate.
+//
+// e.g. curl --fail -F file=@report.json -F policy=@policy.yaml http://localhost:3000/api/policy
+
+export const runtime = 'nodejs';
+
+const MAX_DOCUMENT_BYTES = 100 * 1024 * 1024;
+
+const errorResponse = (error: ConvertError) =>
+  Response.json({ error: error.message, location: error.location }, { status: error.status });
+
+const fieldText = async (field: FormDataEntryValue | null): Promise<string | null> =>
+  field instanceof File ? field.text() : field;
+
+export async function POST(request: Request) {
+  if (Number(request.headers.get('content-length') ?? 0) > MAX_DOCUMENT_BYTES) {
+    return errorResponse(new ConvertError(`Documents are limited to ${MAX_DOCUMENT_BYTES / 1024 / 1024} MB`, 413));
+  }
+  if (!request.headers.get('content-type')?.startsWith('multipart/form-data')) {
+    return errorResponse(new ConvertError('Expected multipart form data with "file" and "policy" fields', 415));
+  }
+
+  try {
+    const form = await readFormData(request);
+    const file = form.get('file');
+    if (!(file instanceof File)) throw new ConvertError('Expected the report in a "file" field', 400);
+    const policy = await fieldText(form.get('policy'));
+    if (!policy?.trim()) throw new ConvertError('Expected the rules in a "policy" field', 400);
+
+    const verdict = checkPolicy(await file.text(), policy, file.name);
+    return Response.json(verdict, { status: verdict.passed ? 200 : 422 });
+  } catch (e) {
+    if (e instanceof ConvertError) return errorResponse(e);
+    throw e;
+  }
+}
@@ -1,161 +1,1013 @@
 'use client';
 
-import { useState, useMemo, Fragment } from 'react';
+import { useState, useMemo, useRef, useEffect, Fragment } from 'react';
 import type React from 'react';
+import {
+  countSeverities,
+  hasVulnerabilities,
+  isTrivyReport,
+  normalizeSeverity,
+  RESULT_TABLE_KEYS,
+  SEVERITIES,
+  summarizeSeverities,
+  type Severity,
+  type TrivyCauseMetadata,
+  type TrivyCodeLine,
+  type TrivyReport,
+} from '@/lib/trivy';
+import {
+  collectDiffSections,
+  countDiff,
+  defaultKeySpec,
+  diffArrays,
+  parseKeySpec,
+  type DiffSection,
+  type DiffStatus,
+} from '@/lib/diff';
+import { QUERY_LANGUAGES, runQuery, type QueryLanguage } from '@/lib/query';
+import { combineDocumentsInWorker, useDocumentParser, type ParseProgress } from '@/lib/use-document-parser';
+import {
+  detectFormat,
+  formatLabel,
+  INPUT_FORMATS,
+  parseDocument,
+  SUPPORTED_EXTENSIONS,
+  type FormatSelection,
+  type InputFormat,
+  type SourceLocation,
+} from '@/lib/formats';
+import VirtualTable from '@/components/VirtualTable';
+import ExportMenu from '@/components/ExportMenu';
+import HistorySidebar from '@/components/HistorySidebar';
+import TreeView from '@/components/TreeView';
+import CodeEditor, { type CodeEditorHandle, type EditorLanguage } from '@/components/CodeEditor';
+import ValueEditor from '@/components/ValueEditor';
+import ColumnChooser from '@/components/ColumnChooser';
+import ChartPanel from '@/components/ChartPanel';
+import UrlLoader from '@/components/UrlLoader';
+import GroupByMenu from '@/components/GroupByMenu';
+import CommandPalette, { type Command } from '@/components/CommandPalette';
+import RichValue from '@/components/RichValue';
+import DisplaySettingsMenu from '@/components/DisplaySettingsMenu';
+import CodeSnippet from '@/components/CodeSnippet';
+import MaskedText from '@/components/MaskedText';
+import DependencyGraph from '@/components/DependencyGraph';
+import PolicyPanel from '@/components/PolicyPanel';
+import TriageEditor from '@/components/TriageEditor';
+import TriageMenu, { type TriageExportFormat } from '@/components/TriageMenu';
+import { buildExportTables, collectDocumentTables, downloadBlob, downloadExport, EXPORT_FORMATS, type ExportFormat } from '@/lib/export';
+import {
+  AGGREGATE_FUNCTIONS,
+  aggregateRows,
+  allGroupIds,
+  cellText,
+  EMPTY_TABLE_VIEW,
+  flattenGroups,
+  getVisibleRowIndices,
+  groupRows,
+  splitMatches,
+  type Aggregate,
+  type DisplayRow,
+  type RowGroup,
+  type TableViewState,
+} from '@/lib/table-view';
+import type { ChartSelection } from '@/lib/charts';
+import { FINDINGS_FORMATS, findingsReport, importFindings } from '@/lib/findings';
+import { componentRows, readSbom, SBOM_FORMATS, type Sbom } from '@/lib/sbom';
+import { evaluatePolicy, loadPolicyText, parsePolicy, savePolicyText } from '@/lib/policy';
+import {
+  findDecision,
+  importTriage,
+  isExpired,
+  loadTriage,
+  mergeDecisions,
+  saveTriage,
+  statusLabel,
+  toOpenVex,
+  toTrivyIgnore,
+  toTrivyIgnoreYaml,
+  triageKey,
+  type TriageDecision,
+  type TriageDecisions,
+  type TriageDisplay,
+} from '@/lib/triage';
+import { canDisplayAsTable, getTableStructure, isNestedStructure } from '@/lib/table';
+import {
+  defaultColumnSettings,
+  loadColumnSettings,
+  MIN_COLUMN_WIDTH,
+  orderColumns,
+  resolveColumns,
+  saveColumnSettings,
+  tablePath,
+  type ColumnSettings,
+  type TableColumn,
+} from '@/lib/columns';
+import { BUILTIN_SCHEMAS, MAX_SCHEMA_ISSUES, validateWithSchema } from '@/lib/schema';
+import { childPointer, formatPointer, getAtPointer, isWithinPointer, parsePointer, pointerAncestors } from '@/lib/json-pointer';
+import {
+  DEFAULT_DISPLAY_SETTINGS,
+  displayKindFor,
+  loadDisplaySettings,
+  saveDisplaySettings,
+  type DisplaySettings,
+} from '@/lib/value-display';
+import { decodeShareFragment, EMPTY_VIEW_SNAPSHOT, encodeShareFragment, type OutputView, type ViewSnapshot } from '@/lib/session';
+import { readFiles, type OpenedFile } from '@/lib/documents';
+import { locatePointer, pointerAtOffset } from '@/lib/json-source';
+import {
+  applyTextEdit,
+  emptyLike,
+  insertValue,
+  invertTextEdit,
+  JsonEditError,
+  removeValue,
+  setValue,
+  type Primitive,
+  type TextEdit,
+} from '@/lib/json-edit';
+import {
+  clearHistory,
+  createHistoryId,
+  deleteHistory,
+  listHistory,
+  loadHistoryDocument,
+  saveHistory,
+  type HistoryEntry,
+} from '@/lib/history-store';
+
+const DIFF_STYLES: Record<DiffStatus, { row: string; badge: string; label: string }> = {
+  added: {
+    row: 'bg-green-50/70 dark:bg-green-950/20',
+    badge: 'text-green-700 dark:text-green-300 bg-green-100 dark:bg-green-900/30 border-green-200 dark:border-green-800',
+    label: 'Added',
+  },
+  removed: {
+    row: 'bg-red-50/70 dark:bg-red-950/20',
+    badge: 'text-red-700 dark:text-red-300 bg-red-100 dark:bg-red-900/30 border-red-200 dark:border-red-800',
+    label: 'Removed',
+  },
+  changed: {
+    row: 'bg-amber-50/50 dark:bg-amber-950/10',
+    badge: 'text-amber-700 dark:text-amber-300 bg-amber-100 dark:bg-amber-900/30 border-amber-200 dark:border-amber-800',
+    label: 'Changed',
+  },
+  unchanged: {
+    row: '',
+    badge: 'text-zinc-600 dark:text-zinc-300 bg-zinc-100 dark:bg-zinc-800 border-zinc-200 dark:border-zinc-700',
+    label: 'Unchanged',
+  },
+};
+
+const SEVERITY_STYLES: Record<Severity, string> = {
+  CRITICAL: 'text-red-700 dark:text-red-300 bg-red-100 dark:bg-red-900/30 border-red-200 dark:border-red-800',
+  HIGH: 'text-orange-700 dark:text-orange-300 bg-orange-100 dark:bg-orange-900/30 border-orange-200 dark:border-orange-800',
+  MEDIUM: 'text-amber-700 dark:text-amber-300 bg-amber-100 dark:bg-amber-900/30 border-amber-200 dark:border-amber-800',
+  LOW: 'text-sky-700 dark:text-sky-300 bg-sky-100 dark:bg-sky-900/30 border-sky-200 dark:border-sky-800',
+  UNKNOWN: 'text-zinc-600 dark:text-zinc-300 bg-zinc-100 dark:bg-zinc-800 border-zinc-200 dark:border-zinc-700',
+};
+
+const OUTPUT_VIEWS: { value: OutputView; label: string }[] = [
+  { value: 'table', label: 'Table' },
+  { value: 'tree', label: 'Tree' },
+  { value: 'raw', label: 'Raw' },
+  { value: 'chart', label: 'Charts' },
+];
+
+// Undo steps kept for edits made through the tables and tree
+const MAX_UNDO_STEPS = 200;
+
+interface EditHistory {
+  // Document the stacks apply to; typing or loading another document
+  // leaves them stale, which makes them empty
+  text: string;
+  // Inverse edits, most recent last
+  past: TextEdit[];
+  // Undone edits, most recently undone last
+  future: TextEdit[];
+}
+
+const EMPTY_EDIT_HISTORY: EditHistory = { text: '', past: [], future: [] };
+
+// A document open in a tab of its own. The active tab's fields go stale while
+// it is shown: its live state is the page's until another tab is opened.
+interface DocumentTab {
+  id: string;
+  name: string;
+  text: string;
+  view: ViewSnapshot;
+  historyId: string | null;
+  editHistory: EditHistory;
+  // The "All documents" tab, rebuilt from the others each time it is opened
+  combined?: boolean;
+}
+
+const ALL_DOCUMENTS_NAME = 'All documents.json';
+
+// Parsed documents kept so switching tabs doesn't parse again
+const PARSE_CACHE_SIZE = 8;
+
+const editorLanguage = (format: InputFormat | null): EditorLanguage =>
+  format === 'yaml' ? 'yaml' : format === 'csv' ? 'text' : 'json';
 
 export default function Home() {
   const [jsonInput, setJsonInput] = useState('');
   const [error, setError] = useState<string | null>(null);
   const [collapsedTables, setCollapsedTables] = useState<Set<string>>(new Set());
   const [copiedIndex, setCopiedIndex] = useState<string | null>(null);
+  const [tableViews, setTableViews] = useState<Record<string, TableViewState>>({});
+  const [searchQuery, setSearchQuery] = useState('');
 
-  const parsedData = useMemo(() => {
-    if (!jsonInput.trim()) {
-      setError(null);
-      return null;
+  const [inputFormat, setInputFormat] = useState<FormatSelection>('auto');
+  const [sourceName, setSourceName] = useState<string | undefined>(undefined);
+  const [query, setQuery] = useState('');
+  const [queryLanguage, setQueryLanguage] = useState<QueryLanguage>('jsonpath');
+  const [diffMode, setDiffMode] = useState(false);
+  const [compareInput, setCompareInput] = useState('');
+  const [compareName, setCompareName] = useState<string | undefined>(undefined);
+  const [diffKeys, setDiffKeys] = useState<Record<string, string>>({});
+  const [showUnchanged, setShowUnchanged] = useState(false);
+  const [readProgress, setReadProgress] = useState<ParseProgress | null>(null);
+  const readerRef = useRef<FileReader | null>(null);
+  const [historyEntries, setHistoryEntries] = useState<HistoryEntry[]>([]);
+  const [historyOpen, setHistoryOpen] = useState(false);
+  // History entry the current document is saved under; null starts a new one
+  const [historyId, setHistoryId] = useState<string | null>(null);
+  const [sessionReady, setSessionReady] = useState(false);
+  const [sessionNotice, setSessionNotice] = useState<string | null>(null);
+  const [shareStatus, setShareStatus] = useState<string | null>(null);
+  // Text last written to the history store, so view-only changes skip rewriting it
+  const savedTextRef = useRef<string | null>(null);
+  const editorRef = useRef<CodeEditorHandle>(null);
+  const [outputView, setOutputView] = useState<OutputView>('table');
+  // Show an imported scanner report as its original document
+  const [showImportedDocument, setShowImportedDocument] = useState(false);
+  // Triage decisions of the shown report's artifact, kept across documents
+  const [triage, setTriage] = useState<{ artifact: string; decisions: TriageDecisions } | null>(null);
+  const [triageDisplay, setTriageDisplay] = useState<TriageDisplay>('dim');
+  // Policy rules the report view checks reports against, kept across documents
+  const [policyText, setPolicyText] = useState('');
+  const [policyTextReady, setPolicyTextReady] = useState(false);
+  const [chartSelection, setChartSelection] = useState<ChartSelection | null>(null);
+  const [schemaOpen, setSchemaOpen] = useState(false);
+  const [urlOpen, setUrlOpen] = useState(false);
+  // Open documents; empty until several are loaded together
+  const [tabs, setTabs] = useState<DocumentTab[]>([]);
+  const [activeTabId, setActiveTabId] = useState<string | null>(null);
+  const [openNotice, setOpenNotice] = useState<string | null>(null);
+  const [dragActive, setDragActive] = useState(false);
+  // Status read out by screen readers, e.g. after copying
+  const [announcement, setAnnouncement] = useState('');
+  const [paletteOpen, setPaletteOpen] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const searchInputRef = useRef<HTMLInputElement>(null);
+  // A built-in schema id, or 'custom' for a pasted or uploaded schema
+  const [schemaSource, setSchemaSource] = useState('custom');
+  const [schemaText, setSchemaText] = useState('');
+  // JSON Pointer of the selected value, shared by the table, tree and raw views
+  // and the input editor. Relative to the query result while a query is set.
+  const [selectedPointer, setSelectedPointer] = useState<string | null>(null);
+  const [pointerScrollRequest, setPointerScrollRequest] = useState(0);
+  // Row of an imported report picked in the policy panel. Those reports are
+  // built from the findings, so their rows have no pointer into the document.
+  const [selectedReportRow, setSelectedReportRow] = useState<{ report: TrivyReport; tableId: string; rowIndex: number; request: number } | null>(null);
+  // Cell or tree value open in an inline editor
+  const [editingPointer, setEditingPointer] = useState<string | null>(null);
+  const [editHistory, setEditHistory] = useState<EditHistory>(EMPTY_EDIT_HISTORY);
+  const [editNotice, setEditNotice] = useState<string | null>(null);
+  // Column layout by table path, kept across documents
+  const [columnSettings, setColumnSettings] = useState<Record<string, ColumnSettings>>({});
+  const [columnSettingsReady, setColumnSettingsReady] = useState(false);
+  // How string values are rendered, kept across documents
+  const [displaySettings, setDisplaySettings] = useState<DisplaySettings>(DEFAULT_DISPLAY_SETTINGS);
+  const [displaySettingsReady, setDisplaySettingsReady] = useState(false);
+  // Collapsible tables by the pointer of the array they show, so selecting a
+  // value inside one can expand it
+  const tablePointersRef = useRef(new Map<string, string>());
+  // Ids of nested tables that have no pointer (inside query results), by the
+  // array they show, so tables sharing a property name keep their own views
+  const nestedTableIdsRef = useRef({ ids: new WeakMap<object, string>(), next: 0 });
+
+  const {
+    data: parsedData,
+    error: parseError,
+    errorLocation: parseErrorLocation,
+    status: parseStatus,
+    progress: parseProgress,
+    format: detectedFormat,
+    cancel: cancelParse,
+  } = useDocumentParser(jsonInput, inputFormat, sourceName, undefined, PARSE_CACHE_SIZE);
+  const { data: compareData, error: compareError, format: compareFormat } = useDocumentParser(diffMode ? compareInput : '', 'auto', compareName);
+  const inputError = error ?? parseError ?? (compareError && `Compare: ${compareError}`);
+  const diffSections = useMemo(
+    () => (diffMode && parsedData != null && compareData != null ? collectDiffSections(parsedData, compareData) : null),
+    [diffMode, parsedData, compareData]
+  );
+  const inputSize = useMemo(() => new Blob([jsonInput]).size, [jsonInput]);
+  const activeProgress = readProgress ?? parseProgress;
+
+  // The query bar narrows the document down to the slice the tables render
+  const { data: viewData, error: queryError } = useMemo((): { data: any; error: string | null } => {
+    if (!query.trim() || parsedData == null) return { data: parsedData, error: null };
+    try {
+      return { data: runQuery(parsedData, query, queryLanguage), error: null };
+    } catch (e) {
+      return { data: null, error: e instanceof Error ? e.message : 'Invalid query' };
+    }
+  }, [parsedData, query, queryLanguage]);
+
+  const trivyReport = useMemo(() => (isTrivyReport(viewData) ? viewData : null), [viewData]);
+  // Reports of other scanners, shown as findings unless the document is asked for
+  const importedFindings = useMemo(() => (trivyReport || viewData == null ? null : importFindings(viewData)), [trivyReport, viewData]);
+  const importedReport = useMemo(
+    () => (importedFindings ? findingsReport(importedFindings, sourceName) : null),
+    [importedFindings, sourceName]
+  );
+  // Components and dependency graph of SBOMs, and of Trivy reports whose
+  // packages list their dependencies
+  const sbom = useMemo(() => readSbom(viewData), [viewData]);
+  const documentSbom = sbom && sbom.format !== 'trivy' ? sbom : null;
+  const sbomRows = useMemo(() => (documentSbom ? componentRows(documentSbom) : []), [documentSbom]);
+  // Report whose Vulnerabilities tables take triage decisions, and the
+  // artifact the decisions are kept under
+  const triageReport = trivyReport ?? (importedReport && !showImportedDocument ? importedReport : null);
+  const triageArtifact = triageReport ? triageReport.ArtifactName || sourceName || 'Untitled' : null;
+  const triageDecisions = useMemo(
+    () => (triage && triage.artifact === triageArtifact ? triage.decisions : {}),
+    [triage, triageArtifact]
+  );
+  const { policy, error: policyError } = useMemo(() => {
+    if (!policyText.trim()) return { policy: null, error: null };
+    try {
+      return { policy: parsePolicy(policyText), error: null };
+    } catch (e) {
+      return { policy: null, error: e instanceof Error ? e.message : String(e) };
     }
+  }, [policyText]);
+  const policyReport = trivyReport ?? importedReport;
+  const policyVerdict = useMemo(
+    () => (policy && policyReport ? evaluatePolicy(policyReport, policy) : null),
+    [policy, policyReport]
+  );
 
+  // Cells carry JSON Pointers into the parsed document; query results are a
+  // different document, so they get none
+  const rootPointer = query.trim() ? undefined : '';
+
+  const { schema, schemaError } = useMemo((): { schema: unknown; schemaError: string | null } => {
+    if (!schemaOpen) return { schema: null, schemaError: null };
+    if (schemaSource !== 'custom') {
+      return { schema: BUILTIN_SCHEMAS.find(({ value }) => value === schemaSource)?.schema ?? null, schemaError: null };
+    }
+    if (!schemaText.trim()) return { schema: null, schemaError: null };
     try {
-      const parsed = JSON.parse(jsonInput);
-      setError(null);
-      return parsed;
+      return { schema: parseDocument(schemaText, detectFormat(schemaText)), schemaError: null };
     } catch (e) {
-      setError(e instanceof Error ? e.message : 'Invalid JSON');
-      return null;
+      return { schema: null, schemaError: e instanceof Error ? e.message : 'Invalid schema' };
     }
-  }, [jsonInput]);
+  }, [schemaOpen, schemaSource, schemaText]);
 
-  const formatJSON = (obj: any, indent: number = 0): string => {
-    if (obj === null) return 'null';
-    if (typeof obj === 'string') return `"${obj}"`;
-    if (typeof obj !== 'object') return String(obj);
-    
-    if (Array.isArray(obj)) {
-      if (obj.length === 0) return '[]';
-      const items = obj.map(item => 
-        '  '.repeat(indent + 1) + formatJSON(item, indent + 1)
-      ).join(',\n');
-      return `[\n${items}\n${'  '.repeat(indent)}]`;
+  const { issues: schemaIssues, error: schemaValidationError } = useMemo(() => {
+    if (schema == null || parsedData == null) return { issues: null, error: null };
+    try {
+      return { issues: validateWithSchema(parsedData, schema), error: null };
+    } catch (e) {
+      return { issues: null, error: e instanceof Error ? e.message : 'Invalid schema' };
     }
+  }, [schema, parsedData]);
 
-    const entries = Object.entries(obj);
-    if (entries.length === 0) return '{}';
-    
-    const items = entries.map(([key, value]) => 
-      '  '.repeat(indent + 1) + `"${key}": ${formatJSON(value, indent + 1)}`
-    ).join(',\n');
-    
-    return `{\n${items}\n${'  '.repeat(indent)}}`;
+  // Pointers with a schema issue, and every value containing one
+  const { issuePointers, flaggedPointers } = useMemo(() => {
+    const issuePointers = new Set(schemaIssues?.map(issue => issue.pointer));
+    const flaggedPointers = new Set(Array.from(issuePointers).flatMap(pointerAncestors));
+    return { issuePointers, flaggedPointers };
+  }, [schemaIssues]);
+
+  const viewSnapshot = useMemo((): ViewSnapshot => ({
+    collapsedTables: Array.from(collapsedTables),
+    tableViews,
+    searchQuery,
+    query,
+    queryLanguage,
+    inputFormat,
+    outputView,
+    chart: chartSelection ?? undefined,
+  }), [collapsedTables, tableViews, searchQuery, query, queryLanguage, inputFormat, outputView, chartSelection]);
+
+  const applyViewSnapshot = (view: ViewSnapshot) => {
+    setCollapsedTables(new Set(view.collapsedTables));
+    setTableViews(view.tableViews);
+    setSearchQuery(view.searchQuery);
+    setQuery(view.query);
+    setQueryLanguage(view.queryLanguage);
+    setInputFormat(view.inputFormat);
+    setOutputView(view.outputView ?? 'table');
+    setChartSelection(view.chart ?? null);
+  };
+
+  const refreshHistory = () =>
+    listHistory()
+      .then(setHistoryEntries)
+      .catch(err => console.error('Failed to read history:', err));
+
+  const restoreHistory = async (id: string) => {
+    const saved = await loadHistoryDocument(id);
+    if (!saved) return;
+    savedTextRef.current = saved.text;
+    setHistoryId(id);
+    setJsonInput(saved.text);
+    setSourceName(saved.entry.sourceName);
+    applyViewSnapshot(saved.entry.view);
+    setError(null);
+    setSessionNotice(null);
+  };
+
+  // On load, open a shared link if there is one, otherwise pick up the most
+  // recent document from history
+  useEffect(() => {
+    const shared = decodeShareFragment(window.location.hash);
+    if (shared) {
+      window.history.replaceState(null, '', window.location.pathname + window.location.search);
+      applyViewSnapshot(shared.view);
+      setSourceName(shared.sourceName);
+      if (shared.text !== undefined) {
+        setJsonInput(shared.text);
+      } else {
+        setSessionNotice(`The shared link only holds the view. Load ${shared.sourceName ?? 'the document'} to see it.`);
+      }
+      refreshHistory().finally(() => setSessionReady(true));
+      return;
+    }
+
+    listHistory()
+      .then(entries => {
+        setHistoryEntries(entries);
+        return entries[0] ? restoreHistory(entries[0].id) : undefined;
+      })
+      .catch(err => console.error('Failed to restore session:', err))
+      .finally(() => setSessionReady(true));
+  }, []);
+
+  // Save the parsed document and its view state to history once edits settle
+  useEffect(() => {
+    if (!sessionReady || parseStatus !== 'done' || !jsonInput.trim()) return;
+    const timer = setTimeout(() => {
+      const id = historyId ?? createHistoryId();
+      const now = Date.now();
+      const entry: HistoryEntry = {
+        id,
+        name: (trivyReport?.ArtifactName || sourceName) ?? `Pasted ${detectedFormat ? formatLabel(detectedFormat) : 'document'}`,
+        sourceName,
+        size: inputSize,
+        createdAt: historyEntries.find(existing => existing.id === id)?.createdAt ?? now,
+        updatedAt: now,
+        view: viewSnapshot,
+      };
+      const text = savedTextRef.current === jsonInput ? undefined : jsonInput;
+      savedTextRef.current = jsonInput;
+      setHistoryId(id);
+      saveHistory(entry, text)
+        .then(refreshHistory)
+        .catch(err => console.error('Failed to save history:', err));
+    }, 1000);
+    return () => clearTimeout(timer);
+  }, [sessionReady, parseStatus, jsonInput, viewSnapshot, sourceName, historyId]);
+
+  const handleDeleteHistory = async (id: string) => {
+    await deleteHistory(id);
+    if (id === historyId) {
+      setHistoryId(null);
+      savedTextRef.current = null;
+    }
+    refreshHistory();
+  };
+
+  const handleClearHistory = async () => {
+    await clearHistory();
+    setHistoryId(null);
+    savedTextRef.current = null;
+    setHistoryEntries([]);
+  };
+
+  // Copy a link that reopens the current view; small documents travel inside
+  // the URL fragment, which is never sent to a server
+  const handleShare = async () => {
+    const { fragment, embedded } = encodeShareFragment({ view: viewSnapshot, sourceName, text: jsonInput || undefined });
+    const url = `${window.location.origin}${window.location.pathname}#${fragment}`;
+    try {
+      await navigator.clipboard.writeText(url);
+      setShareStatus(embedded || !jsonInput ? 'Link copied' : 'Link copied (view only, document too large)');
+    } catch (err) {
+      console.error('Failed to copy:', err);
+      setShareStatus('Copy failed');
+    }
+    setTimeout(() => setShareStatus(null), 3000);
+  };
+
+  // Read a message out through the live region; cleared first so repeating
+  // the same message is announced again
+  const announce = (message: string) => {
+    setAnnouncement('');
+    requestAnimationFrame(() => setAnnouncement(message));
   };
 
   const handleClear = () => {
     setJsonInput('');
+    setSourceName(undefined);
     setError(null);
+    setHistoryId(null);
+    setSessionNotice(null);
+    savedTextRef.current = null;
   };
 
-  const handleFileUpload = (event: React.ChangeEvent<HTMLInputElement>) => {
+  // Abort a file read or a worker parse that is still running
+  const handleCancelLoading = () => {
+    readerRef.current?.abort();
+    readerRef.current = null;
+    setReadProgress(null);
+    cancelParse();
+  };
+
+  // Read an uploaded text file with progress reporting; `onLoad` receives its contents
+  const readUploadedFile = (
+    event: React.ChangeEvent<HTMLInputElement>,
+    onLoad: (content: string, fileName: string) => void
+  ) => {
     const file = event.target.files?.[0];
     if (!file) return;
 
-    // Check if file is JSON
-    if (!file.name.endsWith('.json') && !file.type.includes('json')) {
-      setError('Please select a JSON file');
+    // Check if file is in one of the supported text formats
+    const lowerName = file.name.toLowerCase();
+    const isSupported = SUPPORTED_EXTENSIONS.some(ext => lowerName.endsWith(ext)) ||
+      /json|yaml|csv|text\//.test(file.type);
+    if (!isSupported) {
+      setError(`Unsupported file type. Supported: ${SUPPORTED_EXTENSIONS.join(', ')}`);
       return;
     }
 
+    readerRef.current?.abort();
     const reader = new FileReader();
-    reader.onload = (e) => {
-      try {
-        const content = e.target?.result as string;
-        // Try to parse to validate it's valid JSON
-        JSON.parse(content);
-        setJsonInput(content);
-        setError(null);
-      } catch (err) {
-        setError(err instanceof Error ? err.message : 'Invalid JSON file');
+    readerRef.current = reader;
+    reader.onprogress = (e) => {
+      if (e.lengthComputable) {
+        setReadProgress({ phase: 'reading', loaded: e.loaded, total: e.total });
       }
     };
+    reader.onload = (e) => {
+      // Parsing happens in the worker once the text lands in the input
+      onLoad(e.target?.result as string, file.name);
+      setError(null);
+    };
     reader.onerror = () => {
       setError('Error reading file');
     };
+    reader.onloadend = () => {
+      if (readerRef.current === reader) readerRef.current = null;
+      setReadProgress(null);
+    };
     reader.readAsText(file);
     
     // Reset input so same file can be selected again
     event.target.value = '';
   };
 
+  // Replace the input with a new document from a file or URL
+  const loadDocument = (content: string, fileName: string) => {
+    setJsonInput(content);
+    setSourceName(fileName);
+    setError(null);
+    setHistoryId(null);
+    setSessionNotice(null);
+    savedTextRef.current = null;
+  };
+
+  // The tabs with the active one's live state written back
+  const captureActiveTab = (list: DocumentTab[]): DocumentTab[] =>
+    list.map(tab =>
+      tab.id === activeTabId
+        ? { ...tab, name: sourceName ?? tab.name, text: jsonInput, view: viewSnapshot, historyId, editHistory }
+        : tab
+    );
+
+  const showTab = (tab: DocumentTab) => {
+    setActiveTabId(tab.id);
+    setJsonInput(tab.text);
+    setSourceName(tab.name);
+    applyViewSnapshot(tab.view);
+    setHistoryId(tab.historyId);
+    setEditHistory(tab.editHistory);
+    setSelectedPointer(null);
+    setEditingPointer(null);
+    setError(null);
+    setSessionNotice(null);
+    savedTextRef.current = null;
+  };
+
+  const switchTab = (id: string) => {
+    const target = tabs.find(tab => tab.id === id);
+    if (!target || id === activeTabId) return;
+    setTabs(captureActiveTab(tabs));
+    showTab(target);
+  };
+
+  const createTab = ({ name, text }: OpenedFile): DocumentTab => ({
+    id: createHistoryId(),
+    name,
+    text,
+    view: { ...EMPTY_VIEW_SNAPSHOT, outputView },
+    historyId: null,
+    editHistory: EMPTY_EDIT_HISTORY,
+  });
+
+  // Open files in tabs of their own, keeping the current document as the first tab
+  const openInTabs = (files: OpenedFile[]) => {
+    if (files.length === 0) return;
+    const current: DocumentTab[] =
+      tabs.length > 0 ? captureActiveTab(tabs)
+      : jsonInput.trim() ? [{ ...createTab({ name: sourceName ?? 'Untitled', text: jsonInput }), view: viewSnapshot, historyId, editHistory }]
+      : [];
+    const added = files.map(createTab);
+    setTabs([...current, ...added]);
+    showTab(added[0]);
+  };
 
-  // Check if data can be displayed as table
-  const canDisplayAsTable = (data: any): boolean => {
-    if (!data) return false;
-    if (Array.isArray(data)) {
-      return true; // Always show arrays as tables
+  const closeTab = (id: string) => {
+    const index = tabs.findIndex(tab => tab.id === id);
+    const remaining = tabs.filter(tab => tab.id !== id);
+    const documents = remaining.filter(tab => !tab.combined);
+    if (id !== activeTabId) {
+      setTabs(captureActiveTab(remaining));
+    } else if (documents.length === 0) {
+      setTabs([]);
+      setActiveTabId(null);
+      handleClear();
+    } else {
+      setTabs(remaining);
+      showTab(documents[Math.min(index, documents.length - 1)]);
     }
-    if (typeof data === 'object' && data !== null) {
-      return true; // Show objects as key-value tables
+  };
+
+  // Rebuild the combined document from every open one and show it. The
+  // documents are parsed again in a worker, which can take a while.
+  const openAllDocuments = async () => {
+    const list = captureActiveTab(tabs);
+    setOpenNotice('Combining documents...');
+    try {
+      const { data, failed } = await combineDocumentsInWorker(list.filter(tab => !tab.combined));
+      const text = JSON.stringify(data, null, 2);
+      const existing = list.find(tab => tab.combined);
+      const tab: DocumentTab = existing
+        ? { ...existing, text, editHistory: EMPTY_EDIT_HISTORY }
+        : { ...createTab({ name: ALL_DOCUMENTS_NAME, text }), combined: true };
+      setTabs(existing ? list.map(entry => (entry.id === tab.id ? tab : entry)) : [...list, tab]);
+      showTab(tab);
+      setOpenNotice(failed.length > 0 ? `Left out of all documents, could not parse: ${failed.join(', ')}` : null);
+    } catch (err) {
+      setOpenNotice(`Could not combine documents: ${err instanceof Error ? err.message : err}`);
     }
-    return false;
   };
 
-  // Get table structure for different data types
-  const getTableStructure = (data: any, excludeKeys: string[] = []): { headers: string[], rows: any[][] } => {
-    if (Array.isArray(data)) {
-      if (data.length === 0) {
-        return { headers: ['Index', 'Value'], rows: [] };
-      }
-      
-      // Array of objects
-      if (data.every(item => typeof item === 'object' && item !== null && !Array.isArray(item))) {
-        const allKeys = new Set<string>();
-        data.forEach(item => {
-          Object.keys(item).forEach(key => {
-            if (!excludeKeys.includes(key)) {
-              allKeys.add(key);
-            }
-          });
-        });
-        const headers = Array.from(allKeys).sort();
-        const rows = data.map(item => 
-          headers.map(header => item[header])
-        );
-        return { headers, rows };
-      }
-      
-      // Array of primitives or mixed
-      const headers = ['Index', 'Value'];
-      const rows = data.map((item, index) => [index, item]);
-      return { headers, rows };
+  // Read dropped or picked files; one file replaces the document as before,
+  // several (or an archive) open in tabs
+  const openFiles = async (files: File[]) => {
+    try {
+      const { opened, skipped } = await readFiles(files);
+      setOpenNotice(skipped.length > 0 ? `Skipped unsupported files: ${skipped.join(', ')}` : null);
+      if (opened.length === 1 && tabs.length === 0) loadDocument(opened[0].text, opened[0].name);
+      else openInTabs(opened);
+    } catch (err) {
+      setOpenNotice(`Could not open files: ${err instanceof Error ? err.message : err}`);
     }
-    
-    // Single object - show as key-value table
-    if (typeof data === 'object' && data !== null) {
-      const headers = ['Key', 'Value'];
-      const rows = Object.entries(data)
-        .filter(([key]) => !excludeKeys.includes(key))
-        .map(([key, value]) => [key, value]);
-      return { headers, rows };
+  };
+
+  const handleFileUpload = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(event.target.files ?? []);
+    // A single text file keeps the progress-reporting reader
+    if (files.length === 1 && tabs.length === 0 && !files[0].name.toLowerCase().endsWith('.zip')) {
+      readUploadedFile(event, loadDocument);
+      return;
     }
-    
-    return { headers: ['Value'], rows: [[data]] };
+    openFiles(files);
+    event.target.value = '';
   };
 
-  // Check if value is a nested structure that should be displayed separately
-  const isNestedStructure = (value: any): boolean => {
-    if (Array.isArray(value)) {
-      return value.length > 0 && value.every(item => typeof item === 'object' && item !== null);
+  const hasDraggedFiles = (e: React.DragEvent) => Array.from(e.dataTransfer.types).includes('Files');
+
+  const handleSchemaUpload = (event: React.ChangeEvent<HTMLInputElement>) => {
+    readUploadedFile(event, (content) => {
+      setSchemaText(content);
+      setSchemaSource('custom');
+    });
+  };
+
+  const handleCompareUpload = (event: React.ChangeEvent<HTMLInputElement>) => {
+    readUploadedFile(event, (content, fileName) => {
+      setCompareInput(content);
+      setCompareName(fileName);
+    });
+  };
+
+  // Pointers of a row and its cells in a table built by getTableStructure:
+  // records address their fields, index/value and key/value rows their value
+  const makeRowPointers = (data: any, base: string | undefined) => {
+    const isRecords = Array.isArray(data) && data.every(item => typeof item === 'object' && item !== null && !Array.isArray(item));
+    return (headers: string[], row: any[], rowIndex: number) => {
+      const rowPointer = childPointer(base, Array.isArray(data) ? rowIndex : row[0]);
+      const cellPointers = headers.map(header =>
+        isRecords ? childPointer(rowPointer, header) : header === 'Value' ? rowPointer : undefined
+      );
+      return { rowPointer, cellPointers };
+    };
+  };
+
+  // Position of the selected value's row among a table's visible rows
+  const getScrollTarget = (data: any, base: string | undefined, rows: any[][], visibleRows: number[]) => {
+    if (selectedPointer === null || base === undefined || selectedPointer === base || !isWithinPointer(selectedPointer, base)) {
+      return undefined;
     }
-    return typeof value === 'object' && value !== null && Object.keys(value).length > 0;
+    const [token] = parsePointer(selectedPointer.slice(base.length));
+    const index = visibleRows.findIndex(rowIndex => String(Array.isArray(data) ? rowIndex : rows[rowIndex][0]) === token);
+    return index === -1 ? undefined : { index, request: pointerScrollRequest };
+  };
+
+  // Highlight for a value: selected, failing the schema, or (unless `exact`)
+  // containing something that fails it
+  const pointerClass = (pointer: string | undefined, exact = false): string => {
+    if (pointer === undefined) return '';
+    if (pointer === selectedPointer) return 'ring-2 ring-inset ring-blue-400 dark:ring-blue-500';
+    if (exact ? issuePointers.has(pointer) : flaggedPointers.has(pointer)) {
+      return 'bg-red-50/80 dark:bg-red-950/30 ring-1 ring-inset ring-red-300 dark:ring-red-800';
+    }
+    return '';
+  };
+
+  // Reveal a value in the tables: drop the query (pointers address the whole
+  // document), expand the tables holding it and scroll it into view
+  const selectPointer = (pointer: string) => {
+    setQuery('');
+    setCollapsedTables(prev => {
+      const next = new Set(prev);
+      tablePointersRef.current.forEach((tablePointer, tableId) => {
+        if (isWithinPointer(pointer, tablePointer)) next.delete(tableId);
+      });
+      return next;
+    });
+    setSelectedPointer(pointer);
+    setPointerScrollRequest(prev => prev + 1);
+  };
+
+  useEffect(() => {
+    if (selectedPointer === null) return;
+    // Wait for expanded tables and virtualized rows to render
+    const frame = requestAnimationFrame(() => {
+      for (const pointer of pointerAncestors(selectedPointer)) {
+        const element = document.querySelector(`[data-pointer="${CSS.escape(pointer)}"]`);
+        if (element) {
+          element.scrollIntoView({ block: 'center', behavior: 'smooth' });
+          return;
+        }
+      }
+    });
+    return () => cancelAnimationFrame(frame);
+    // Only explicit requests scroll; clicking a value must not move the page
+  }, [pointerScrollRequest]);
+
+  // Reveal a row of the imported report by its pointer within the report
+  // (/Results/<i>/<table>/<row>), as policy violations give it
+  const selectReportRow = (pointer: string) => {
+    if (!importedReport) return;
+    const [, resultIndex, table, rowIndex] = parsePointer(pointer);
+    const tableId = `result-${resultIndex}-${table}`;
+    setCollapsedTables(prev => {
+      const next = new Set(prev);
+      next.delete(tableId);
+      return next;
+    });
+    setSelectedReportRow(prev => ({ report: importedReport, tableId, rowIndex: Number(rowIndex), request: (prev?.request ?? 0) + 1 }));
+  };
+
+  const activeReportRow = selectedReportRow?.report === importedReport ? selectedReportRow : null;
+
+  useEffect(() => {
+    if (activeReportRow === null) return;
+    const { tableId, rowIndex } = activeReportRow;
+    // The row, or its table when filters hide it
+    const frame = requestAnimationFrame(() => {
+      const element =
+        document.querySelector(`[data-report-row="${CSS.escape(`${tableId}/${rowIndex}`)}"]`) ??
+        document.querySelector(`[data-report-table="${CSS.escape(tableId)}"]`);
+      element?.scrollIntoView({ block: 'center', behavior: 'smooth' });
+    });
+    return () => cancelAnimationFrame(frame);
+  }, [activeReportRow?.request]);
+
+  // Position of the selected imported report row among a table's visible rows
+  const getReportRowScrollTarget = (tableId: string, visibleRows: number[]) => {
+    if (activeReportRow?.tableId !== tableId) return undefined;
+    const index = visibleRows.indexOf(activeReportRow.rowIndex);
+    return index === -1 ? undefined : { index, request: activeReportRow.request };
+  };
+
+  // Select a table cell without scrolling; nested tables sit inside outer
+  // cells, so the innermost cell wins
+  const selectCell = (e: React.MouseEvent, pointer: string | undefined) => {
+    if (pointer === undefined) return;
+    e.stopPropagation();
+    setSelectedPointer(pointer);
+  };
+
+  const switchOutputView = (view: OutputView) => {
+    setOutputView(view);
+    setPointerScrollRequest(prev => prev + 1);
+  };
+
+  // The input editor follows the selection only when pointers address it
+  // directly: plain JSON, with no query in between
+  const inputSyncEnabled = detectedFormat === 'json' && !query.trim();
+  const inputSelection = useMemo(() => {
+    if (!inputSyncEnabled || selectedPointer === null) return null;
+    return locatePointer(jsonInput, selectedPointer)?.value ?? null;
+  }, [inputSyncEnabled, jsonInput, selectedPointer]);
+
+  const rawText = useMemo(
+    () => (outputView === 'raw' && viewData !== undefined ? JSON.stringify(viewData, null, 2) : ''),
+    [outputView, viewData]
+  );
+  // Base name for files exported from the shown document
+  const documentName = sourceName?.replace(/\.[^.]+$/, '') || 'Document';
+  const chartTables = useMemo(
+    () => (outputView === 'chart' && viewData !== undefined ? collectDocumentTables(viewData, documentName) : []),
+    [outputView, viewData, documentName]
+  );
+  const rawSelection = useMemo(() => {
+    if (!rawText || selectedPointer === null) return null;
+    return locatePointer(rawText, selectedPointer)?.value ?? null;
+  }, [rawText, selectedPointer]);
+
+  // Select whatever value the cursor moved into
+  const selectAtOffset = (text: string, offset: number) => {
+    const pointer = pointerAtOffset(text, offset);
+    if (pointer !== null && pointer !== selectedPointer) setSelectedPointer(pointer);
+  };
+
+  // Put the cursor at a position in the input and scroll it into view
+  const goToLocation = (location: SourceLocation) => {
+    editorRef.current?.focusAt(location.offset);
+  };
+
+  // Edits are written back into the input text, so they need pointers into it:
+  // plain JSON, with no query in between
+  const canEdit = !diffMode && detectedFormat === 'json' && !query.trim();
+  const { past: undoStack, future: redoStack } = editHistory.text === jsonInput ? editHistory : EMPTY_EDIT_HISTORY;
+
+  const applyEdit = (makeEdit: (text: string) => TextEdit) => {
+    // Until the last edit is parsed, the tables show pointers it may have shifted
+    if (parseStatus !== 'done') return;
+    let edit: TextEdit;
+    try {
+      edit = makeEdit(jsonInput);
+    } catch (e) {
+      if (!(e instanceof JsonEditError)) throw e;
+      setEditNotice(e.message);
+      setTimeout(() => setEditNotice(null), 3000);
+      return;
+    }
+    const next = applyTextEdit(jsonInput, edit);
+    setEditHistory({
+      text: next,
+      past: [...undoStack, invertTextEdit(jsonInput, edit)].slice(-MAX_UNDO_STEPS),
+      future: [],
+    });
+    setJsonInput(next);
+  };
+
+  // Step through the edit stacks: the edit taken from one goes onto the other, inverted
+  const stepEditHistory = (direction: 'undo' | 'redo') => {
+    const from = direction === 'undo' ? undoStack : redoStack;
+    const edit = from[from.length - 1];
+    if (!edit) return;
+    const next = applyTextEdit(jsonInput, edit);
+    const inverse = invertTextEdit(jsonInput, edit);
+    setEditHistory(direction === 'undo'
+      ? { text: next, past: undoStack.slice(0, -1), future: [...redoStack, inverse] }
+      : { text: next, past: [...undoStack, inverse], future: redoStack.slice(0, -1) });
+    setEditingPointer(null);
+    setJsonInput(next);
+  };
+
+  // Write a primitive to `pointer`; a missing key is added to its object
+  const editValue = (pointer: string, value: Primitive) => {
+    setEditingPointer(null);
+    if (getAtPointer(parsedData, pointer) !== undefined) {
+      applyEdit(text => setValue(text, pointer, value));
+      return;
+    }
+    const tokens = parsePointer(pointer);
+    applyEdit(text => insertValue(text, formatPointer(tokens.slice(0, -1)), value, tokens[tokens.length - 1]));
+  };
+
+  // Append a blank row shaped like the last one
+  const addRow = (pointer: string, rows: unknown[]) => {
+    applyEdit(text => insertValue(text, pointer, emptyLike(rows[rows.length - 1])));
   };
 
+  const addToTree = (pointer: string, key?: string) => {
+    const container = getAtPointer(parsedData, pointer);
+    if (Array.isArray(container)) addRow(pointer, container);
+    else applyEdit(text => insertValue(text, pointer, null, key));
+  };
+
+  const deleteValue = (pointer: string) => {
+    applyEdit(text => removeValue(text, pointer));
+    if (selectedPointer !== null && isWithinPointer(selectedPointer, pointer)) setSelectedPointer(null);
+  };
+
+  const downloadModified = () => {
+    const name = sourceName?.replace(/\.[^.]+$/, '') || 'document';
+    downloadBlob(new Blob([jsonInput], { type: 'application/json' }), `${name}.json`);
+  };
+
+  // Undo/redo and copy shortcuts, left to the focused field when typing
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || e.altKey) return;
+      const key = e.key.toLowerCase();
+      // The command palette opens from anywhere, the editor included
+      if (key === 'k') {
+        e.preventDefault();
+        setPaletteOpen(prev => !prev);
+        return;
+      }
+      if (e.target instanceof Element && e.target.closest('input, textarea, select, [contenteditable="true"]')) return;
+      if (key === 'z' || key === 'y') {
+        e.preventDefault();
+        stepEditHistory(key === 'y' || e.shiftKey ? 'redo' : 'undo');
+      }
+      // Copy the focused grid cell, or its row with Shift, unless text is selected
+      if (key === 'c' && e.target instanceof HTMLTableCellElement && e.target.closest('[role="grid"]') && !window.getSelection()?.toString()) {
+        e.preventDefault();
+        copyFromGrid(e.target, e.shiftKey);
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  });
+
+  const renderRowDeleteButton = (rowPointer: string | undefined): React.ReactNode =>
+    canEdit && rowPointer !== undefined && (
+      <button
+        onClick={(e) => {
+          e.stopPropagation();
+          deleteValue(rowPointer);
+        }}
+        className="flex items-center justify-center w-8 h-8 rounded-md bg-zinc-100 dark:bg-zinc-800 hover:bg-red-100 dark:hover:bg-red-900/30 text-zinc-600 dark:text-zinc-400 hover:text-red-600 dark:hover:text-red-400 transition-colors"
+        title="Delete row"
+      >
+        <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" />
+        </svg>
+      </button>
+    );
+
+  const renderAddRowButton = (pointer: string | undefined, rows: unknown[]): React.ReactNode =>
+    canEdit && pointer !== undefined && (
+      <button
+        onClick={(e) => {
+          e.stopPropagation();
+          addRow(pointer, rows);
+        }}
+        className="px-3 py-1.5 text-xs font-medium text-zinc-600 dark:text-zinc-400 hover:text-zinc-900 dark:hover:text-zinc-100 transition-colors border border-zinc-200 dark:border-zinc-700 rounded bg-white/60 dark:bg-zinc-900/60 hover:bg-white dark:hover:bg-zinc-800"
+      >
+        Add row
+      </button>
+    );
+
   // Render nested tables for objects with arrays/objects
-  const renderNestedTable = (key: string, value: any, level: number = 0): React.ReactNode => {
+  // View state (sort, filters, grouping, copy feedback) of a nested table is
+  // keyed by its pointer, or by the array itself when it has none
+  const nestedTableId = (key: string, value: any[], pointer?: string): string => {
+    if (pointer !== undefined) return `nested:${pointer}`;
+    const { ids } = nestedTableIdsRef.current;
+    let id = ids.get(value);
+    if (id === undefined) {
+      id = `nested:${key}#${nestedTableIdsRef.current.next++}`;
+      ids.set(value, id);
+    }
+    return id;
+  };
+
+  const renderNestedTable = (key: string, value: any, level: number = 0, pointer?: string): React.ReactNode => {
     if (Array.isArray(value) && value.length > 0 && value.every(item => typeof item === 'object' && item !== null)) {
-      // Special handling for Results - exclude Packages and Vulnerabilities from columns
-      const excludeKeys = key === 'Results' ? ['Packages', 'Vulnerabilities'] : [];
-      const { headers, rows } = getTableStructure(value, excludeKeys);
+      const tableId = nestedTableId(key, value, pointer);
+      const { headers, rows } = getTableStructure(value);
+      const visibleRows = getVisibleRows(tableId, headers, rows);
+      const displayRows = getDisplayRows(tableId, headers, rows, visibleRows);
+      const rowPointers = makeRowPointers(value, pointer);
+      const columnsKey = columnKey(tableId, pointer);
+      const columns = getColumns(columnsKey, headers);
       
       return (
-        <div className={`mt-6 bg-white dark:bg-zinc-900 rounded-xl border border-zinc-200/60 dark:border-zinc-800/60 shadow-lg shadow-zinc-200/20 dark:shadow-zinc-900/50 overflow-hidden ${level > 0 ? 'ml-4' : ''}`}>
+        <div data-pointer={pointer} className={`mt-6 bg-white dark:bg-zinc-900 rounded-xl border border-zinc-200/60 dark:border-zinc-800/60 shadow-lg shadow-zinc-200/20 dark:shadow-zinc-900/50 overflow-hidden ${level > 0 ? 'ml-4' : ''}`}>
           {/* Modern Header */}
           <div className="px-6 py-4 bg-gradient-to-r from-blue-50 via-indigo-50 to-purple-50 dark:from-zinc-800 dark:via-zinc-800 dark:to-zinc-800 border-b border-zinc-200/60 dark:border-zinc-700/60">
             <div className="flex items-center justify-between">
@@ -164,111 +1016,80 @@ export default function Home() {
                 <h3 className="text-base font-bold text-zinc-900 dark:text-zinc-50 tracking-tight">{key}</h3>
               </div>
               <div className="flex items-center gap-2">
-                <button
-                  onClick={(e) => {
-                    e.stopPropagation();
-                    exportToCSV(value, key);
-                  }}
-                  className="px-3 py-1.5 text-xs font-medium text-zinc-600 dark:text-zinc-400 hover:text-blue-600 dark:hover:text-blue-400 bg-white dark:bg-zinc-700 hover:bg-blue-50 dark:hover:bg-blue-900/30 rounded-md border border-zinc-200 dark:border-zinc-600 hover:border-blue-300 dark:hover:border-blue-700 transition-colors flex items-center gap-1.5"
-                  title="Export to CSV"
-                >
-                  <svg className="w-3.5 h-3.5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 10v6m0 0l-3-3m3 3l3-3m2 8H7a2 2 0 01-2-2V5a2 2 0 012-2h5.586a1 1 0 01.707.293l5.414 5.414a1 1 0 01.293.707V19a2 2 0 01-2 2z" />
-                  </svg>
-                  Export CSV
-                </button>
+                {renderAddRowButton(pointer, value)}
+                {renderGroupByMenu(tableId, headers, rows)}
+                {renderColumnChooser(columnsKey, headers)}
+                <ExportMenu onExport={(format) => exportTable(tableId, key, headers, rows, format, columns)} />
                 <div className="h-2 w-2 rounded-full bg-blue-500 animate-pulse"></div>
                 <span className="px-3 py-1 text-xs font-semibold text-blue-700 dark:text-blue-300 bg-blue-100 dark:bg-blue-900/30 rounded-full border border-blue-200 dark:border-blue-800">
-                  {value.length} {value.length === 1 ? 'item' : 'items'}
+                  {renderItemCount(visibleRows.length, value.length)}
                 </span>
               </div>
             </div>
           </div>
           
           {/* Modern Table */}
-          <div className="overflow-x-auto">
-            <table className="w-full">
-              <thead className="bg-gradient-to-b from-zinc-50 to-zinc-100/50 dark:from-zinc-800/50 dark:to-zinc-800/30 border-b border-zinc-200 dark:border-zinc-700 sticky top-0 backdrop-blur-sm">
-                <tr>
-                  {headers.map((header) => (
-                    <th
-                      key={header}
-                      className="px-6 py-4 text-left text-xs font-bold text-zinc-700 dark:text-zinc-200 uppercase tracking-wider"
+          <VirtualTable
+            head={renderTableHead(tableId, columnsKey, columns, true, 'bg-gradient-to-b from-zinc-50 to-zinc-100/50 dark:from-zinc-800/50 dark:to-zinc-800/30 border-b border-zinc-200 dark:border-zinc-700 sticky top-0 backdrop-blur-sm')}
+            rowCount={displayRows.length}
+            colSpan={columns.length + 1}
+            footer={renderNoMatchesRow(visibleRows.length, rows.length, columns.length + 1)}
+            scrollTarget={getScrollTarget(value, pointer, rows, displayRowOrder(displayRows))}
+            renderRow={(visibleIndex) => {
+              const item = displayRows[visibleIndex];
+              if (item.type === 'group') return renderGroupRow(tableId, headers, rows, item.group, columns.length + 1);
+              const rowIndex = item.rowIndex;
+              const row = rows[rowIndex];
+              const originalRow = value[rowIndex];
+              const copyId = `${tableId}-${rowIndex}`;
+              const isCopied = copiedIndex === copyId;
+              const { rowPointer, cellPointers } = rowPointers(headers, row, rowIndex);
+
+              return (
+                <tr
+                  key={rowIndex}
+                  data-pointer={rowPointer}
+                  className={`group hover:bg-gradient-to-r hover:from-blue-50/50 hover:to-indigo-50/30 dark:hover:from-zinc-800/40 dark:hover:to-zinc-800/20 transition-all duration-200 ${pointerClass(rowPointer, true)}`}
+                >
+                  {columns.map((column) => (
+                    <td
+                      key={column.header}
+                      data-pointer={cellPointers[column.index]}
+                      onClick={(e) => selectCell(e, cellPointers[column.index])}
+                      style={columnStyle(column)}
+                      className={`px-6 py-4 text-sm text-zinc-900 dark:text-zinc-100 align-top group-hover:text-zinc-950 dark:group-hover:text-zinc-50 transition-colors ${columnClass(column)} ${pointerClass(cellPointers[column.index])}`}
                     >
-                      {header}
-                    </th>
+                      {renderCellValue(row[column.index], column.header, rowIndex, cellPointers[column.index])}
+                    </td>
                   ))}
-                  <th className="px-4 py-4 w-20 text-xs font-bold text-zinc-700 dark:text-zinc-200 uppercase tracking-wider">
-                    Copy
-                  </th>
+                  <td className="px-4 py-4 w-24">
+                    <div className="flex items-center gap-1">
+                      <button
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          copyRecord(originalRow, rowIndex, tableId);
+                        }}
+                        className="flex items-center justify-center w-8 h-8 rounded-md bg-zinc-100 dark:bg-zinc-800 hover:bg-blue-100 dark:hover:bg-blue-900/30 text-zinc-600 dark:text-zinc-400 hover:text-blue-600 dark:hover:text-blue-400 transition-colors"
+                        title="Copy record"
+                        aria-label={isCopied ? 'Copied' : 'Copy record'}
+                      >
+                        {isCopied ? (
+                          <svg className="w-4 h-4 text-green-600 dark:text-green-400" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 13l4 4L19 7" />
+                          </svg>
+                        ) : (
+                          <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 16H6a2 2 0 01-2-2V6a2 2 0 012-2h8a2 2 0 012 2v2m-6 12h8a2 2 0 002-2v-8a2 2 0 00-2-2h-8a2 2 0 00-2 2v8a2 2 0 002 2z" />
+                          </svg>
+                        )}
+                      </button>
+                      {renderRowDeleteButton(rowPointer)}
+                    </div>
+                  </td>
                 </tr>
-              </thead>
-              <tbody className="divide-y divide-zinc-100/80 dark:divide-zinc-800/50">
-                {rows.map((row, rowIndex) => {
-                  const originalRow = value[rowIndex];
-                  const hasPackages = originalRow?.Packages && Array.isArray(originalRow.Packages) && originalRow.Packages.length > 0;
-                  const hasVulnerabilities = originalRow?.Vulnerabilities && Array.isArray(originalRow.Vulnerabilities) && originalRow.Vulnerabilities.length > 0;
-                  const copyId = `nested-${key}-${rowIndex}`;
-                  const isCopied = copiedIndex === copyId;
-                  
-                  return (
-                    <Fragment key={rowIndex}>
-                      <tr className="group hover:bg-gradient-to-r hover:from-blue-50/50 hover:to-indigo-50/30 dark:hover:from-zinc-800/40 dark:hover:to-zinc-800/20 transition-all duration-200">
-                        {row.map((cell, cellIndex) => (
-                          <td
-                            key={cellIndex}
-                            className="px-6 py-4 text-sm text-zinc-900 dark:text-zinc-100 align-top group-hover:text-zinc-950 dark:group-hover:text-zinc-50 transition-colors"
-                          >
-                            {renderCellValue(cell, headers[cellIndex], rowIndex)}
-                          </td>
-                        ))}
-                        <td className="px-4 py-4 w-20">
-                          <button
-                            onClick={(e) => {
-                              e.stopPropagation();
-                              copyRecord(originalRow, rowIndex, `nested-${key}`);
-                            }}
-                            className="flex items-center justify-center w-8 h-8 rounded-md bg-zinc-100 dark:bg-zinc-800 hover:bg-blue-100 dark:hover:bg-blue-900/30 text-zinc-600 dark:text-zinc-400 hover:text-blue-600 dark:hover:text-blue-400 transition-colors"
-                            title="Copy record"
-                          >
-                            {isCopied ? (
-                              <svg className="w-4 h-4 text-green-600 dark:text-green-400" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-                                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 13l4 4L19 7" />
-                              </svg>
-                            ) : (
-                              <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-                                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 16H6a2 2 0 01-2-2V6a2 2 0 012-2h8a2 2 0 012 2v2m-6 12h8a2 2 0 002-2v-8a2 2 0 00-2-2h-8a2 2 0 00-2 2v8a2 2 0 002 2z" />
-                              </svg>
-                            )}
-                          </button>
-                        </td>
-                      </tr>
-                      {/* Render Packages and Vulnerabilities as collapsible tables below each row */}
-                      {(hasPackages || hasVulnerabilities) && (
-                        <tr>
-                          <td colSpan={headers.length} className="px-6 py-4 bg-zinc-50/50 dark:bg-zinc-900/50">
-                            <div className="space-y-4">
-                              <div className="px-2 py-2 border-b-2 border-zinc-300 dark:border-zinc-700">
-                                <h4 className="text-sm font-bold text-zinc-900 dark:text-zinc-100 uppercase tracking-wider">Table</h4>
-                              </div>
-                              <div className="space-y-4">
-                                {hasVulnerabilities && (
-                                  <div>{renderCollapsibleTable('Vulnerabilities', originalRow.Vulnerabilities, 1, `results-${rowIndex}-Vulnerabilities`)}</div>
-                                )}
-                                {hasPackages && (
-                                  <div>{renderCollapsibleTable('Packages', originalRow.Packages, 2, `results-${rowIndex}-Packages`)}</div>
-                                )}
-                              </div>
-                            </div>
-                          </td>
-                        </tr>
-                      )}
-                    </Fragment>
-                  );
-                })}
-              </tbody>
-            </table>
-          </div>
+              );
+            }}
+          />
         </div>
       );
     }
@@ -276,6 +1097,18 @@ export default function Home() {
   };
 
   // Toggle collapse state for tables
+  // C toggles a collapsible table from anywhere inside it, leaving focus on
+  // its header so the new state is announced
+  const handleCollapseKey = (e: React.KeyboardEvent<HTMLElement>, tableId: string) => {
+    if (e.key.toLowerCase() !== 'c' || e.ctrlKey || e.metaKey || e.altKey) return;
+    if (e.target instanceof Element && e.target.closest('input, textarea, select, [contenteditable="true"]')) return;
+    // Nested collapsible tables toggle only themselves
+    e.stopPropagation();
+    e.preventDefault();
+    toggleTable(tableId);
+    e.currentTarget.querySelector<HTMLElement>('[data-collapse-toggle]')?.focus();
+  };
+
   const toggleTable = (tableId: string) => {
     setCollapsedTables(prev => {
       const newSet = new Set(prev);
@@ -288,6 +1121,376 @@ export default function Home() {
     });
   };
 
+  // Cycle a column's sort: ascending, descending, then back to input order
+  const toggleSort = (tableId: string, column: string) => {
+    setTableViews(prev => {
+      const view = prev[tableId] ?? EMPTY_TABLE_VIEW;
+      const sort: TableViewState['sort'] =
+        view.sort?.column !== column ? { column, direction: 'asc' }
+        : view.sort.direction === 'asc' ? { column, direction: 'desc' }
+        : undefined;
+      return { ...prev, [tableId]: { ...view, sort } };
+    });
+  };
+
+  const setColumnFilter = (tableId: string, column: string, query: string) => {
+    setTableViews(prev => {
+      const view = prev[tableId] ?? EMPTY_TABLE_VIEW;
+      return { ...prev, [tableId]: { ...view, filters: { ...view.filters, [column]: query } } };
+    });
+  };
+
+  const getVisibleRows = (tableId: string, headers: string[], rows: any[][]): number[] =>
+    getVisibleRowIndices(headers, rows, tableViews[tableId], searchQuery);
+
+  const setGrouping = (tableId: string, groupBy: string[], aggregates: Aggregate[]) => {
+    setTableViews(prev => {
+      const view = prev[tableId] ?? EMPTY_TABLE_VIEW;
+      return { ...prev, [tableId]: { ...view, groupBy, aggregates } };
+    });
+  };
+
+  // Grouping columns that exist in this table; a saved view may name others
+  const getGroupBy = (tableId: string, headers: string[]): string[] =>
+    (tableViews[tableId]?.groupBy ?? []).filter(column => headers.includes(column));
+
+  // Group collapse state lives in collapsedTables next to the tables' own
+  const groupCollapseId = (tableId: string, groupId: string) => `${tableId}::${groupId}`;
+
+  const getDisplayRows = (tableId: string, headers: string[], rows: any[][], visibleRows: number[]): DisplayRow[] => {
+    const groupBy = getGroupBy(tableId, headers);
+    if (groupBy.length === 0) return visibleRows.map(rowIndex => ({ type: 'row', rowIndex }));
+    return flattenGroups(groupRows(headers, rows, visibleRows, groupBy), group =>
+      collapsedTables.has(groupCollapseId(tableId, group.id))
+    );
+  };
+
+  // Row order for getScrollTarget, with group headers matching nothing
+  const displayRowOrder = (displayRows: DisplayRow[]): number[] =>
+    displayRows.map(item => (item.type === 'row' ? item.rowIndex : -1));
+
+  const setGroupsCollapsed = (tableId: string, headers: string[], rows: any[][], collapsed: boolean) => {
+    const prefix = groupCollapseId(tableId, '');
+    setCollapsedTables(prev => {
+      const next = new Set(Array.from(prev).filter(id => !id.startsWith(prefix)));
+      if (collapsed) {
+        const groups = groupRows(headers, rows, getVisibleRows(tableId, headers, rows), getGroupBy(tableId, headers));
+        allGroupIds(groups).forEach(groupId => next.add(groupCollapseId(tableId, groupId)));
+      }
+      return next;
+    });
+  };
+
+  const renderGroupByMenu = (tableId: string, headers: string[], rows: any[][]): React.ReactNode => (
+    <GroupByMenu
+      headers={headers}
+      groupBy={getGroupBy(tableId, headers)}
+      aggregates={(tableViews[tableId]?.aggregates ?? []).filter(({ column }) => headers.includes(column))}
+      onChange={(groupBy, aggregates) => setGrouping(tableId, groupBy, aggregates)}
+      onCollapseAll={() => setGroupsCollapsed(tableId, headers, rows, true)}
+      onExpandAll={() => setGroupsCollapsed(tableId, headers, rows, false)}
+    />
+  );
+
+  // Header row of a group: its value, row count and aggregates, toggling the
+  // group's rows on click
+  const renderGroupRow = (tableId: string, headers: string[], rows: any[][], group: RowGroup, colSpan: number): React.ReactNode => {
+    const collapseId = groupCollapseId(tableId, group.id);
+    const isCollapsed = collapsedTables.has(collapseId);
+    const aggregates = (tableViews[tableId]?.aggregates ?? []).filter(({ column }) => headers.includes(column));
+    const text = cellText(group.value);
+    const severity = group.column.toLowerCase() === 'severity' ? normalizeSeverity(group.value) : null;
+
+    return (
+      <tr key={`group:${group.id}`} className="bg-zinc-50/80 dark:bg-zinc-800/40 border-y border-zinc-200/60 dark:border-zinc-700/60">
+        <td colSpan={colSpan} className="px-6 py-2">
+          <div className="flex flex-wrap items-center gap-x-4 gap-y-1" style={{ paddingLeft: group.depth * 20 }}>
+            <button
+              onClick={() => toggleTable(collapseId)}
+              className="flex items-center gap-2 text-sm hover:opacity-80 transition-opacity"
+              aria-expanded={!isCollapsed}
+            >
+              <svg
+                className={`w-4 h-4 text-zinc-500 dark:text-zinc-400 transition-transform duration-200 ${isCollapsed ? '' : 'rotate-90'}`}
+                fill="none"
+                viewBox="0 0 24 24"
+                stroke="currentColor"
+              >
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 5l7 7-7 7" />
+              </svg>
+              <span className="text-zinc-500 dark:text-zinc-400">{group.column}:</span>
+              {severity && text.toUpperCase() === severity ? (
+                renderSeverityBadge(severity)
+              ) : (
+                <span className="font-semibold text-zinc-900 dark:text-zinc-100">
+                  {text === '' ? <span className="italic font-normal text-zinc-400 dark:text-zinc-500">empty</span> : text}
+                </span>
+              )}
+              <span className="px-2 py-0.5 text-xs font-semibold text-blue-700 dark:text-blue-300 bg-blue-100 dark:bg-blue-900/30 rounded-full">
+                {group.rowIndices.length}
+              </span>
+            </button>
+            {aggregates.map(({ column, fn }, index) => {
+              const value = aggregateRows(rows, group.rowIndices, headers.indexOf(column), fn);
+              const label = AGGREGATE_FUNCTIONS.find(({ value: option }) => option === fn)?.label ?? fn;
+              return (
+                <span key={index} className="text-xs text-zinc-500 dark:text-zinc-400">
+                  {label} {column}:{' '}
+                  <span className="font-mono text-zinc-800 dark:text-zinc-200">{value === null ? '—' : cellText(value)}</span>
+                </span>
+              );
+            })}
+          </div>
+        </td>
+      </tr>
+    );
+  };
+
+  useEffect(() => {
+    setColumnSettings(loadColumnSettings());
+    setColumnSettingsReady(true);
+  }, []);
+
+  useEffect(() => {
+    if (columnSettingsReady) saveColumnSettings(columnSettings);
+  }, [columnSettings, columnSettingsReady]);
+
+  useEffect(() => {
+    setDisplaySettings(loadDisplaySettings());
+    setDisplaySettingsReady(true);
+  }, []);
+
+  useEffect(() => {
+    setPolicyText(loadPolicyText());
+    setPolicyTextReady(true);
+  }, []);
+
+  useEffect(() => {
+    if (policyTextReady) savePolicyText(policyText);
+  }, [policyText, policyTextReady]);
+
+  useEffect(() => {
+    setTriage(triageArtifact === null ? null : { artifact: triageArtifact, decisions: loadTriage(triageArtifact) });
+  }, [triageArtifact]);
+
+  const updateTriage = (update: (decisions: TriageDecisions) => TriageDecisions) => {
+    if (triageArtifact === null) return;
+    const decisions = update(triageDecisions);
+    setTriage({ artifact: triageArtifact, decisions });
+    saveTriage(triageArtifact, decisions);
+  };
+
+  // Decision on a Vulnerabilities row that still holds
+  const activeDecision = (record: any): TriageDecision | undefined => {
+    const decision = findDecision(triageDecisions, record?.VulnerabilityID, record?.PkgName);
+    return decision && !isExpired(decision) ? decision : undefined;
+  };
+
+  const decideFinding = (record: any, fields: Pick<TriageDecision, 'status' | 'justification' | 'vexJustification' | 'expiresAt'>) => {
+    const decision: TriageDecision = {
+      vulnerabilityId: String(record.VulnerabilityID),
+      pkgName: typeof record.PkgName === 'string' ? record.PkgName : undefined,
+      purl: typeof record.PkgIdentifier?.PURL === 'string' ? record.PkgIdentifier.PURL : undefined,
+      ...fields,
+      decidedAt: new Date().toISOString(),
+    };
+    updateTriage(decisions => ({ ...decisions, [triageKey(decision.vulnerabilityId, decision.pkgName)]: decision }));
+    announce(`${decision.vulnerabilityId} marked ${statusLabel(decision.status).toLowerCase()}`);
+  };
+
+  const clearDecision = (decision: TriageDecision) => {
+    updateTriage(decisions => {
+      const next = { ...decisions };
+      delete next[triageKey(decision.vulnerabilityId, decision.pkgName)];
+      return next;
+    });
+    announce(`Triage of ${decision.vulnerabilityId} cleared`);
+  };
+
+  const exportTriage = (format: TriageExportFormat) => {
+    const decisions = Object.values(triageDecisions);
+    if (format === 'trivyignore') {
+      downloadBlob(new Blob([toTrivyIgnore(decisions)], { type: 'text/plain;charset=utf-8;' }), '.trivyignore');
+    } else if (format === 'trivyignore-yaml') {
+      downloadBlob(new Blob([toTrivyIgnoreYaml(decisions)], { type: 'application/yaml;charset=utf-8;' }), '.trivyignore.yaml');
+    } else {
+      const artifact = triageArtifact ?? 'artifact';
+      const name = artifact.replace(/[^\w.-]+/g, '-').replace(/^-+|-+$/g, '') || 'report';
+      downloadBlob(new Blob([JSON.stringify(toOpenVex(decisions, artifact), null, 2)], { type: 'application/json' }), `${name}.openvex.json`);
+    }
+  };
+
+  // Apply a VEX or ignore file to the shown report; throws when it is neither
+  const importTriageFile = (text: string): string => {
+    const imported = importTriage(text);
+    const decisions = mergeDecisions(triageDecisions, imported);
+    updateTriage(() => decisions);
+    const covered = (triageReport?.Results ?? [])
+      .flatMap(result => result.Vulnerabilities ?? [])
+      .filter(vulnerability => findDecision(decisions, vulnerability.VulnerabilityID, vulnerability.PkgName)).length;
+    return `${imported.length} ${imported.length === 1 ? 'decision' : 'decisions'} imported, covering ${covered} ${covered === 1 ? 'finding' : 'findings'} in this report`;
+  };
+
+  useEffect(() => {
+    if (displaySettingsReady) saveDisplaySettings(displaySettings);
+  }, [displaySettings, displaySettingsReady]);
+
+  // Tables share column settings by path; query results have no path, so
+  // they fall back to the table id
+  const columnKey = (tableId: string, pointer: string | undefined): string =>
+    pointer !== undefined ? tablePath(pointer) : `table:${tableId}`;
+
+  const getColumns = (key: string, headers: string[]): TableColumn[] => resolveColumns(headers, columnSettings[key] ?? defaultColumnSettings(key));
+
+  const updateColumnSettings = (key: string, settings: ColumnSettings | null) => {
+    setColumnSettings(prev => {
+      const next = { ...prev };
+      if (settings) next[key] = settings;
+      else delete next[key];
+      return next;
+    });
+  };
+
+  const renderColumnChooser = (key: string, headers: string[]): React.ReactNode => {
+    const settings = columnSettings[key] ?? defaultColumnSettings(key);
+    return (
+      <ColumnChooser
+        columns={orderColumns(headers, settings)}
+        settings={settings}
+        onChange={(next) => updateColumnSettings(key, next)}
+        onReset={() => updateColumnSettings(key, null)}
+      />
+    );
+  };
+
+  // Pinned columns stick to the left edge; resized ones keep their width
+  const columnStyle = (column: TableColumn): React.CSSProperties | undefined => {
+    if (column.width === undefined) return undefined;
+    const size = { width: column.width, minWidth: column.width, maxWidth: column.width };
+    return column.pinned ? { ...size, left: column.left } : size;
+  };
+
+  const columnClass = (column: TableColumn): string =>
+    column.pinned ? 'sticky z-[1] bg-white dark:bg-zinc-900 break-words' : column.width !== undefined ? 'break-words' : '';
+
+  // Drag a header's edge to resize its column
+  const startResize = (e: React.MouseEvent, key: string, header: string) => {
+    e.preventDefault();
+    e.stopPropagation();
+    const startX = e.clientX;
+    const startWidth = (e.currentTarget.parentElement as HTMLElement).getBoundingClientRect().width;
+    const handleMove = (event: MouseEvent) => {
+      const width = Math.max(MIN_COLUMN_WIDTH, Math.round(startWidth + event.clientX - startX));
+      setColumnSettings(prev => {
+        const settings = prev[key] ?? defaultColumnSettings(key);
+        return { ...prev, [key]: { ...settings, widths: { ...settings.widths, [header]: width } } };
+      });
+    };
+    const handleUp = () => {
+      window.removeEventListener('mousemove', handleMove);
+      window.removeEventListener('mouseup', handleUp);
+    };
+    window.addEventListener('mousemove', handleMove);
+    window.addEventListener('mouseup', handleUp);
+  };
+
+  // Table header with sortable columns and a row of per-column filter inputs
+  const renderTableHead = (
+    tableId: string,
+    columnsKey: string,
+    columns: TableColumn[],
+    withCopyColumn: boolean,
+    className: string
+  ): React.ReactNode => {
+    const view = tableViews[tableId] ?? EMPTY_TABLE_VIEW;
+    // Pinned header cells need the header background to cover scrolled cells
+    const headClass = (column: TableColumn) =>
+      column.pinned ? 'sticky z-[2] bg-zinc-50 dark:bg-zinc-800' : '';
+
+    return (
+      <thead className={className}>
+        <tr>
+          {columns.map((column) => {
+            const { header } = column;
+            const direction = view.sort?.column === header ? view.sort.direction : undefined;
+            return (
+              <th
+                key={header}
+                aria-sort={direction === 'asc' ? 'ascending' : direction === 'desc' ? 'descending' : undefined}
+                style={columnStyle(column)}
+                className={`relative px-6 pt-4 pb-2 text-left text-xs font-bold text-zinc-700 dark:text-zinc-200 uppercase tracking-wider ${headClass(column)}`}
+              >
+                <button
+                  onClick={() => toggleSort(tableId, header)}
+                  className="inline-flex items-center gap-1.5 uppercase tracking-wider hover:text-blue-600 dark:hover:text-blue-400 transition-colors"
+                  title={`Sort by ${header}`}
+                >
+                  {header}
+                  <span className={direction ? 'text-blue-600 dark:text-blue-400' : 'text-zinc-300 dark:text-zinc-600'}>
+                    {direction === 'desc' ? '↓' : '↑'}
+                  </span>
+                </button>
+                <div
+                  onMouseDown={(e) => startResize(e, columnsKey, header)}
+                  className="absolute top-0 right-0 h-full w-1.5 cursor-col-resize hover:bg-blue-400/60"
+                  role="separator"
+                  aria-orientation="vertical"
+                  aria-label={`Resize ${header}`}
+                />
+              </th>
+            );
+          })}
+          {withCopyColumn && (
+            <th className="px-4 pt-4 pb-2 w-24 text-xs font-bold text-zinc-700 dark:text-zinc-200 uppercase tracking-wider">
+              Copy
+            </th>
+          )}
+        </tr>
+        <tr>
+          {columns.map((column) => (
+            <th key={column.header} style={columnStyle(column)} className={`px-6 pb-3 ${headClass(column)}`}>
+              <input
+                type="text"
+                value={view.filters[column.header] ?? ''}
+                onChange={(e) => setColumnFilter(tableId, column.header, e.target.value)}
+                placeholder="Filter..."
+                aria-label={`Filter ${column.header}`}
+                className="w-full min-w-24 px-2 py-1 text-xs font-normal text-zinc-900 dark:text-zinc-100 bg-white dark:bg-zinc-900 border border-zinc-200 dark:border-zinc-700 rounded focus:outline-none focus:border-zinc-400 dark:focus:border-zinc-500 transition-colors"
+              />
+            </th>
+          ))}
+          {withCopyColumn && <th className="px-4 pb-3 w-24" />}
+        </tr>
+      </thead>
+    );
+  };
+
+  const renderItemCount = (visibleCount: number, totalCount: number): string =>
+    visibleCount === totalCount
+      ? `${totalCount} ${totalCount === 1 ? 'item' : 'items'}`
+      : `${visibleCount} of ${totalCount} items`;
+
+  const renderNoMatchesRow = (visibleCount: number, totalCount: number, colSpan: number): React.ReactNode =>
+    visibleCount === 0 && totalCount > 0 ? (
+      <tr>
+        <td colSpan={colSpan} className="px-6 py-8 text-center text-sm text-zinc-400 dark:text-zinc-500">
+          No matching rows
+        </td>
+      </tr>
+    ) : null;
+
+  // Wrap global search matches in <mark> for highlighting
+  const renderHighlighted = (text: string): React.ReactNode => {
+    if (!searchQuery.trim()) return text;
+    return splitMatches(text, searchQuery).map((part, idx) =>
+      part.match ? (
+        <mark key={idx} className="bg-yellow-200 dark:bg-yellow-500/40 text-inherit rounded-sm">{part.text}</mark>
+      ) : (
+        part.text
+      )
+    );
+  };
+
   // Copy vulnerability record to clipboard
   const copyRecord = async (record: any, recordIndex: number, tableId: string) => {
     try {
@@ -295,98 +1498,124 @@ export default function Home() {
       await navigator.clipboard.writeText(jsonString);
       const copyId = `${tableId}-${recordIndex}`;
       setCopiedIndex(copyId);
+      announce('Copied record');
       setTimeout(() => setCopiedIndex(null), 2000);
     } catch (err) {
       console.error('Failed to copy:', err);
     }
   };
 
-  // Export table to CSV
-  const exportToCSV = (data: any[], tableName: string) => {
-    if (!data || data.length === 0) return;
-
-    // Flatten nested objects and arrays for CSV
-    const flattenObject = (obj: any, prefix = ''): Record<string, string> => {
-      const flattened: Record<string, string> = {};
-      
-      for (const [key, value] of Object.entries(obj)) {
-        const newKey = prefix ? `${prefix}.${key}` : key;
-        
-        if (value === null || value === undefined) {
-          flattened[newKey] = '';
-        } else if (Array.isArray(value)) {
-          if (value.length === 0) {
-            flattened[newKey] = '[]';
-          } else if (value.every(item => typeof item === 'object' && item !== null)) {
-            // Array of objects - convert to JSON string
-            flattened[newKey] = JSON.stringify(value);
-          } else {
-            // Array of primitives - join with semicolon
-            flattened[newKey] = value.map(v => String(v)).join('; ');
-          }
-        } else if (typeof value === 'object') {
-          // Nested object - flatten recursively
-          Object.assign(flattened, flattenObject(value, newKey));
-        } else {
-          flattened[newKey] = String(value);
-        }
-      }
-      
-      return flattened;
-    };
+  // Copy the focused grid cell's value, or with `wholeRow` its row's record.
+  // Values are looked up by pointer; query results have none, so their
+  // rendered text is copied instead.
+  const copyFromGrid = async (cell: HTMLTableCellElement, wholeRow: boolean) => {
+    const element: HTMLElement = wholeRow ? (cell.parentElement as HTMLTableRowElement) : cell;
+    const pointer = element.dataset.pointer;
+    const value = pointer !== undefined ? getAtPointer(viewData, pointer) : undefined;
+    const text =
+      value === undefined
+        ? wholeRow
+          ? Array.from((element as HTMLTableRowElement).cells, td => td.innerText.trim()).join('\t')
+          : cell.innerText.trim()
+        : typeof value === 'string' ? value : JSON.stringify(value, null, 2);
+    try {
+      await navigator.clipboard.writeText(text);
+      announce(wholeRow ? 'Copied row' : 'Copied cell');
+    } catch (err) {
+      console.error('Failed to copy:', err);
+      announce('Copy failed');
+    }
+  };
+
+  // Export the rows of a table as currently shown: sorted, filtered, searched
+  // and with its visible columns in order. Multi-table formats also get the
+  // nested arrays as tables. Tables that hide more rows (e.g. triaged
+  // findings) pass the rows they show.
+  const exportTable = (
+    tableId: string,
+    name: string,
+    headers: string[],
+    rows: any[][],
+    format: ExportFormat,
+    columns: TableColumn[],
+    visibleRows = getVisibleRows(tableId, headers, rows)
+  ) => {
+    const records = visibleRows.map(rowIndex =>
+      Object.fromEntries(headers.map((header, column) => [header, rows[rowIndex][column]]))
+    );
+    if (records.length === 0) return;
+    const multiTable = EXPORT_FORMATS.find(({ value }) => value === format)?.multiTable ?? false;
+    downloadExport(buildExportTables(name, records, columns.map(({ header }) => header), multiTable), format, name);
+  };
 
-    // Get all unique keys from all objects
-    const allKeys = new Set<string>();
-    data.forEach(item => {
-      const flattened = flattenObject(item);
-      Object.keys(flattened).forEach(key => allKeys.add(key));
-    });
+  // Export every table of the shown document into one file
+  const exportDocument = (format: ExportFormat) => {
+    downloadExport(collectDocumentTables(viewData, documentName), format, documentName);
+  };
 
-    const headers = Array.from(allKeys).sort();
-    
-    // Create CSV rows
-    const csvRows = [
-      headers.join(','), // Header row
-      ...data.map(item => {
-        const flattened = flattenObject(item);
-        return headers.map(header => {
-          const value = flattened[header] || '';
-          // Escape quotes and wrap in quotes if contains comma, quote, or newline
-          const escaped = String(value).replace(/"/g, '""');
-          if (escaped.includes(',') || escaped.includes('"') || escaped.includes('\n')) {
-            return `"${escaped}"`;
-          }
-          return escaped;
-        }).join(',');
-      })
-    ];
+  // Cells of the Trivy finding tables that read better than their JSON: cause
+  // lines as code, and secrets masked until revealed
+  const renderFindingCell = (section: string, header: string, value: any): React.ReactNode | undefined => {
+    if (section === 'Misconfigurations' && header === 'CauseMetadata' && typeof value === 'object' && value !== null) {
+      return renderCauseMetadata(value);
+    }
+    if (section === 'Secrets' && header === 'Code' && Array.isArray(value?.Lines) && value.Lines.length > 0) {
+      return <CodeSnippet lines={value.Lines} masked />;
+    }
+    if (section === 'Secrets' && header === 'Match' && typeof value === 'string' && value) {
+      return <MaskedText text={value} />;
+    }
+    return undefined;
+  };
 
-    const csvContent = csvRows.join('\n');
-    const blob = new Blob([csvContent], { type: 'text/csv;charset=utf-8;' });
-    const link = document.createElement('a');
-    const url = URL.createObjectURL(blob);
-    
-    link.setAttribute('href', url);
-    link.setAttribute('download', `${tableName}_${new Date().toISOString().split('T')[0]}.csv`);
-    link.style.visibility = 'hidden';
-    document.body.appendChild(link);
-    link.click();
-    document.body.removeChild(link);
-    URL.revokeObjectURL(url);
+  // Where a misconfiguration is, then the lines that cause it
+  const renderCauseMetadata = ({ Provider, Service, Resource, StartLine, EndLine, Code }: TrivyCauseMetadata): React.ReactNode => {
+    const lines: TrivyCodeLine[] = Code?.Lines ?? [];
+    const location = [
+      Provider,
+      Service,
+      Resource,
+      StartLine ? (EndLine && EndLine !== StartLine ? `lines ${StartLine}–${EndLine}` : `line ${StartLine}`) : undefined,
+    ].filter(Boolean);
+    return (
+      <div className="space-y-1.5 min-w-[16rem]">
+        {location.length > 0 && <p className="text-xs text-zinc-500 dark:text-zinc-400">{location.join(' · ')}</p>}
+        {lines.length > 0 && <CodeSnippet lines={lines} />}
+      </div>
+    );
   };
 
-  // Render collapsible table for Packages/Vulnerabilities
-  const renderCollapsibleTable = (key: string, value: any[], index: number, tableId: string): React.ReactNode => {
+  // Collapsible table for each section of a Trivy Result: vulnerabilities,
+  // misconfigurations, secrets, licenses and packages
+  const renderCollapsibleTable = (key: string, value: any[], index: number, tableId: string, pointer?: string): React.ReactNode => {
     const isCollapsed = collapsedTables.has(tableId);
     const { headers, rows } = getTableStructure(value);
+    // Findings of the shown report take triage decisions
+    const triageable = key === 'Vulnerabilities' && triageReport !== null;
+    const filteredRows = getVisibleRows(tableId, headers, rows);
+    const visibleRows = triageable && triageDisplay === 'hide' ? filteredRows.filter(rowIndex => !activeDecision(value[rowIndex])) : filteredRows;
+    const displayRows = getDisplayRows(tableId, headers, rows, visibleRows);
+    const rowPointers = makeRowPointers(value, pointer);
+    const columnsKey = columnKey(tableId, pointer);
+    const columns = getColumns(columnsKey, headers);
+    if (pointer !== undefined) tablePointersRef.current.set(tableId, pointer);
     
   return (
-      <div className="mb-4 bg-white dark:bg-zinc-900 rounded-xl border border-zinc-200/60 dark:border-zinc-800/60 shadow-md shadow-zinc-200/10 dark:shadow-zinc-900/30 overflow-hidden">
+      <div
+        data-pointer={pointer}
+        data-report-table={pointer === undefined ? tableId : undefined}
+        onKeyDown={(e) => handleCollapseKey(e, tableId)}
+        className="mb-4 bg-white dark:bg-zinc-900 rounded-xl border border-zinc-200/60 dark:border-zinc-800/60 shadow-md shadow-zinc-200/10 dark:shadow-zinc-900/30 overflow-hidden"
+      >
         {/* Collapsible Header */}
         <div className="px-6 py-4 bg-gradient-to-r from-blue-50 via-indigo-50 to-purple-50 dark:from-zinc-800 dark:via-zinc-800 dark:to-zinc-800 border-b border-zinc-200/60 dark:border-zinc-700/60">
           <div className="flex items-center justify-between">
             <button
               onClick={() => toggleTable(tableId)}
+              data-collapse-toggle
+              aria-expanded={!isCollapsed}
+              aria-controls={`${tableId}-content`}
+              title="Collapse or expand (C)"
               className="flex items-center gap-4 flex-1 hover:opacity-80 transition-opacity cursor-pointer"
             >
               <div className="w-8 h-8 rounded-lg bg-gradient-to-br from-blue-500 to-indigo-600 flex items-center justify-center text-white font-bold text-sm shadow-sm">
@@ -398,26 +1627,19 @@ export default function Home() {
               </div>
             </button>
             <div className="flex items-center gap-3">
-              <button
-                onClick={(e) => {
-                  e.stopPropagation();
-                  exportToCSV(value, key);
-                }}
-                className="px-3 py-1.5 text-xs font-medium text-zinc-600 dark:text-zinc-400 hover:text-blue-600 dark:hover:text-blue-400 bg-white dark:bg-zinc-700 hover:bg-blue-50 dark:hover:bg-blue-900/30 rounded-md border border-zinc-200 dark:border-zinc-600 hover:border-blue-300 dark:hover:border-blue-700 transition-colors flex items-center gap-1.5"
-                title="Export to CSV"
-              >
-                <svg className="w-3.5 h-3.5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 10v6m0 0l-3-3m3 3l3-3m2 8H7a2 2 0 01-2-2V5a2 2 0 012-2h5.586a1 1 0 01.707.293l5.414 5.414a1 1 0 01.293.707V19a2 2 0 01-2 2z" />
-                </svg>
-                CSV
-              </button>
+              {renderAddRowButton(pointer, value)}
+              {renderGroupByMenu(tableId, headers, rows)}
+              {renderColumnChooser(columnsKey, headers)}
+              <ExportMenu onExport={(format) => exportTable(tableId, key, headers, rows, format, columns, visibleRows)} />
               <span className="px-3 py-1 text-xs font-semibold text-blue-700 dark:text-blue-300 bg-blue-100 dark:bg-blue-900/30 rounded-full border border-blue-200 dark:border-blue-800">
-                {value.length} {value.length === 1 ? 'item' : 'items'}
+                {renderItemCount(visibleRows.length, value.length)}
               </span>
               <button
                 onClick={() => toggleTable(tableId)}
                 className="p-1 hover:bg-white/50 dark:hover:bg-zinc-700/50 rounded transition-colors"
-                aria-label="Toggle table"
+                aria-label={isCollapsed ? `Expand ${key}` : `Collapse ${key}`}
+                aria-expanded={!isCollapsed}
+                aria-controls={`${tableId}-content`}
               >
                 <svg
                   className={`w-5 h-5 text-zinc-600 dark:text-zinc-400 transition-transform duration-200 ${isCollapsed ? '' : 'rotate-180'}`}
@@ -434,44 +1656,52 @@ export default function Home() {
         
         {/* Collapsible Content */}
         {!isCollapsed && (
-          <div className="overflow-x-auto animate-in fade-in slide-in-from-top-2 duration-200">
-            <table className="w-full">
-              <thead className="bg-gradient-to-b from-zinc-50 to-zinc-100/50 dark:from-zinc-800/50 dark:to-zinc-800/30 border-b border-zinc-200 dark:border-zinc-700">
-                <tr>
-                  {headers.map((header) => (
-                    <th
-                      key={header}
-                      className="px-6 py-4 text-left text-xs font-bold text-zinc-700 dark:text-zinc-200 uppercase tracking-wider"
-                    >
-                      {header}
-                    </th>
-                  ))}
-                  <th className="px-4 py-4 w-20 text-xs font-bold text-zinc-700 dark:text-zinc-200 uppercase tracking-wider">
-                    Copy
-                  </th>
-                </tr>
-              </thead>
-              <tbody className="divide-y divide-zinc-100/80 dark:divide-zinc-800/50">
-                {rows.map((row, rowIndex) => {
-                  const originalRecord = value[rowIndex];
-                  const copyId = `${tableId}-${rowIndex}`;
-                  const isCopied = copiedIndex === copyId;
-                  
-                  return (
-                    <tr
-                      key={rowIndex}
-                      className="group hover:bg-gradient-to-r hover:from-blue-50/50 hover:to-indigo-50/30 dark:hover:from-zinc-800/40 dark:hover:to-zinc-800/20 transition-all duration-200 relative"
-                    >
-                      {row.map((cell, cellIndex) => (
-                        <td
-                          key={cellIndex}
-                          className="px-6 py-4 text-sm text-zinc-900 dark:text-zinc-100 align-top group-hover:text-zinc-950 dark:group-hover:text-zinc-50 transition-colors"
-                        >
-                          {renderCellWithNestedArrays(cell, headers[cellIndex], rowIndex)}
-                        </td>
-                      ))}
-                      {/* Copy button for all tables */}
-                      <td className="px-4 py-4 w-20">
+          <div id={`${tableId}-content`} className="animate-in fade-in slide-in-from-top-2 duration-200">
+            <VirtualTable
+              head={renderTableHead(tableId, columnsKey, columns, true, 'bg-gradient-to-b from-zinc-50 to-zinc-100/50 dark:from-zinc-800/50 dark:to-zinc-800/30 border-b border-zinc-200 dark:border-zinc-700')}
+              rowCount={displayRows.length}
+              colSpan={columns.length + 1}
+              footer={renderNoMatchesRow(visibleRows.length, rows.length, columns.length + 1)}
+              scrollTarget={
+                pointer !== undefined
+                  ? getScrollTarget(value, pointer, rows, displayRowOrder(displayRows))
+                  : getReportRowScrollTarget(tableId, displayRowOrder(displayRows))
+              }
+              renderRow={(visibleIndex) => {
+                const item = displayRows[visibleIndex];
+                if (item.type === 'group') return renderGroupRow(tableId, headers, rows, item.group, columns.length + 1);
+                const rowIndex = item.rowIndex;
+                const row = rows[rowIndex];
+                const originalRecord = value[rowIndex];
+                const isReportRow = pointer === undefined && activeReportRow?.tableId === tableId && activeReportRow.rowIndex === rowIndex;
+                const copyId = `${tableId}-${rowIndex}`;
+                const isCopied = copiedIndex === copyId;
+                const { rowPointer, cellPointers } = rowPointers(headers, row, rowIndex);
+                const decision = triageable ? findDecision(triageDecisions, originalRecord?.VulnerabilityID, originalRecord?.PkgName) : undefined;
+                const expired = decision ? isExpired(decision) : false;
+
+                return (
+                  <tr
+                    key={rowIndex}
+                    data-pointer={rowPointer}
+                    data-report-row={pointer === undefined ? `${tableId}/${rowIndex}` : undefined}
+                    className={`group hover:bg-gradient-to-r hover:from-blue-50/50 hover:to-indigo-50/30 dark:hover:from-zinc-800/40 dark:hover:to-zinc-800/20 transition-all duration-200 relative ${decision && !expired && triageDisplay === 'dim' ? 'opacity-50' : ''} ${isReportRow ? 'ring-2 ring-inset ring-blue-400 dark:ring-blue-500' : pointerClass(rowPointer, true)}`}
+                  >
+                    {columns.map((column) => (
+                      <td
+                        key={column.header}
+                        data-pointer={cellPointers[column.index]}
+                        onClick={(e) => selectCell(e, cellPointers[column.index])}
+                        style={columnStyle(column)}
+                        className={`px-6 py-4 text-sm text-zinc-900 dark:text-zinc-100 align-top group-hover:text-zinc-950 dark:group-hover:text-zinc-50 transition-colors ${columnClass(column)} ${pointerClass(cellPointers[column.index])}`}
+                      >
+                        {renderFindingCell(key, column.header, row[column.index]) ??
+                          renderCellWithNestedArrays(row[column.index], column.header, rowIndex, cellPointers[column.index])}
+                      </td>
+                    ))}
+                    {/* Copy button for all tables */}
+                    <td className="px-4 py-4 w-24">
+                      <div className="flex items-center gap-1">
                         <button
                           onClick={(e) => {
                             e.stopPropagation();
@@ -479,6 +1709,7 @@ export default function Home() {
                           }}
                           className="flex items-center justify-center w-8 h-8 rounded-md bg-zinc-100 dark:bg-zinc-800 hover:bg-blue-100 dark:hover:bg-blue-900/30 text-zinc-600 dark:text-zinc-400 hover:text-blue-600 dark:hover:text-blue-400 transition-colors group/copy"
                           title="Copy record"
+                          aria-label={isCopied ? 'Copied' : 'Copy record'}
                         >
                           {isCopied ? (
                             <svg className="w-4 h-4 text-green-600 dark:text-green-400" fill="none" viewBox="0 0 24 24" stroke="currentColor">
@@ -490,32 +1721,36 @@ export default function Home() {
                             </svg>
                           )}
                         </button>
-                      </td>
-                    </tr>
-                  );
-                })}
-              </tbody>
-            </table>
+                        {renderRowDeleteButton(rowPointer)}
+                        {triageable && (
+                          <TriageEditor
+                            label={`${originalRecord?.VulnerabilityID} in ${originalRecord?.PkgName}`}
+                            decision={decision}
+                            expired={expired}
+                            onSave={(fields) => decideFinding(originalRecord, fields)}
+                            onClear={() => decision && clearDecision(decision)}
+                          />
+                        )}
+                      </div>
+                    </td>
+                  </tr>
+                );
+              }}
+            />
           </div>
         )}
       </div>
     );
   };
 
-  // Render nested arrays within table cells (for Results with Packages/Vulnerabilities)
+  // Render nested arrays within table cells
   // ALWAYS expands all nested structures - never hides data
-  const renderCellWithNestedArrays = (value: any, parentKey?: string, parentRowIndex?: number): React.ReactNode => {
+  const renderCellWithNestedArrays = (value: any, parentKey?: string, parentRowIndex?: number, pointer?: string): React.ReactNode => {
     // Handle arrays of objects - render as nested table or collapsible if Packages/Vulnerabilities
     if (Array.isArray(value)) {
       if (value.length > 0 && value.every(item => typeof item === 'object' && item !== null)) {
-        // Check if this is Packages or Vulnerabilities - render as collapsible
-        if (parentKey === 'Packages' || parentKey === 'Vulnerabilities') {
-          const tableId = `table-${parentRowIndex}-${parentKey}`;
-          const index = parentKey === 'Packages' ? 2 : 1; // Vulnerabilities = 1, Packages = 2
-          return renderCollapsibleTable(parentKey, value, index, tableId);
-        }
         // Always render arrays of objects as tables - never hide
-        return renderNestedTable(parentKey || 'Array', value, 1);
+        return renderNestedTable(parentKey || 'Array', value, 1, pointer);
       }
       // Array of primitives - show ALL values as badges (never hide)
       if (value.length > 0) {
@@ -524,9 +1759,10 @@ export default function Home() {
             {value.map((item, idx) => (
               <span 
                 key={idx} 
-                className="inline-flex items-center px-2 py-1 text-xs font-medium bg-blue-50 dark:bg-blue-900/30 text-blue-700 dark:text-blue-300 rounded-md border border-blue-200 dark:border-blue-800"
+                data-pointer={childPointer(pointer, idx)}
+                className={`inline-flex items-center px-2 py-1 text-xs font-medium bg-blue-50 dark:bg-blue-900/30 text-blue-700 dark:text-blue-300 rounded-md border border-blue-200 dark:border-blue-800 ${pointerClass(childPointer(pointer, idx))}`}
               >
-                {renderCellValue(item, parentKey, parentRowIndex)}
+                {renderCellValue(item, parentKey, parentRowIndex, childPointer(pointer, idx))}
               </span>
             ))}
           </div>
@@ -546,87 +1782,30 @@ export default function Home() {
       
       if (hasNestedArrays) {
         // Object with nested arrays - show all properties, arrays as tables
-        // Check if this object contains Packages or Vulnerabilities
-        const packagesIndex = entries.findIndex(([k]) => k === 'Packages');
-        const vulnerabilitiesIndex = entries.findIndex(([k]) => k === 'Vulnerabilities');
-        
-        if (packagesIndex !== -1 || vulnerabilitiesIndex !== -1) {
-          // Render Packages and Vulnerabilities as collapsible tables with "Table" header
-          const tableEntries = entries.filter(([k, v]) => 
-            (k === 'Packages' || k === 'Vulnerabilities') && 
-            Array.isArray(v) && v.length > 0 && v.every(item => typeof item === 'object' && item !== null)
-          );
-          const otherEntries = entries.filter(([k]) => k !== 'Packages' && k !== 'Vulnerabilities');
-          
-          return (
-            <div className="space-y-4 py-2">
-              {/* Other properties first */}
-              {otherEntries.map(([k, v]) => {
-                if (Array.isArray(v) && v.length > 0 && v.every(item => typeof item === 'object' && item !== null)) {
-                  return <div key={k}>{renderNestedTable(k, v, 1)}</div>;
-                }
-                if (typeof v === 'object' && v !== null && !Array.isArray(v)) {
-                  return (
-                    <div key={k} className="space-y-1">
-                      <div className="text-xs font-semibold text-zinc-700 dark:text-zinc-300 mb-1">{k}:</div>
-                      <div className="ml-2">{renderCellWithNestedArrays(v, k, parentRowIndex)}</div>
-                    </div>
-                  );
-                }
-                return (
-                  <div key={k} className="flex gap-2 text-xs py-0.5">
-                    <span className="text-zinc-600 dark:text-zinc-400 font-medium">{k}:</span>
-                    <span className="text-zinc-900 dark:text-zinc-100">{renderCellValue(v, k, parentRowIndex)}</span>
-                  </div>
-                );
-              })}
-              
-              {/* Table section with collapsible tables */}
-              {tableEntries.length > 0 && (
-                <div className="mt-6 space-y-4">
-                  <div className="px-2 py-2 border-b-2 border-zinc-300 dark:border-zinc-700">
-                    <h4 className="text-sm font-bold text-zinc-900 dark:text-zinc-100 uppercase tracking-wider">Table</h4>
-                  </div>
-                  {tableEntries
-                    .sort(([a], [b]) => {
-                      // Vulnerabilities first (1), then Packages (2)
-                      const order = { 'Vulnerabilities': 1, 'Packages': 2 };
-                      return (order[a as keyof typeof order] || 99) - (order[b as keyof typeof order] || 99);
-                    })
-                    .map(([k, v], idx) => {
-                      const tableId = `table-${parentRowIndex || 0}-${k}`;
-                      const index = k === 'Vulnerabilities' ? 1 : 2;
-                      return <div key={k}>{renderCollapsibleTable(k, v as any[], index, tableId)}</div>;
-                    })}
-                </div>
-              )}
-            </div>
-          );
-        }
-        
         // Regular nested arrays - expand everything
         return (
           <div className="space-y-3 py-2">
             {entries.map(([k, v]) => {
+              const entryPointer = childPointer(pointer, k);
               if (Array.isArray(v)) {
                 if (v.length > 0 && v.every(item => typeof item === 'object' && item !== null)) {
                   // Array of objects - render as table
-                  return <div key={k}>{renderNestedTable(k, v, 1)}</div>;
+                  return <div key={k}>{renderNestedTable(k, v, 1, entryPointer)}</div>;
                 } else if (v.length > 0) {
                   // Array of primitives - show as list
                   return (
-                    <div key={k} className="space-y-1">
+                    <div key={k} data-pointer={entryPointer} className={`space-y-1 ${pointerClass(entryPointer)}`}>
                       <div className="text-xs font-semibold text-zinc-700 dark:text-zinc-300 mb-1">{k}:</div>
                       <div className="ml-2 space-y-0.5">
                         {v.map((item, idx) => (
-                          <div key={idx} className="text-xs text-zinc-900 dark:text-zinc-100">• {renderCellValue(item, k, parentRowIndex)}</div>
+                          <div key={idx} data-pointer={childPointer(entryPointer, idx)} className={`text-xs text-zinc-900 dark:text-zinc-100 ${pointerClass(childPointer(entryPointer, idx))}`}>• {renderCellValue(item, k, parentRowIndex, childPointer(entryPointer, idx))}</div>
                         ))}
                       </div>
                     </div>
                   );
                 }
                 return (
-                  <div key={k} className="flex gap-2 text-xs py-0.5">
+                  <div key={k} data-pointer={entryPointer} className={`flex gap-2 text-xs py-0.5 ${pointerClass(entryPointer)}`}>
                     <span className="text-zinc-600 dark:text-zinc-400 font-medium">{k}:</span>
                     <span className="text-zinc-900 dark:text-zinc-100">[]</span>
                   </div>
@@ -635,92 +1814,624 @@ export default function Home() {
               // Recursively handle nested objects - always expand them
               if (typeof v === 'object' && v !== null) {
                 return (
-                  <div key={k} className="space-y-1 border-l-2 border-zinc-200 dark:border-zinc-700 pl-3">
+                  <div key={k} data-pointer={entryPointer} className={`space-y-1 border-l-2 border-zinc-200 dark:border-zinc-700 pl-3 ${pointerClass(entryPointer)}`}>
+                    <div className="text-xs font-semibold text-zinc-700 dark:text-zinc-300 mb-1">{k}:</div>
+                    <div className="ml-2">{renderCellWithNestedArrays(v, k, parentRowIndex, entryPointer)}</div>
+                  </div>
+                );
+              }
+              return (
+                <div key={k} data-pointer={entryPointer} className={`flex gap-2 text-xs py-0.5 ${pointerClass(entryPointer)}`}>
+                  <span className="text-zinc-600 dark:text-zinc-400 font-medium">{k}:</span>
+                  <span className="text-zinc-900 dark:text-zinc-100">{renderCellValue(v, undefined, undefined, entryPointer)}</span>
+                </div>
+              );
+            })}
+          </div>
+        );
+      } else {
+        // Simple object - show as key-value pairs, but still check for nested structures
+        return (
+          <div className="space-y-1 py-1">
+            {entries.map(([k, v]) => {
+              const entryPointer = childPointer(pointer, k);
+              // Check if value is nested structure
+              if (typeof v === 'object' && v !== null && !Array.isArray(v) && Object.keys(v).length > 0) {
+                return (
+                  <div key={k} data-pointer={entryPointer} className={`space-y-1 border-l-2 border-zinc-200 dark:border-zinc-700 pl-3 ${pointerClass(entryPointer)}`}>
                     <div className="text-xs font-semibold text-zinc-700 dark:text-zinc-300 mb-1">{k}:</div>
-                    <div className="ml-2">{renderCellWithNestedArrays(v, k, parentRowIndex)}</div>
+                    <div className="ml-2">{renderCellWithNestedArrays(v, k, parentRowIndex, entryPointer)}</div>
+                  </div>
+                );
+              }
+              if (Array.isArray(v)) {
+                if (v.length > 0 && v.every(item => typeof item === 'object' && item !== null)) {
+                  return <div key={k}>{renderNestedTable(k, v, 1, entryPointer)}</div>;
+                } else if (v.length > 0) {
+                  return (
+                    <div key={k} data-pointer={entryPointer} className={`space-y-1 ${pointerClass(entryPointer)}`}>
+                      <div className="text-xs font-semibold text-zinc-700 dark:text-zinc-300 mb-1">{k}:</div>
+                      <div className="ml-2 space-y-0.5">
+                        {v.map((item, idx) => (
+                          <div key={idx} data-pointer={childPointer(entryPointer, idx)} className={`text-xs text-zinc-900 dark:text-zinc-100 ${pointerClass(childPointer(entryPointer, idx))}`}>• {renderCellValue(item, k, parentRowIndex, childPointer(entryPointer, idx))}</div>
+                        ))}
+                      </div>
+                    </div>
+                  );
+                }
+              }
+              return (
+                <div key={k} data-pointer={entryPointer} className={`flex gap-2 text-xs py-0.5 ${pointerClass(entryPointer)}`}>
+                  <span className="text-zinc-600 dark:text-zinc-400 font-medium">{k}:</span>
+                  <span className="text-zinc-900 dark:text-zinc-100">{renderCellValue(v, undefined, undefined, entryPointer)}</span>
+                </div>
+              );
+            })}
+          </div>
+        );
+      }
+    }
+    
+    return renderCellValue(value, parentKey, parentRowIndex, pointer);
+  };
+
+  // Render cell value with clean formatting - NEVER hide nested data
+  const renderCellValue = (value: any, parentKey?: string, parentRowIndex?: number, pointer?: string): React.ReactNode => {
+    if (canEdit && pointer !== undefined && (value === null || value === undefined || typeof value !== 'object')) {
+      if (editingPointer === pointer) {
+        return (
+          <ValueEditor
+            value={value === undefined ? '' : value}
+            onCommit={(next) => editValue(pointer, next)}
+            onCancel={() => setEditingPointer(null)}
+          />
+        );
+      }
+      return (
+        <span
+          onDoubleClick={(e) => {
+            e.stopPropagation();
+            setEditingPointer(pointer);
+          }}
+          className="cursor-text"
+          title="Double-click to edit"
+        >
+          {renderPrimitive(value, parentKey, pointer)}
+        </span>
+      );
+    }
+    // If it's an object or array, expand it instead of hiding
+    if (typeof value === 'object' && value !== null) {
+      return renderCellWithNestedArrays(value, parentKey, parentRowIndex, pointer);
+    }
+    return renderPrimitive(value, parentKey, pointer);
+  };
+
+  // Strings go through the display rules for their column path, or are
+  // detected as links, dates, advisory IDs, embedded JSON or encoded data
+  const renderPrimitive = (value: unknown, parentKey?: string, pointer?: string): React.ReactNode => {
+    if (value === null) return <span className="text-zinc-400 dark:text-zinc-500">null</span>;
+    if (value === undefined) return <span className="text-zinc-400 dark:text-zinc-500">undefined</span>;
+    if (typeof value === 'boolean') {
+      return (
+        <span className={`${value ? 'text-green-600 dark:text-green-500' : 'text-red-600 dark:text-red-500'}`}>
+          {value ? '✓' : '✗'}
+        </span>
+      );
+    }
+    if (typeof value === 'number') {
+      return <span className="text-zinc-900 dark:text-zinc-100 font-mono">{renderHighlighted(String(value))}</span>;
+    }
+    if (typeof value === 'string') {
+      if (parentKey === 'Severity' && value) return renderSeverityBadge(normalizeSeverity(value), renderHighlighted(value));
+      return (
+        <RichValue
+          value={value}
+          kind={displayKindFor(displaySettings.rules, pointer, parentKey)}
+          settings={displaySettings}
+          highlight={renderHighlighted}
+          renderNested={(nested) => renderCellWithNestedArrays(nested, parentKey)}
+        />
+      );
+    }
+    return <span className="text-zinc-900 dark:text-zinc-100">{String(value)}</span>;
+  };
+
+  // Severity-coloured badge, optionally with a count or custom label
+  const renderSeverityBadge = (severity: Severity, label: React.ReactNode = severity): React.ReactNode => (
+    <span className={`inline-flex items-center px-2 py-0.5 text-xs font-semibold rounded-md border ${SEVERITY_STYLES[severity]}`}>
+      {label}
+    </span>
+  );
+
+  // Severity dashboard: totals for the artifact, then a breakdown per Result target
+  const renderSeverityPanel = (report: TrivyReport): React.ReactNode => {
+    const { total, targets } = summarizeSeverities(report);
+    const grandTotal = SEVERITIES.reduce((sum, severity) => sum + total[severity], 0);
+
+    return (
+      <div className="bg-white dark:bg-zinc-900 rounded-xl border border-zinc-200/60 dark:border-zinc-800/60 shadow-lg shadow-zinc-200/20 dark:shadow-zinc-900/50 overflow-hidden">
+        <div className="px-6 py-4 bg-gradient-to-r from-blue-50 via-indigo-50 to-purple-50 dark:from-zinc-800 dark:via-zinc-800 dark:to-zinc-800 border-b border-zinc-200/60 dark:border-zinc-700/60">
+          <div className="flex items-center justify-between">
+            <div className="flex items-center gap-3">
+              <div className="w-1 h-6 bg-gradient-to-b from-blue-500 to-indigo-600 rounded-full"></div>
+              <h3 className="text-base font-bold text-zinc-900 dark:text-zinc-50 tracking-tight">Severity</h3>
+            </div>
+            <span className="px-3 py-1 text-xs font-semibold text-blue-700 dark:text-blue-300 bg-blue-100 dark:bg-blue-900/30 rounded-full border border-blue-200 dark:border-blue-800">
+              {grandTotal} {grandTotal === 1 ? 'vulnerability' : 'vulnerabilities'}
+            </span>
+          </div>
+        </div>
+        <div className="px-6 py-4 space-y-6">
+          <div className="grid grid-cols-2 md:grid-cols-5 gap-4">
+            {SEVERITIES.map(severity => (
+              <div key={severity} className={`px-4 py-3 rounded-lg border ${SEVERITY_STYLES[severity]}`}>
+                <p className="text-xs font-semibold tracking-wider">{severity}</p>
+                <p className="text-2xl font-bold font-mono">{total[severity]}</p>
+              </div>
+            ))}
+          </div>
+          <div className="overflow-x-auto">
+            <table className="w-full">
+              <thead className="bg-gradient-to-b from-zinc-50 to-zinc-100/50 dark:from-zinc-800/50 dark:to-zinc-800/30 border-b border-zinc-200 dark:border-zinc-700">
+                <tr>
+                  <th className="px-6 py-3 text-left text-xs font-bold text-zinc-700 dark:text-zinc-200 uppercase tracking-wider">Target</th>
+                  {SEVERITIES.map(severity => (
+                    <th key={severity} className="px-4 py-3 text-left text-xs font-bold text-zinc-700 dark:text-zinc-200 uppercase tracking-wider">
+                      {severity}
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-zinc-100/80 dark:divide-zinc-800/50">
+                {targets.map(({ target, counts }, targetIndex) => (
+                  <tr key={targetIndex} className="hover:bg-zinc-50 dark:hover:bg-zinc-800/40 transition-colors">
+                    <td className="px-6 py-3 text-sm text-zinc-900 dark:text-zinc-100 break-all">{target}</td>
+                    {SEVERITIES.map(severity => (
+                      <td key={severity} className="px-4 py-3 text-sm">
+                        {counts[severity] > 0
+                          ? renderSeverityBadge(severity, counts[severity])
+                          : <span className="text-zinc-400 dark:text-zinc-500 font-mono">0</span>}
+                      </td>
+                    ))}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      </div>
+    );
+  };
+
+  // Diff table for one pair of arrays: rows matched by the section's key spec,
+  // with changed cells showing the old value struck through above the new one
+  const renderDiffTable = (section: DiffSection): React.ReactNode => {
+    const keySpec = diffKeys[section.tableKey] ?? defaultKeySpec(section.tableKey, [...section.after, ...section.before]);
+    const rowDiffs = diffArrays(section.before, section.after, parseKeySpec(keySpec));
+    const counts = countDiff(rowDiffs);
+    const shownRows = showUnchanged ? rowDiffs : rowDiffs.filter(row => row.status !== 'unchanged');
+    const { headers } = getTableStructure(shownRows.map(row => row.after ?? row.before));
+    const isCollapsed = collapsedTables.has(section.id);
+
+    return (
+      <div className="mb-4 bg-white dark:bg-zinc-900 rounded-xl border border-zinc-200/60 dark:border-zinc-800/60 shadow-md shadow-zinc-200/10 dark:shadow-zinc-900/30 overflow-hidden">
+        <div className="px-6 py-4 bg-gradient-to-r from-blue-50 via-indigo-50 to-purple-50 dark:from-zinc-800 dark:via-zinc-800 dark:to-zinc-800 border-b border-zinc-200/60 dark:border-zinc-700/60">
+          <div className="flex flex-wrap items-center justify-between gap-3">
+            <button
+              onClick={() => toggleTable(section.id)}
+              aria-expanded={!isCollapsed}
+              className="flex items-center gap-3 hover:opacity-80 transition-opacity cursor-pointer"
+            >
+              <div className="w-1 h-6 bg-gradient-to-b from-blue-500 to-indigo-600 rounded-full"></div>
+              <h3 className="text-base font-bold text-zinc-900 dark:text-zinc-50 tracking-tight">{section.title}</h3>
+            </button>
+            <div className="flex flex-wrap items-center gap-2">
+              <label className="flex items-center gap-2 text-xs text-zinc-600 dark:text-zinc-400">
+                Match by
+                <input
+                  type="text"
+                  value={keySpec}
+                  onChange={(e) => setDiffKeys(prev => ({ ...prev, [section.tableKey]: e.target.value }))}
+                  placeholder="position"
+                  title="Fields joined with + (e.g. VulnerabilityID+PkgName); empty matches by position"
+                  className="w-48 px-2 py-1 text-xs font-mono text-zinc-900 dark:text-zinc-100 bg-white dark:bg-zinc-900 border border-zinc-200 dark:border-zinc-700 rounded focus:outline-none focus:border-zinc-400 dark:focus:border-zinc-500 transition-colors"
+                />
+              </label>
+              {(['added', 'removed', 'changed', 'unchanged'] as const).map(status => (
+                <span key={status} className={`px-2 py-0.5 text-xs font-semibold rounded-md border ${DIFF_STYLES[status].badge}`}>
+                  {counts[status]} {DIFF_STYLES[status].label.toLowerCase()}
+                </span>
+              ))}
+            </div>
+          </div>
+        </div>
+        {!isCollapsed && (
+          <VirtualTable
+            head={
+              <thead className="bg-gradient-to-b from-zinc-50 to-zinc-100/50 dark:from-zinc-800/50 dark:to-zinc-800/30 border-b border-zinc-200 dark:border-zinc-700">
+                <tr>
+                  {['Status', ...headers].map(header => (
+                    <th key={header} className="px-6 py-4 text-left text-xs font-bold text-zinc-700 dark:text-zinc-200 uppercase tracking-wider">
+                      {header}
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+            }
+            rowCount={shownRows.length}
+            colSpan={headers.length + 1}
+            footer={shownRows.length === 0 && (
+              <tr>
+                <td colSpan={headers.length + 1} className="px-6 py-8 text-center text-sm text-zinc-400 dark:text-zinc-500">
+                  No differences
+                </td>
+              </tr>
+            )}
+            renderRow={(visibleIndex) => {
+              const rowDiff = shownRows[visibleIndex];
+              const record = rowDiff.after ?? rowDiff.before;
+              return (
+                <tr key={`${rowDiff.status}-${rowDiff.key}`} className={DIFF_STYLES[rowDiff.status].row}>
+                  <td className="px-6 py-4 align-top">
+                    <span className={`px-2 py-0.5 text-xs font-semibold rounded-md border ${DIFF_STYLES[rowDiff.status].badge}`}>
+                      {DIFF_STYLES[rowDiff.status].label}
+                    </span>
+                  </td>
+                  {headers.map(header => (
+                    <td
+                      key={header}
+                      className={`px-6 py-4 text-sm text-zinc-900 dark:text-zinc-100 align-top ${
+                        rowDiff.changedFields.includes(header) ? 'bg-amber-100/70 dark:bg-amber-900/20' : ''
+                      } ${rowDiff.status === 'removed' ? 'line-through decoration-red-400/60' : ''}`}
+                    >
+                      {rowDiff.changedFields.includes(header) ? (
+                        <div className="space-y-1">
+                          <div className="line-through decoration-red-400/60 text-red-700 dark:text-red-400">
+                            {renderCellValue(rowDiff.before?.[header], header)}
+                          </div>
+                          <div className="text-green-700 dark:text-green-400">{renderCellValue(rowDiff.after?.[header], header)}</div>
+                        </div>
+                      ) : (
+                        renderCellValue(record?.[header], header)
+                      )}
+                    </td>
+                  ))}
+                </tr>
+              );
+            }}
+          />
+        )}
+      </div>
+    );
+  };
+
+  const renderDiffView = (sections: DiffSection[]): React.ReactNode => (
+    <div className="space-y-4 p-6">
+      <label className="flex items-center gap-2 text-xs text-zinc-600 dark:text-zinc-400">
+        <input
+          type="checkbox"
+          checked={showUnchanged}
+          onChange={(e) => setShowUnchanged(e.target.checked)}
+          className="rounded border-zinc-300 dark:border-zinc-700"
+        />
+        Show unchanged rows
+      </label>
+      {sections.length === 0 ? (
+        <p className="text-sm text-zinc-400 dark:text-zinc-500">Nothing to compare</p>
+      ) : (
+        sections.map(section => <div key={section.id}>{renderDiffTable(section)}</div>)
+      )}
+    </div>
+  );
+
+  // Render a Trivy report: artifact summary first, then one section per Result
+  // target. Reports imported from other scanners aren't the document itself,
+  // so they are rendered without pointers.
+  const renderTrivyReport = (report: TrivyReport, reportPointer: string | undefined = rootPointer): React.ReactNode => {
+    const metadata = report.Metadata;
+    const os = [metadata?.OS?.Family, metadata?.OS?.Name].filter(Boolean).join(' ');
+    const summaryFields: [string, React.ReactNode][] = [
+      ['Artifact', report.ArtifactName ?? '-'],
+      ['Type', report.ArtifactType ?? '-'],
+      ['OS', os || '-'],
+      ['Created', report.CreatedAt ? new Date(report.CreatedAt).toLocaleString() : '-'],
+      ['Image ID', metadata?.ImageID ? <span className="font-mono break-all">{metadata.ImageID}</span> : '-'],
+      ['Schema', report.SchemaVersion ?? '-'],
+      ['Targets', report.Results.length],
+    ];
+    const knownReportKeys = ['SchemaVersion', 'CreatedAt', 'ArtifactName', 'ArtifactType', 'Metadata', 'Results'];
+    const otherReportEntries = Object.entries(report).filter(([k]) => !knownReportKeys.includes(k));
+    const isMetadataCollapsed = collapsedTables.has('report-metadata');
+    const metadataPointer = childPointer(reportPointer, 'Metadata');
+    const resultsPointer = childPointer(reportPointer, 'Results');
+    if (metadataPointer !== undefined) tablePointersRef.current.set('report-metadata', metadataPointer);
+
+    return (
+      <div className="space-y-6 p-6">
+        {/* Artifact Summary */}
+        <div className="bg-white dark:bg-zinc-900 rounded-xl border border-zinc-200/60 dark:border-zinc-800/60 shadow-lg shadow-zinc-200/20 dark:shadow-zinc-900/50 overflow-hidden">
+          <div className="px-6 py-4 bg-gradient-to-r from-blue-50 via-indigo-50 to-purple-50 dark:from-zinc-800 dark:via-zinc-800 dark:to-zinc-800 border-b border-zinc-200/60 dark:border-zinc-700/60">
+            <div className="flex items-center gap-3">
+              <div className="w-1 h-6 bg-gradient-to-b from-blue-500 to-indigo-600 rounded-full"></div>
+              <h3 className="text-base font-bold text-zinc-900 dark:text-zinc-50 tracking-tight">Scan Report</h3>
+            </div>
+          </div>
+          <div className="px-6 py-4 space-y-4">
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-6">
+              {summaryFields.map(([label, fieldValue]) => (
+                <div key={label}>
+                  <p className="text-xs text-zinc-500 dark:text-zinc-400 mb-1">{label}</p>
+                  <p className="text-sm font-medium text-zinc-900 dark:text-zinc-100">{fieldValue}</p>
+                </div>
+              ))}
+            </div>
+            {([['Tags', 'RepoTags'], ['Digests', 'RepoDigests']] as const).map(([label, field]) => {
+              const items = metadata?.[field];
+              return items && items.length > 0 ? (
+                <div key={label} data-pointer={childPointer(metadataPointer, field)}>
+                  <p className="text-xs text-zinc-500 dark:text-zinc-400 mb-1">{label}</p>
+                  {renderCellWithNestedArrays(items, label, undefined, childPointer(metadataPointer, field))}
+                </div>
+              ) : null;
+            })}
+            {metadata && (
+              <div data-pointer={metadataPointer} className="pt-3 border-t border-zinc-100 dark:border-zinc-800/50">
+                <button
+                  onClick={() => toggleTable('report-metadata')}
+                  aria-expanded={!isMetadataCollapsed}
+                  className="flex items-center gap-2 text-xs font-semibold text-zinc-700 dark:text-zinc-300 hover:opacity-80 transition-opacity"
+                >
+                  <svg
+                    className={`w-4 h-4 transition-transform duration-200 ${isMetadataCollapsed ? '' : 'rotate-180'}`}
+                    fill="none"
+                    viewBox="0 0 24 24"
+                    stroke="currentColor"
+                  >
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 9l-7 7-7-7" />
+                  </svg>
+                  Metadata
+                </button>
+                {!isMetadataCollapsed && <div className="mt-2">{renderCellWithNestedArrays(metadata, 'Metadata', undefined, metadataPointer)}</div>}
+              </div>
+            )}
+            {otherReportEntries.map(([k, v]) => (
+              <div
+                key={k}
+                data-pointer={childPointer(reportPointer, k)}
+                className={`flex items-start gap-4 py-2 border-t border-zinc-100 dark:border-zinc-800/50 ${pointerClass(childPointer(reportPointer, k))}`}
+              >
+                <div className="w-40 flex-shrink-0">
+                  <span className="text-xs font-medium text-zinc-600 dark:text-zinc-400">{k}</span>
+                </div>
+                <div className="flex-1">{renderCellWithNestedArrays(v, k, undefined, childPointer(reportPointer, k))}</div>
+              </div>
+            ))}
+          </div>
+        </div>
+
+        {report === policyReport && (
+          <PolicyPanel
+            policyText={policyText}
+            onPolicyTextChange={setPolicyText}
+            verdict={policyVerdict}
+            error={policyError}
+            // Rows of imported reports have no place in the document, so they
+            // are found by table and position instead
+            onSelect={report === trivyReport ? (rootPointer !== undefined ? selectPointer : undefined) : selectReportRow}
+            renderSeverity={renderSeverityBadge}
+          />
+        )}
+
+        {hasVulnerabilities(report) && renderSeverityPanel(report)}
+
+        {/* Results grouped by target */}
+        {report.Results.map((result, resultIndex) => {
+          const tableEntries = RESULT_TABLE_KEYS
+            .map(k => [k, result[k]] as const)
+            .filter(([, v]) => Array.isArray(v) && v.length > 0);
+          const otherEntries = Object.entries(result).filter(
+            ([k]) => !['Target', 'Class', 'Type', ...RESULT_TABLE_KEYS].includes(k)
+          );
+          const resultCounts = countSeverities(result.Vulnerabilities);
+          const resultPointer = childPointer(resultsPointer, resultIndex);
+
+          return (
+            <div
+              key={resultIndex}
+              data-pointer={resultPointer}
+              className="bg-white dark:bg-zinc-900 rounded-xl border border-zinc-200/60 dark:border-zinc-800/60 shadow-lg shadow-zinc-200/20 dark:shadow-zinc-900/50 overflow-hidden"
+            >
+              <div className="px-6 py-4 bg-gradient-to-r from-blue-50 via-indigo-50 to-purple-50 dark:from-zinc-800 dark:via-zinc-800 dark:to-zinc-800 border-b border-zinc-200/60 dark:border-zinc-700/60">
+                <div className="flex items-center justify-between gap-4">
+                  <div className="flex items-center gap-3 min-w-0">
+                    <div className="w-1 h-6 bg-gradient-to-b from-blue-500 to-indigo-600 rounded-full shrink-0"></div>
+                    <h3
+                      data-pointer={childPointer(resultPointer, 'Target')}
+                      className={`text-base font-bold text-zinc-900 dark:text-zinc-50 tracking-tight break-all ${pointerClass(childPointer(resultPointer, 'Target'))}`}
+                    >
+                      {result.Target}
+                    </h3>
+                  </div>
+                  <div className="flex items-center gap-2 shrink-0">
+                    {SEVERITIES.filter(severity => resultCounts[severity] > 0).map(severity => (
+                      <Fragment key={severity}>{renderSeverityBadge(severity, `${resultCounts[severity]} ${severity}`)}</Fragment>
+                    ))}
+                    {[result.Class, result.Type].filter(Boolean).map(label => (
+                      <span
+                        key={label}
+                        className="px-3 py-1 text-xs font-semibold text-blue-700 dark:text-blue-300 bg-blue-100 dark:bg-blue-900/30 rounded-full border border-blue-200 dark:border-blue-800"
+                      >
+                        {label}
+                      </span>
+                    ))}
                   </div>
-                );
-              }
-              return (
-                <div key={k} className="flex gap-2 text-xs py-0.5">
-                  <span className="text-zinc-600 dark:text-zinc-400 font-medium">{k}:</span>
-                  <span className="text-zinc-900 dark:text-zinc-100">{renderCellValue(v)}</span>
                 </div>
-              );
-            })}
-          </div>
-        );
-      } else {
-        // Simple object - show as key-value pairs, but still check for nested structures
-        return (
-          <div className="space-y-1 py-1">
-            {entries.map(([k, v]) => {
-              // Check if value is nested structure
-              if (typeof v === 'object' && v !== null && !Array.isArray(v) && Object.keys(v).length > 0) {
-                return (
-                  <div key={k} className="space-y-1 border-l-2 border-zinc-200 dark:border-zinc-700 pl-3">
-                    <div className="text-xs font-semibold text-zinc-700 dark:text-zinc-300 mb-1">{k}:</div>
-                    <div className="ml-2">{renderCellWithNestedArrays(v, k, parentRowIndex)}</div>
+              </div>
+              <div className="px-6 py-4 space-y-4">
+                {otherEntries.map(([k, v]) => (
+                  <div
+                    key={k}
+                    data-pointer={childPointer(resultPointer, k)}
+                    className={`flex items-start gap-4 py-2 border-b border-zinc-100 dark:border-zinc-800/50 ${pointerClass(childPointer(resultPointer, k))}`}
+                  >
+                    <div className="w-40 flex-shrink-0">
+                      <span className="text-xs font-medium text-zinc-600 dark:text-zinc-400">{k}</span>
+                    </div>
+                    <div className="flex-1">{renderCellWithNestedArrays(v, k, resultIndex, childPointer(resultPointer, k))}</div>
                   </div>
-                );
-              }
-              if (Array.isArray(v)) {
-                if (v.length > 0 && v.every(item => typeof item === 'object' && item !== null)) {
-                  return <div key={k}>{renderNestedTable(k, v, 1)}</div>;
-                } else if (v.length > 0) {
-                  return (
-                    <div key={k} className="space-y-1">
-                      <div className="text-xs font-semibold text-zinc-700 dark:text-zinc-300 mb-1">{k}:</div>
-                      <div className="ml-2 space-y-0.5">
-                        {v.map((item, idx) => (
-                          <div key={idx} className="text-xs text-zinc-900 dark:text-zinc-100">• {renderCellValue(item, k, parentRowIndex)}</div>
-                        ))}
-                      </div>
+                ))}
+                {tableEntries.length > 0 ? (
+                  <div className="space-y-4">
+                    <div className="px-2 py-2 border-b-2 border-zinc-300 dark:border-zinc-700">
+                      <h4 className="text-sm font-bold text-zinc-900 dark:text-zinc-100 uppercase tracking-wider">Table</h4>
                     </div>
-                  );
-                }
-              }
-              return (
-                <div key={k} className="flex gap-2 text-xs py-0.5">
-                  <span className="text-zinc-600 dark:text-zinc-400 font-medium">{k}:</span>
-                  <span className="text-zinc-900 dark:text-zinc-100">{renderCellValue(v)}</span>
+                    {tableEntries.map(([k, v], idx) => (
+                      <div key={k}>{renderCollapsibleTable(k, v as any[], idx + 1, `result-${resultIndex}-${k}`, childPointer(resultPointer, k))}</div>
+                    ))}
+                  </div>
+                ) : (
+                  <p className="text-sm text-zinc-400 dark:text-zinc-500">No findings or packages detected</p>
+                )}
+              </div>
+            </div>
+          );
+        })}
+
+        {report === trivyReport && sbom?.format === 'trivy' && renderDependencyGraph(sbom)}
+      </div>
+    );
+  };
+
+  const renderDependencyGraph = (graph: Sbom): React.ReactNode => (
+    <div className="bg-white dark:bg-zinc-900 rounded-xl border border-zinc-200/60 dark:border-zinc-800/60 shadow-lg shadow-zinc-200/20 dark:shadow-zinc-900/50 overflow-hidden">
+      <div className="px-6 py-4 bg-gradient-to-r from-blue-50 via-indigo-50 to-purple-50 dark:from-zinc-800 dark:via-zinc-800 dark:to-zinc-800 border-b border-zinc-200/60 dark:border-zinc-700/60">
+        <div className="flex items-center gap-3">
+          <div className="w-1 h-6 bg-gradient-to-b from-blue-500 to-indigo-600 rounded-full"></div>
+          <h3 className="text-base font-bold text-zinc-900 dark:text-zinc-50 tracking-tight">Dependency Graph</h3>
+        </div>
+      </div>
+      <div className="px-6 py-4">
+        <DependencyGraph sbom={graph} renderSeverity={renderSeverityBadge} />
+      </div>
+    </div>
+  );
+
+  // Components of a CycloneDX or SPDX document, with its dependency graph
+  const renderSbom = (bom: Sbom): React.ReactNode => {
+    const summaryFields: [string, React.ReactNode][] = [
+      ['Format', `${SBOM_FORMATS.find(({ value }) => value === bom.format)?.label}${bom.specVersion ? ` ${bom.specVersion}` : ''}`],
+      ['Name', bom.name ?? '-'],
+      ['Created', bom.createdAt ? new Date(bom.createdAt).toLocaleString() : '-'],
+      ['Components', bom.components.length],
+      ['Vulnerable', Object.keys(bom.vulnerable).length],
+    ];
+    const hasDependencies = Object.values(bom.dependencies).some(children => children.length > 0);
+
+    return (
+      <div className="space-y-6 p-6">
+        <div className="bg-white dark:bg-zinc-900 rounded-xl border border-zinc-200/60 dark:border-zinc-800/60 shadow-lg shadow-zinc-200/20 dark:shadow-zinc-900/50 overflow-hidden">
+          <div className="px-6 py-4 bg-gradient-to-r from-blue-50 via-indigo-50 to-purple-50 dark:from-zinc-800 dark:via-zinc-800 dark:to-zinc-800 border-b border-zinc-200/60 dark:border-zinc-700/60">
+            <div className="flex items-center gap-3">
+              <div className="w-1 h-6 bg-gradient-to-b from-blue-500 to-indigo-600 rounded-full"></div>
+              <h3 className="text-base font-bold text-zinc-900 dark:text-zinc-50 tracking-tight">Software Bill of Materials</h3>
+            </div>
+          </div>
+          <div className="px-6 py-4 space-y-4">
+            <div className="grid grid-cols-2 md:grid-cols-5 gap-6">
+              {summaryFields.map(([label, fieldValue]) => (
+                <div key={label}>
+                  <p className="text-xs text-zinc-500 dark:text-zinc-400 mb-1">{label}</p>
+                  <p className="text-sm font-medium text-zinc-900 dark:text-zinc-100 break-all">{fieldValue}</p>
                 </div>
-              );
-            })}
+              ))}
+            </div>
+            {sbomRows.length > 0 ? (
+              renderCollapsibleTable('Components', sbomRows, 1, 'sbom-components')
+            ) : (
+              <p className="text-sm text-zinc-400 dark:text-zinc-500">No components listed</p>
+            )}
           </div>
-        );
-      }
-    }
-    
-    return renderCellValue(value, parentKey, parentRowIndex);
+        </div>
+
+        {hasDependencies && renderDependencyGraph(bom)}
+      </div>
+    );
   };
 
-  // Render cell value with clean formatting - NEVER hide nested data
-  const renderCellValue = (value: any, parentKey?: string, parentRowIndex?: number): React.ReactNode => {
-    if (value === null) return <span className="text-zinc-400 dark:text-zinc-500">null</span>;
-    if (value === undefined) return <span className="text-zinc-400 dark:text-zinc-500">undefined</span>;
-    if (typeof value === 'boolean') {
-      return (
-        <span className={`${value ? 'text-green-600 dark:text-green-500' : 'text-red-600 dark:text-red-500'}`}>
-          {value ? '✓' : '✗'}
-        </span>
-      );
-    }
-    if (typeof value === 'number') {
-      return <span className="text-zinc-900 dark:text-zinc-100 font-mono">{value}</span>;
-    }
-    if (typeof value === 'string') {
-      return <span className="text-zinc-900 dark:text-zinc-100">{value}</span>;
-    }
-    // If it's an object or array, expand it instead of hiding
-    if (typeof value === 'object') {
-      return renderCellWithNestedArrays(value, parentKey, parentRowIndex);
-    }
-    return <span className="text-zinc-900 dark:text-zinc-100">{String(value)}</span>;
+  // Actions offered by the command palette, limited to those that apply now
+  const getCommands = (): Command[] => {
+    const hasTables = parsedData !== undefined && !diffMode && !queryError && typeof viewData === 'object' && viewData !== null;
+    const commands: (Command | false)[] = [
+      { id: 'upload', label: 'Upload file', run: () => fileInputRef.current?.click() },
+      { id: 'load-url', label: urlOpen ? 'Hide Load URL' : 'Load URL', run: () => setUrlOpen(prev => !prev) },
+      { id: 'compare', label: diffMode ? 'Stop comparing' : 'Compare documents', run: () => setDiffMode(prev => !prev) },
+      { id: 'schema', label: schemaOpen ? 'Hide schema' : 'Validate against schema', run: () => setSchemaOpen(prev => !prev) },
+      !!jsonInput && { id: 'clear', label: 'Clear input', run: handleClear },
+      ...OUTPUT_VIEWS.filter(({ value }) => value !== outputView && !diffMode).map(({ value, label }) => ({
+        id: `view-${value}`,
+        label: `Switch to ${label} view`,
+        run: () => switchOutputView(value),
+      })),
+      parsedData !== undefined && !diffMode && outputView === 'table' && {
+        id: 'search',
+        label: 'Search all tables',
+        run: () => searchInputRef.current?.focus(),
+      },
+      ...(hasTables ? EXPORT_FORMATS.filter(({ multiTable }) => multiTable) : []).map(({ value, label }) => ({
+        id: `export-${value}`,
+        label: `Export all as ${label}`,
+        run: () => exportDocument(value),
+      })),
+      canEdit && undoStack.length > 0 && { id: 'undo', label: 'Undo edit', shortcut: 'Ctrl+Z', run: () => stepEditHistory('undo') },
+      canEdit && redoStack.length > 0 && { id: 'redo', label: 'Redo edit', shortcut: 'Ctrl+Shift+Z', run: () => stepEditHistory('redo') },
+      canEdit && (undoStack.length > 0 || redoStack.length > 0) && { id: 'download', label: 'Download JSON', run: downloadModified },
+      tabs.filter(tab => !tab.combined).length > 1 && { id: 'all-documents', label: 'Show all documents', run: openAllDocuments },
+      ...tabs.filter(tab => tab.id !== activeTabId).map(tab => ({
+        id: `tab-${tab.id}`,
+        label: `Go to ${tab.name}`,
+        run: () => switchTab(tab.id),
+      })),
+      { id: 'share', label: 'Copy share link', run: handleShare },
+      {
+        id: 'history',
+        label: 'Open history',
+        run: () => {
+          setHistoryOpen(true);
+          refreshHistory();
+        },
+      },
+    ];
+    return commands.filter((command): command is Command => command !== false);
   };
 
   return (
-    <div className="min-h-screen bg-white dark:bg-zinc-950">
+    <div
+      className="min-h-screen bg-white dark:bg-zinc-950"
+      // Capture phase, so files dropped on the editor open instead of being pasted into it
+      onDragOverCapture={(e) => {
+        if (!hasDraggedFiles(e)) return;
+        e.preventDefault();
+        e.stopPropagation();
+        e.dataTransfer.dropEffect = 'copy';
+        setDragActive(true);
+      }}
+      onDragLeave={(e) => {
+        if (!e.currentTarget.contains(e.relatedTarget as Node | null)) setDragActive(false);
+      }}
+      onDropCapture={(e) => {
+        if (!hasDraggedFiles(e)) return;
+        e.preventDefault();
+        e.stopPropagation();
+        setDragActive(false);
+        openFiles(Array.from(e.dataTransfer.files));
+      }}
+    >
+      {dragActive && (
+        <div className="fixed inset-0 z-50 m-4 flex items-center justify-center rounded-2xl border-2 border-dashed border-blue-400 bg-blue-50/80 dark:bg-blue-950/60 pointer-events-none">
+          <p className="text-sm font-medium text-blue-700 dark:text-blue-300">Drop files or a .zip to open them</p>
+        </div>
+      )}
       <div className="max-w-[1600px] mx-auto px-6 py-8">
         {/* Header */}
         <div className="mb-8">
@@ -739,12 +2450,97 @@ export default function Home() {
                 DSP JSON Table Viewer
               </h1>
               <p className="text-sm text-zinc-500 dark:text-zinc-400">
-                Paste JSON data to view as a table
+                Paste JSON, YAML or CSV data to view as a table
               </p>
             </div>
+            <div className="ml-auto flex items-center gap-2">
+              {shareStatus && (
+                <span className="text-xs text-zinc-500 dark:text-zinc-400">{shareStatus}</span>
+              )}
+              <button
+                onClick={() => setPaletteOpen(true)}
+                className="px-3 py-1.5 text-xs font-medium text-zinc-600 dark:text-zinc-400 hover:text-zinc-900 dark:hover:text-zinc-100 transition-colors border border-zinc-200 dark:border-zinc-700 rounded hover:bg-zinc-50 dark:hover:bg-zinc-800"
+                title="Command palette (Ctrl+K)"
+                aria-keyshortcuts="Control+K"
+              >
+                Commands
+              </button>
+              <button
+                onClick={handleShare}
+                className="px-3 py-1.5 text-xs font-medium text-zinc-600 dark:text-zinc-400 hover:text-zinc-900 dark:hover:text-zinc-100 transition-colors border border-zinc-200 dark:border-zinc-700 rounded hover:bg-zinc-50 dark:hover:bg-zinc-800"
+                title="Copy a link to this view"
+              >
+                Share
+              </button>
+              <button
+                onClick={() => {
+                  setHistoryOpen(true);
+                  refreshHistory();
+                }}
+                className="px-3 py-1.5 text-xs font-medium text-zinc-600 dark:text-zinc-400 hover:text-zinc-900 dark:hover:text-zinc-100 transition-colors border border-zinc-200 dark:border-zinc-700 rounded hover:bg-zinc-50 dark:hover:bg-zinc-800"
+              >
+                History{historyEntries.length > 0 && ` (${historyEntries.length})`}
+              </button>
+            </div>
           </div>
         </div>
 
+        {/* Document tabs */}
+        {tabs.length > 0 && (
+          <div className="mb-6">
+            <div role="tablist" aria-label="Documents" className="flex items-end gap-1 overflow-x-auto border-b border-zinc-200 dark:border-zinc-800">
+              {tabs.filter(tab => !tab.combined).length > 1 && (
+                <button
+                  role="tab"
+                  aria-selected={tabs.find(tab => tab.id === activeTabId)?.combined ?? false}
+                  onClick={openAllDocuments}
+                  className={`shrink-0 px-3 py-2 text-xs font-medium border-b-2 -mb-px transition-colors ${
+                    tabs.find(tab => tab.id === activeTabId)?.combined
+                      ? 'border-blue-500 text-blue-700 dark:text-blue-300'
+                      : 'border-transparent text-zinc-600 dark:text-zinc-400 hover:text-zinc-900 dark:hover:text-zinc-100'
+                  }`}
+                  title="Combine matching top-level arrays of every document"
+                >
+                  All documents
+                </button>
+              )}
+              {tabs.filter(tab => !tab.combined).map(tab => {
+                const active = tab.id === activeTabId;
+                const name = active ? sourceName ?? tab.name : tab.name;
+                return (
+                  <div
+                    key={tab.id}
+                    className={`shrink-0 flex items-center border-b-2 -mb-px transition-colors ${
+                      active ? 'border-blue-500' : 'border-transparent'
+                    }`}
+                  >
+                    <button
+                      role="tab"
+                      aria-selected={active}
+                      onClick={() => switchTab(tab.id)}
+                      className={`max-w-[16rem] truncate pl-3 pr-1 py-2 text-xs font-medium transition-colors ${
+                        active ? 'text-zinc-900 dark:text-zinc-100' : 'text-zinc-600 dark:text-zinc-400 hover:text-zinc-900 dark:hover:text-zinc-100'
+                      }`}
+                      title={name}
+                    >
+                      {name}
+                    </button>
+                    <button
+                      onClick={() => closeTab(tab.id)}
+                      className="px-1.5 py-2 text-xs text-zinc-400 hover:text-red-600 dark:hover:text-red-400 transition-colors"
+                      aria-label={`Close ${name}`}
+                    >
+                      ×
+                    </button>
+                  </div>
+                );
+              })}
+            </div>
+            {openNotice && <p className="mt-2 text-xs text-amber-700 dark:text-amber-400">{openNotice}</p>}
+          </div>
+        )}
+        {openNotice && tabs.length === 0 && <p className="mb-4 text-xs text-amber-700 dark:text-amber-400">{openNotice}</p>}
+
         {/* Input Section */}
         <div className="flex flex-col mb-8">
           <div className="flex items-center justify-between mb-3">
@@ -752,15 +2548,63 @@ export default function Home() {
               Input
             </h2>
             <div className="flex gap-2">
+              <select
+                value={inputFormat}
+                onChange={(e) => setInputFormat(e.target.value as FormatSelection)}
+                aria-label="Input format"
+                className="px-2 py-1.5 text-xs font-medium text-zinc-600 dark:text-zinc-400 bg-white dark:bg-zinc-900 border border-zinc-200 dark:border-zinc-700 rounded hover:bg-zinc-50 dark:hover:bg-zinc-800 focus:outline-none focus:border-zinc-400 dark:focus:border-zinc-600 transition-colors"
+              >
+                <option value="auto">
+                  {inputFormat === 'auto' && detectedFormat ? `Auto-detect (${formatLabel(detectedFormat)})` : 'Auto-detect'}
+                </option>
+                {INPUT_FORMATS.map(({ value, label }) => (
+                  <option key={value} value={value}>{label}</option>
+                ))}
+              </select>
               <label className="px-3 py-1.5 text-xs font-medium text-zinc-600 dark:text-zinc-400 hover:text-zinc-900 dark:hover:text-zinc-100 transition-colors cursor-pointer border border-zinc-200 dark:border-zinc-700 rounded hover:bg-zinc-50 dark:hover:bg-zinc-800">
                 <input
+                  ref={fileInputRef}
                   type="file"
-                  accept=".json,application/json"
+                  multiple
+                  accept={[...SUPPORTED_EXTENSIONS, '.zip', 'application/json', 'text/*'].join(',')}
                   onChange={handleFileUpload}
                   className="hidden"
                 />
-                Upload JSON
+                Upload File
               </label>
+              <button
+                onClick={() => setUrlOpen(prev => !prev)}
+                className={`px-3 py-1.5 text-xs font-medium transition-colors border rounded ${
+                  urlOpen
+                    ? 'text-blue-700 dark:text-blue-300 bg-blue-50 dark:bg-blue-900/30 border-blue-200 dark:border-blue-800'
+                    : 'text-zinc-600 dark:text-zinc-400 hover:text-zinc-900 dark:hover:text-zinc-100 border-zinc-200 dark:border-zinc-700 hover:bg-zinc-50 dark:hover:bg-zinc-800'
+                }`}
+                aria-pressed={urlOpen}
+              >
+                Load URL
+              </button>
+              <button
+                onClick={() => setDiffMode(prev => !prev)}
+                className={`px-3 py-1.5 text-xs font-medium transition-colors border rounded ${
+                  diffMode
+                    ? 'text-blue-700 dark:text-blue-300 bg-blue-50 dark:bg-blue-900/30 border-blue-200 dark:border-blue-800'
+                    : 'text-zinc-600 dark:text-zinc-400 hover:text-zinc-900 dark:hover:text-zinc-100 border-zinc-200 dark:border-zinc-700 hover:bg-zinc-50 dark:hover:bg-zinc-800'
+                }`}
+                aria-pressed={diffMode}
+              >
+                Compare
+              </button>
+              <button
+                onClick={() => setSchemaOpen(prev => !prev)}
+                className={`px-3 py-1.5 text-xs font-medium transition-colors border rounded ${
+                  schemaOpen
+                    ? 'text-blue-700 dark:text-blue-300 bg-blue-50 dark:bg-blue-900/30 border-blue-200 dark:border-blue-800'
+                    : 'text-zinc-600 dark:text-zinc-400 hover:text-zinc-900 dark:hover:text-zinc-100 border-zinc-200 dark:border-zinc-700 hover:bg-zinc-50 dark:hover:bg-zinc-800'
+                }`}
+                aria-pressed={schemaOpen}
+              >
+                Schema
+              </button>
               <button
                 onClick={handleClear}
                 className="px-3 py-1.5 text-xs font-medium text-zinc-600 dark:text-zinc-400 hover:text-zinc-900 dark:hover:text-zinc-100 transition-colors"
@@ -769,31 +2613,335 @@ export default function Home() {
               </button>
             </div>
           </div>
-          <textarea
-            value={jsonInput}
-            onChange={(e) => setJsonInput(e.target.value)}
-            placeholder='Paste JSON here...'
-            className="w-full h-[400px] p-4 border border-zinc-200 dark:border-zinc-800 rounded-lg bg-white dark:bg-zinc-900 text-zinc-900 dark:text-zinc-100 font-mono text-sm resize-none focus:outline-none focus:border-zinc-400 dark:focus:border-zinc-600 transition-colors"
-          />
-          {error && (
+          <div className={diffMode ? 'grid grid-cols-1 lg:grid-cols-2 gap-4' : ''}>
+            <div>
+              {diffMode && (
+                <p className="mb-2 text-xs font-medium text-zinc-500 dark:text-zinc-400">Base {sourceName && `(${sourceName})`}</p>
+              )}
+              <CodeEditor
+                ref={editorRef}
+                value={jsonInput}
+                onChange={setJsonInput}
+                language={editorLanguage(detectedFormat)}
+                placeholder='Paste JSON, NDJSON, JSON5, YAML or CSV here...'
+                selection={inputSelection}
+                onCursorChange={inputSyncEnabled ? (offset) => selectAtOffset(jsonInput, offset) : undefined}
+                className="w-full h-[400px] border border-zinc-200 dark:border-zinc-800 rounded-lg bg-white dark:bg-zinc-900 focus-within:border-zinc-400 dark:focus-within:border-zinc-600 transition-colors"
+              />
+            </div>
+            {diffMode && (
+              <div>
+                <div className="flex items-center justify-between mb-2">
+                  <p className="text-xs font-medium text-zinc-500 dark:text-zinc-400">Compare {compareName && `(${compareName})`}</p>
+                  <div className="flex gap-2">
+                    <label className="px-2 py-0.5 text-xs font-medium text-zinc-600 dark:text-zinc-400 hover:text-zinc-900 dark:hover:text-zinc-100 transition-colors cursor-pointer border border-zinc-200 dark:border-zinc-700 rounded hover:bg-zinc-50 dark:hover:bg-zinc-800">
+                      <input
+                        type="file"
+                        accept={[...SUPPORTED_EXTENSIONS, 'application/json', 'text/*'].join(',')}
+                        onChange={handleCompareUpload}
+                        className="hidden"
+                      />
+                      Upload File
+                    </label>
+                    <button
+                      onClick={() => {
+                        setCompareInput('');
+                        setCompareName(undefined);
+                      }}
+                      className="px-2 py-0.5 text-xs font-medium text-zinc-600 dark:text-zinc-400 hover:text-zinc-900 dark:hover:text-zinc-100 transition-colors"
+                    >
+                      Clear
+                    </button>
+                  </div>
+                </div>
+                <CodeEditor
+                  value={compareInput}
+                  onChange={setCompareInput}
+                  language={editorLanguage(compareFormat)}
+                  placeholder='Paste the document to compare against...'
+                  className="w-full h-[400px] border border-zinc-200 dark:border-zinc-800 rounded-lg bg-white dark:bg-zinc-900 focus-within:border-zinc-400 dark:focus-within:border-zinc-600 transition-colors"
+                />
+              </div>
+            )}
+          </div>
+          {activeProgress && (
+            <div className="mt-3 p-3 bg-blue-50 dark:bg-blue-950/30 border border-blue-200 dark:border-blue-900/50 rounded-lg">
+              <div className="flex items-center justify-between mb-2">
+                <p className="text-xs font-medium text-blue-700 dark:text-blue-400">
+                  {activeProgress.phase === 'reading' ? 'Reading file...' : `Parsing ${(activeProgress.total / 1024 / 1024).toFixed(1)} MB...`}
+                  {activeProgress.loaded !== null && ` ${Math.round((activeProgress.loaded / activeProgress.total) * 100)}%`}
+                </p>
+                <button
+                  onClick={handleCancelLoading}
+                  className="px-2 py-0.5 text-xs font-medium text-blue-700 dark:text-blue-400 hover:text-blue-900 dark:hover:text-blue-200 transition-colors"
+                >
+                  Cancel
+                </button>
+              </div>
+              <div className="h-1.5 bg-blue-100 dark:bg-blue-900/50 rounded-full overflow-hidden">
+                <div
+                  className={`h-full bg-blue-500 rounded-full ${activeProgress.loaded === null ? 'w-1/3 animate-pulse' : 'transition-all'}`}
+                  style={activeProgress.loaded !== null ? { width: `${(activeProgress.loaded / activeProgress.total) * 100}%` } : undefined}
+                />
+              </div>
+            </div>
+          )}
+          {/* Hidden rather than unmounted so auto-refresh keeps polling */}
+          <div className={`mt-3 p-4 border border-zinc-200 dark:border-zinc-800 rounded-lg bg-zinc-50/50 dark:bg-zinc-900/50 ${urlOpen ? '' : 'hidden'}`}>
+            <UrlLoader onLoad={loadDocument} />
+          </div>
+          {schemaOpen && (
+            <div className="mt-3 p-4 border border-zinc-200 dark:border-zinc-800 rounded-lg bg-zinc-50/50 dark:bg-zinc-900/50 space-y-3">
+              <div className="flex items-center justify-between gap-2">
+                <p className="text-xs font-medium text-zinc-700 dark:text-zinc-300">JSON Schema</p>
+                <div className="flex gap-2">
+                  <select
+                    value={schemaSource}
+                    onChange={(e) => setSchemaSource(e.target.value)}
+                    aria-label="Schema"
+                    className="px-2 py-1 text-xs font-medium text-zinc-600 dark:text-zinc-400 bg-white dark:bg-zinc-900 border border-zinc-200 dark:border-zinc-700 rounded focus:outline-none focus:border-zinc-400 dark:focus:border-zinc-600 transition-colors"
+                  >
+                    <option value="custom">Custom schema</option>
+                    {BUILTIN_SCHEMAS.map(({ value, label }) => (
+                      <option key={value} value={value}>{label}</option>
+                    ))}
+                  </select>
+                  {schemaSource === 'custom' && (
+                    <label className="px-2 py-1 text-xs font-medium text-zinc-600 dark:text-zinc-400 hover:text-zinc-900 dark:hover:text-zinc-100 transition-colors cursor-pointer border border-zinc-200 dark:border-zinc-700 rounded hover:bg-zinc-50 dark:hover:bg-zinc-800">
+                      <input
+                        type="file"
+                        accept=".json,.yaml,.yml,application/json"
+                        onChange={handleSchemaUpload}
+                        className="hidden"
+                      />
+                      Upload Schema
+                    </label>
+                  )}
+                </div>
+              </div>
+              {schemaSource === 'custom' && (
+                <textarea
+                  value={schemaText}
+                  onChange={(e) => setSchemaText(e.target.value)}
+                  placeholder='Paste a JSON Schema (JSON or YAML)...'
+                  className="w-full h-32 p-3 border border-zinc-200 dark:border-zinc-800 rounded-lg bg-white dark:bg-zinc-900 text-zinc-900 dark:text-zinc-100 font-mono text-xs resize-y focus:outline-none focus:border-zinc-400 dark:focus:border-zinc-600 transition-colors"
+                />
+              )}
+              {(schemaError || schemaValidationError) && (
+                <p className="text-xs text-red-600 dark:text-red-500">Schema: {schemaError ?? schemaValidationError}</p>
+              )}
+              {schemaIssues && (
+                schemaIssues.length === 0 ? (
+                  <p className="text-xs font-medium text-green-700 dark:text-green-400">Document matches the schema</p>
+                ) : (
+                  <div>
+                    <p className="mb-2 text-xs font-medium text-red-700 dark:text-red-400">
+                      {schemaIssues.length === MAX_SCHEMA_ISSUES ? `First ${MAX_SCHEMA_ISSUES}` : schemaIssues.length} schema{' '}
+                      {schemaIssues.length === 1 ? 'error' : 'errors'}
+                    </p>
+                    <ul className="max-h-60 overflow-y-auto divide-y divide-zinc-100 dark:divide-zinc-800 border border-zinc-200 dark:border-zinc-800 rounded bg-white dark:bg-zinc-900">
+                      {schemaIssues.map((issue, index) => (
+                        <li key={index}>
+                          <button
+                            onClick={() => selectPointer(issue.pointer)}
+                            className={`w-full px-3 py-2 text-left text-xs hover:bg-red-50 dark:hover:bg-red-950/20 transition-colors ${
+                              issue.pointer === selectedPointer ? 'bg-blue-50 dark:bg-blue-950/30' : ''
+                            }`}
+                          >
+                            <span className="font-mono text-zinc-700 dark:text-zinc-300 break-all">{issue.pointer || '(root)'}</span>
+                            <span className="ml-2 text-red-600 dark:text-red-500">{issue.message}</span>
+                          </button>
+                        </li>
+                      ))}
+                    </ul>
+                  </div>
+                )
+              )}
+            </div>
+          )}
+          {sessionNotice && !jsonInput.trim() && (
+            <div className="mt-3 p-3 bg-blue-50 dark:bg-blue-950/30 border border-blue-200 dark:border-blue-900/50 rounded-lg">
+              <p className="text-xs text-blue-700 dark:text-blue-400">{sessionNotice}</p>
+            </div>
+          )}
+          {parseStatus === 'cancelled' && (
+            <div className="mt-3 p-3 bg-zinc-50 dark:bg-zinc-900 border border-zinc-200 dark:border-zinc-800 rounded-lg">
+              <p className="text-xs text-zinc-600 dark:text-zinc-400">Parsing cancelled. Edit the input to parse again.</p>
+            </div>
+          )}
+          {(inputError || queryError) && (
             <div className="mt-3 p-3 bg-red-50 dark:bg-red-950/30 border border-red-200 dark:border-red-900/50 rounded-lg">
               <p className="text-xs font-medium text-red-700 dark:text-red-400 mb-1">Error</p>
-              <p className="text-xs text-red-600 dark:text-red-500">{error}</p>
+              <p className="text-xs text-red-600 dark:text-red-500">{inputError ?? `Query: ${queryError}`}</p>
+              {!error && parseError && parseErrorLocation && (
+                <button
+                  onClick={() => goToLocation(parseErrorLocation)}
+                  className="mt-1 text-xs font-medium text-red-700 dark:text-red-400 underline underline-offset-2 hover:text-red-900 dark:hover:text-red-300"
+                >
+                  Line {parseErrorLocation.line}, column {parseErrorLocation.column}
+                </button>
+              )}
             </div>
           )}
         </div>
 
+        {/* Query Bar */}
+        {parsedData != null && !diffMode && (
+          <div className="flex items-center gap-2 mb-6">
+            <select
+              value={queryLanguage}
+              onChange={(e) => setQueryLanguage(e.target.value as QueryLanguage)}
+              aria-label="Query language"
+              className="px-2 py-1.5 text-xs font-medium text-zinc-600 dark:text-zinc-400 bg-white dark:bg-zinc-900 border border-zinc-200 dark:border-zinc-700 rounded hover:bg-zinc-50 dark:hover:bg-zinc-800 focus:outline-none focus:border-zinc-400 dark:focus:border-zinc-600 transition-colors"
+            >
+              {QUERY_LANGUAGES.map(({ value, label }) => (
+                <option key={value} value={value}>{label}</option>
+              ))}
+            </select>
+            <input
+              type="text"
+              value={query}
+              onChange={(e) => {
+                setQuery(e.target.value);
+                setSelectedPointer(null);
+              }}
+              placeholder={QUERY_LANGUAGES.find(({ value }) => value === queryLanguage)?.placeholder}
+              aria-label="Query"
+              spellCheck={false}
+              className="flex-1 px-3 py-1.5 text-xs font-mono border border-zinc-200 dark:border-zinc-700 rounded bg-white dark:bg-zinc-900 text-zinc-900 dark:text-zinc-100 focus:outline-none focus:border-zinc-400 dark:focus:border-zinc-600 transition-colors"
+            />
+            {query && (
+              <button
+                onClick={() => {
+                  setQuery('');
+                  setSelectedPointer(null);
+                }}
+                className="px-3 py-1.5 text-xs font-medium text-zinc-600 dark:text-zinc-400 hover:text-zinc-900 dark:hover:text-zinc-100 transition-colors"
+              >
+                Clear
+              </button>
+            )}
+          </div>
+        )}
+
         {/* Output Section */}
         <div className="flex flex-col">
           <div className="flex items-center justify-between mb-3">
-            <h2 className="text-sm font-medium text-zinc-700 dark:text-zinc-300">
-              Table
-            </h2>
-            {parsedData && (
-              <span className="px-2 py-0.5 text-xs font-medium text-green-700 dark:text-green-400 bg-green-50 dark:bg-green-950/30 rounded">
-                Valid
-              </span>
+            {diffMode ? (
+              <h2 className="text-sm font-medium text-zinc-700 dark:text-zinc-300">Diff</h2>
+            ) : (
+              <div className="flex items-center gap-3">
+                <div role="tablist" aria-label="Output view" className="flex p-0.5 bg-zinc-100 dark:bg-zinc-800 rounded-md">
+                  {OUTPUT_VIEWS.map(({ value, label }) => (
+                    <button
+                      key={value}
+                      role="tab"
+                      aria-selected={outputView === value}
+                      onClick={() => switchOutputView(value)}
+                      className={`px-3 py-1 text-xs font-medium rounded transition-colors ${
+                        outputView === value
+                          ? 'bg-white dark:bg-zinc-900 text-zinc-900 dark:text-zinc-100 shadow-sm'
+                          : 'text-zinc-600 dark:text-zinc-400 hover:text-zinc-900 dark:hover:text-zinc-100'
+                      }`}
+                    >
+                      {label}
+                    </button>
+                  ))}
+                </div>
+                {(importedFindings || documentSbom) && outputView === 'table' && (
+                  <div role="group" aria-label="Imported report" className="flex items-center gap-2">
+                    <span className="text-xs text-zinc-500 dark:text-zinc-400">
+                      {importedFindings
+                        ? `${FINDINGS_FORMATS.find(({ value }) => value === importedFindings.format)?.label} report`
+                        : `${SBOM_FORMATS.find(({ value }) => value === documentSbom?.format)?.label} SBOM`}
+                    </span>
+                    <div className="flex p-0.5 bg-zinc-100 dark:bg-zinc-800 rounded-md">
+                      {[false, true].map(showDocument => (
+                        <button
+                          key={String(showDocument)}
+                          aria-pressed={showImportedDocument === showDocument}
+                          onClick={() => setShowImportedDocument(showDocument)}
+                          className={`px-3 py-1 text-xs font-medium rounded transition-colors ${
+                            showImportedDocument === showDocument
+                              ? 'bg-white dark:bg-zinc-900 text-zinc-900 dark:text-zinc-100 shadow-sm'
+                              : 'text-zinc-600 dark:text-zinc-400 hover:text-zinc-900 dark:hover:text-zinc-100'
+                          }`}
+                        >
+                          {showDocument
+                            ? 'Document'
+                            : importedFindings
+                              ? `Findings (${importedFindings.findings.length})`
+                              : `Components (${documentSbom?.components.length})`}
+                        </button>
+                      ))}
+                    </div>
+                  </div>
+                )}
+              </div>
             )}
+            <div className="flex items-center gap-3">
+              {editNotice && <span className="text-xs text-red-600 dark:text-red-400">{editNotice}</span>}
+              {canEdit && (
+                <div className="flex items-center gap-1">
+                  <button
+                    onClick={() => stepEditHistory('undo')}
+                    disabled={undoStack.length === 0}
+                    className="px-2 py-1.5 text-xs font-medium text-zinc-600 dark:text-zinc-400 hover:text-zinc-900 dark:hover:text-zinc-100 disabled:opacity-40 disabled:pointer-events-none transition-colors"
+                    title="Undo edit (Ctrl+Z)"
+                  >
+                    Undo
+                  </button>
+                  <button
+                    onClick={() => stepEditHistory('redo')}
+                    disabled={redoStack.length === 0}
+                    className="px-2 py-1.5 text-xs font-medium text-zinc-600 dark:text-zinc-400 hover:text-zinc-900 dark:hover:text-zinc-100 disabled:opacity-40 disabled:pointer-events-none transition-colors"
+                    title="Redo edit (Ctrl+Shift+Z)"
+                  >
+                    Redo
+                  </button>
+                  {(undoStack.length > 0 || redoStack.length > 0) && (
+                    <button
+                      onClick={downloadModified}
+                      className="px-3 py-1.5 text-xs font-medium text-zinc-600 dark:text-zinc-400 hover:text-zinc-900 dark:hover:text-zinc-100 transition-colors border border-zinc-200 dark:border-zinc-700 rounded hover:bg-zinc-50 dark:hover:bg-zinc-800"
+                    >
+                      Download JSON
+                    </button>
+                  )}
+                </div>
+              )}
+              {parsedData && !diffMode && outputView === 'table' && (
+                <input
+                  ref={searchInputRef}
+                  type="search"
+                  value={searchQuery}
+                  onChange={(e) => setSearchQuery(e.target.value)}
+                  placeholder="Search all tables..."
+                  aria-label="Search all tables"
+                  className="w-64 px-3 py-1.5 text-xs border border-zinc-200 dark:border-zinc-700 rounded bg-white dark:bg-zinc-900 text-zinc-900 dark:text-zinc-100 focus:outline-none focus:border-zinc-400 dark:focus:border-zinc-600 transition-colors"
+                />
+              )}
+              {parsedData && !diffMode && outputView === 'table' && (
+                <DisplaySettingsMenu settings={displaySettings} onChange={setDisplaySettings} />
+              )}
+              {triageReport && !diffMode && outputView === 'table' && (
+                <TriageMenu
+                  count={Object.keys(triageDecisions).length}
+                  display={triageDisplay}
+                  onDisplayChange={setTriageDisplay}
+                  onExport={exportTriage}
+                  onImport={importTriageFile}
+                  onClear={() => updateTriage(() => ({}))}
+                />
+              )}
+              {parsedData && !diffMode && !queryError && typeof viewData === 'object' && viewData !== null && (
+                <ExportMenu onExport={exportDocument} label="Export all" multiTableOnly />
+              )}
+              {parsedData && (
+                <span className="px-2 py-0.5 text-xs font-medium text-green-700 dark:text-green-400 bg-green-50 dark:bg-green-950/30 rounded">
+                  Valid
+                </span>
+              )}
+            </div>
           </div>
           <div className="overflow-auto border border-zinc-200 dark:border-zinc-800 rounded-lg bg-white dark:bg-zinc-900">
             {!jsonInput.trim() ? (
@@ -802,26 +2950,76 @@ export default function Home() {
                   Enter JSON to view table
                 </p>
               </div>
-            ) : error ? (
+            ) : inputError ? (
+              <div className="h-[400px] flex items-center justify-center">
+                <p className="text-sm text-red-500 dark:text-red-400">
+                  Invalid {detectedFormat ? formatLabel(detectedFormat) : 'JSON'}
+                </p>
+              </div>
+            ) : queryError && !diffMode ? (
               <div className="h-[400px] flex items-center justify-center">
                 <p className="text-sm text-red-500 dark:text-red-400">
-                  Invalid JSON
+                  Invalid query
+                </p>
+              </div>
+            ) : parsedData === null && (parseStatus === 'pending' || parseStatus === 'parsing') ? (
+              <div className="h-[400px] flex items-center justify-center">
+                <p className="text-sm text-zinc-400 dark:text-zinc-500">
+                  Parsing...
                 </p>
               </div>
-            ) : parsedData && canDisplayAsTable(parsedData) ? (
+            ) : diffMode ? (
+              diffSections ? (
+                renderDiffView(diffSections)
+              ) : (
+                <div className="h-[400px] flex items-center justify-center">
+                  <p className="text-sm text-zinc-400 dark:text-zinc-500">
+                    {compareInput.trim() ? 'Parsing...' : 'Enter a second document to compare'}
+                  </p>
+                </div>
+              )
+            ) : outputView === 'tree' ? (
+              <TreeView
+                data={viewData}
+                selectedPointer={selectedPointer}
+                onSelect={setSelectedPointer}
+                onEdit={canEdit ? editValue : undefined}
+                onAdd={canEdit ? addToTree : undefined}
+                onDelete={canEdit ? deleteValue : undefined}
+              />
+            ) : outputView === 'raw' ? (
+              <CodeEditor
+                value={rawText}
+                language="json"
+                selection={rawSelection}
+                onCursorChange={(offset) => selectAtOffset(rawText, offset)}
+                className="h-[720px]"
+              />
+            ) : outputView === 'chart' ? (
+              <div className="p-6">
+                <ChartPanel tables={chartTables} selection={chartSelection} onChange={setChartSelection} name={documentName} />
+              </div>
+            ) : trivyReport ? (
+              renderTrivyReport(trivyReport)
+            ) : importedReport && !showImportedDocument ? (
+              renderTrivyReport(importedReport, undefined)
+            ) : documentSbom && !showImportedDocument ? (
+              renderSbom(documentSbom)
+            ) : viewData && canDisplayAsTable(viewData) ? (
               (() => {
                 // If it's an object with nested arrays/objects, show each key as a section
-                if (typeof parsedData === 'object' && !Array.isArray(parsedData) && parsedData !== null) {
-                  const entries = Object.entries(parsedData);
+                if (typeof viewData === 'object' && !Array.isArray(viewData) && viewData !== null) {
+                  const entries = Object.entries(viewData);
                   const hasNestedStructures = entries.some(([_, value]) => isNestedStructure(value));
                   
                   if (hasNestedStructures) {
                     return (
                       <div className="space-y-6 p-6">
                         {entries.map(([key, value]) => {
+                          const entryPointer = childPointer(rootPointer, key);
                           if (isNestedStructure(value)) {
                             // Render nested table for arrays of objects
-                            const nestedTable = renderNestedTable(key, value);
+                            const nestedTable = renderNestedTable(key, value, 0, entryPointer);
                             if (nestedTable) {
                               return <div key={key}>{nestedTable}</div>;
                             }
@@ -829,8 +3027,12 @@ export default function Home() {
                             // Render nested object as key-value table
                             if (typeof value === 'object' && !Array.isArray(value) && value !== null) {
                               const { headers, rows } = getTableStructure(value);
+                              const visibleRows = getVisibleRows(`nested-obj-${key}`, headers, rows);
+                              const rowPointers = makeRowPointers(value, entryPointer);
+                              const columnsKey = columnKey(`nested-obj-${key}`, entryPointer);
+                              const columns = getColumns(columnsKey, headers);
                               return (
-                                <div key={key} className="bg-white dark:bg-zinc-900 rounded-xl border border-zinc-200/60 dark:border-zinc-800/60 shadow-lg shadow-zinc-200/20 dark:shadow-zinc-900/50 overflow-hidden">
+                                <div key={key} data-pointer={entryPointer} className="bg-white dark:bg-zinc-900 rounded-xl border border-zinc-200/60 dark:border-zinc-800/60 shadow-lg shadow-zinc-200/20 dark:shadow-zinc-900/50 overflow-hidden">
                                   <div className="px-6 py-4 bg-gradient-to-r from-blue-50 via-indigo-50 to-purple-50 dark:from-zinc-800 dark:via-zinc-800 dark:to-zinc-800 border-b border-zinc-200/60 dark:border-zinc-700/60">
                                     <div className="flex items-center justify-between">
                                       <div className="flex items-center gap-3">
@@ -838,86 +3040,74 @@ export default function Home() {
                                         <h3 className="text-base font-bold text-zinc-900 dark:text-zinc-50 tracking-tight">{key}</h3>
                                       </div>
                                       {typeof value === 'object' && !Array.isArray(value) && Object.keys(value).length > 0 && (
-                                        <button
-                                          onClick={(e) => {
-                                            e.stopPropagation();
-                                            exportToCSV([value], key);
-                                          }}
-                                          className="px-3 py-1.5 text-xs font-medium text-zinc-600 dark:text-zinc-400 hover:text-blue-600 dark:hover:text-blue-400 bg-white dark:bg-zinc-700 hover:bg-blue-50 dark:hover:bg-blue-900/30 rounded-md border border-zinc-200 dark:border-zinc-600 hover:border-blue-300 dark:hover:border-blue-700 transition-colors flex items-center gap-1.5"
-                                          title="Export to CSV"
-                                        >
-                                          <svg className="w-3.5 h-3.5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-                                            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 10v6m0 0l-3-3m3 3l3-3m2 8H7a2 2 0 01-2-2V5a2 2 0 012-2h5.586a1 1 0 01.707.293l5.414 5.414a1 1 0 01.293.707V19a2 2 0 01-2 2z" />
-                                          </svg>
-                                          Export CSV
-                                        </button>
+                                        <div className="flex items-center gap-2">
+                                          {renderColumnChooser(columnsKey, headers)}
+                                          <ExportMenu onExport={(format) => exportTable(`nested-obj-${key}`, key, headers, rows, format, columns)} />
+                                        </div>
                                       )}
                                     </div>
                                   </div>
-                                  <div className="overflow-x-auto">
-                                    <table className="w-full">
-                                      <thead className="bg-gradient-to-b from-zinc-50 to-zinc-100/50 dark:from-zinc-800/50 dark:to-zinc-800/30 border-b border-zinc-200 dark:border-zinc-700">
-                                        <tr>
-                                          {headers.map((header) => (
-                                            <th
-                                              key={header}
-                                              className="px-6 py-4 text-left text-xs font-bold text-zinc-700 dark:text-zinc-200 uppercase tracking-wider"
+                                  <VirtualTable
+                                    head={renderTableHead(`nested-obj-${key}`, columnsKey, columns, true, 'bg-gradient-to-b from-zinc-50 to-zinc-100/50 dark:from-zinc-800/50 dark:to-zinc-800/30 border-b border-zinc-200 dark:border-zinc-700')}
+                                    rowCount={visibleRows.length}
+                                    colSpan={columns.length + 1}
+                                    footer={renderNoMatchesRow(visibleRows.length, rows.length, columns.length + 1)}
+                                    scrollTarget={getScrollTarget(value, entryPointer, rows, visibleRows)}
+                                    renderRow={(visibleIndex) => {
+                                      const rowIndex = visibleRows[visibleIndex];
+                                      const row = rows[rowIndex];
+                                      const originalRow = Array.isArray(value) ? value[rowIndex] : Object.fromEntries(
+                                        headers.map((h, idx) => [h, row[idx]])
+                                      );
+                                      const copyId = `nested-obj-${key}-${rowIndex}`;
+                                      const isCopied = copiedIndex === copyId;
+                                      const { rowPointer, cellPointers } = rowPointers(headers, row, rowIndex);
+
+                                      return (
+                                        <tr
+                                          key={rowIndex}
+                                          data-pointer={rowPointer}
+                                          className={`group hover:bg-gradient-to-r hover:from-blue-50/50 hover:to-indigo-50/30 dark:hover:from-zinc-800/40 dark:hover:to-zinc-800/20 transition-all duration-200 ${pointerClass(rowPointer, true)}`}
+                                        >
+                                          {columns.map((column) => (
+                                            <td
+                                              key={column.header}
+                                              data-pointer={cellPointers[column.index]}
+                                              onClick={(e) => selectCell(e, cellPointers[column.index])}
+                                              style={columnStyle(column)}
+                                              className={`px-6 py-4 text-sm text-zinc-900 dark:text-zinc-100 align-top group-hover:text-zinc-950 dark:group-hover:text-zinc-50 transition-colors ${columnClass(column)} ${pointerClass(cellPointers[column.index])}`}
                                             >
-                                              {header}
-                                            </th>
+                                              {renderCellWithNestedArrays(row[column.index], column.header, rowIndex, cellPointers[column.index])}
+                                            </td>
                                           ))}
-                                          <th className="px-4 py-4 w-20 text-xs font-bold text-zinc-700 dark:text-zinc-200 uppercase tracking-wider">
-                                            Copy
-                                          </th>
+                                          <td className="px-4 py-4 w-24">
+                                            <div className="flex items-center gap-1">
+                                              <button
+                                                onClick={(e) => {
+                                                  e.stopPropagation();
+                                                  copyRecord(originalRow, rowIndex, `nested-obj-${key}`);
+                                                }}
+                                                className="flex items-center justify-center w-8 h-8 rounded-md bg-zinc-100 dark:bg-zinc-800 hover:bg-blue-100 dark:hover:bg-blue-900/30 text-zinc-600 dark:text-zinc-400 hover:text-blue-600 dark:hover:text-blue-400 transition-colors"
+                                                title="Copy record"
+                                                aria-label={isCopied ? 'Copied' : 'Copy record'}
+                                              >
+                                                {isCopied ? (
+                                                  <svg className="w-4 h-4 text-green-600 dark:text-green-400" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                                                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 13l4 4L19 7" />
+                                                  </svg>
+                                                ) : (
+                                                  <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                                                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 16H6a2 2 0 01-2-2V6a2 2 0 012-2h8a2 2 0 012 2v2m-6 12h8a2 2 0 002-2v-8a2 2 0 00-2-2h-8a2 2 0 00-2 2v8a2 2 0 002 2z" />
+                                                  </svg>
+                                                )}
+                                              </button>
+                                              {renderRowDeleteButton(rowPointer)}
+                                            </div>
+                                          </td>
                                         </tr>
-                                      </thead>
-                                      <tbody className="divide-y divide-zinc-100/80 dark:divide-zinc-800/50">
-                                        {rows.map((row, rowIndex) => {
-                                          const originalRow = Array.isArray(value) ? value[rowIndex] : Object.fromEntries(
-                                            headers.map((h, idx) => [h, row[idx]])
-                                          );
-                                          const copyId = `nested-obj-${key}-${rowIndex}`;
-                                          const isCopied = copiedIndex === copyId;
-                                          
-                                          return (
-                                            <tr
-                                              key={rowIndex}
-                                              className="group hover:bg-gradient-to-r hover:from-blue-50/50 hover:to-indigo-50/30 dark:hover:from-zinc-800/40 dark:hover:to-zinc-800/20 transition-all duration-200"
-                                            >
-                                              {row.map((cell, cellIndex) => (
-                                                <td
-                                                  key={cellIndex}
-                                                  className="px-6 py-4 text-sm text-zinc-900 dark:text-zinc-100 align-top group-hover:text-zinc-950 dark:group-hover:text-zinc-50 transition-colors"
-                                                >
-                                                  {renderCellWithNestedArrays(cell, headers[cellIndex], rowIndex)}
-                                                </td>
-                                              ))}
-                                              <td className="px-4 py-4 w-20">
-                                                <button
-                                                  onClick={(e) => {
-                                                    e.stopPropagation();
-                                                    copyRecord(originalRow, rowIndex, `nested-obj-${key}`);
-                                                  }}
-                                                  className="flex items-center justify-center w-8 h-8 rounded-md bg-zinc-100 dark:bg-zinc-800 hover:bg-blue-100 dark:hover:bg-blue-900/30 text-zinc-600 dark:text-zinc-400 hover:text-blue-600 dark:hover:text-blue-400 transition-colors"
-                                                  title="Copy record"
-                                                >
-                                                  {isCopied ? (
-                                                    <svg className="w-4 h-4 text-green-600 dark:text-green-400" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-                                                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 13l4 4L19 7" />
-                                                    </svg>
-                                                  ) : (
-                                                    <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-                                                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 16H6a2 2 0 01-2-2V6a2 2 0 012-2h8a2 2 0 012 2v2m-6 12h8a2 2 0 002-2v-8a2 2 0 00-2-2h-8a2 2 0 00-2 2v8a2 2 0 002 2z" />
-                                                    </svg>
-                                                  )}
-                                                </button>
-                                              </td>
-                                            </tr>
-                                          );
-                                        })}
-                                      </tbody>
-                                    </table>
-                                  </div>
+                                      );
+                                    }}
+                                  />
                                 </div>
                               );
                             }
@@ -925,12 +3115,16 @@ export default function Home() {
                           
                           // Render simple key-value pairs
                           return (
-                            <div key={key} className="flex items-start gap-4 py-2 border-b border-zinc-100 dark:border-zinc-800/50">
+                            <div
+                              key={key}
+                              data-pointer={entryPointer}
+                              className={`flex items-start gap-4 py-2 border-b border-zinc-100 dark:border-zinc-800/50 ${pointerClass(entryPointer)}`}
+                            >
                               <div className="w-40 flex-shrink-0">
                                 <span className="text-xs font-medium text-zinc-600 dark:text-zinc-400">{key}</span>
                               </div>
                               <div className="flex-1">
-                                {renderCellWithNestedArrays(value, key)}
+                                {renderCellWithNestedArrays(value, key, undefined, entryPointer)}
                               </div>
                             </div>
                           );
@@ -941,105 +3135,99 @@ export default function Home() {
                 }
                 
                 // Standard table display for arrays or simple objects
-                const { headers, rows } = getTableStructure(parsedData);
-                const isArrayData = Array.isArray(parsedData);
+                const { headers, rows } = getTableStructure(viewData);
+                const visibleRows = getVisibleRows('standard', headers, rows);
+                const displayRows = getDisplayRows('standard', headers, rows, visibleRows);
+                const isArrayData = Array.isArray(viewData);
+                const rowPointers = makeRowPointers(viewData, rootPointer);
+                const columnsKey = columnKey('standard', rootPointer);
+                const columns = getColumns(columnsKey, headers);
                 
                 return (
                   <div className="bg-white dark:bg-zinc-900 rounded-xl border border-zinc-200/60 dark:border-zinc-800/60 shadow-lg shadow-zinc-200/20 dark:shadow-zinc-900/50 overflow-hidden">
                     {/* Export button for standard table */}
-                    {isArrayData && parsedData.length > 0 && (
-                      <div className="px-6 py-3 bg-gradient-to-r from-zinc-50 to-zinc-100/50 dark:from-zinc-800/50 dark:to-zinc-800/30 border-b border-zinc-200 dark:border-zinc-700 flex justify-end">
-                        <button
-                          onClick={() => exportToCSV(parsedData, 'Table')}
-                          className="px-3 py-1.5 text-xs font-medium text-zinc-600 dark:text-zinc-400 hover:text-blue-600 dark:hover:text-blue-400 bg-white dark:bg-zinc-700 hover:bg-blue-50 dark:hover:bg-blue-900/30 rounded-md border border-zinc-200 dark:border-zinc-600 hover:border-blue-300 dark:hover:border-blue-700 transition-colors flex items-center gap-1.5"
-                          title="Export to CSV"
-                        >
-                          <svg className="w-3.5 h-3.5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-                            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 10v6m0 0l-3-3m3 3l3-3m2 8H7a2 2 0 01-2-2V5a2 2 0 012-2h5.586a1 1 0 01.707.293l5.414 5.414a1 1 0 01.293.707V19a2 2 0 01-2 2z" />
-                          </svg>
-                          Export CSV
-                        </button>
+                    {isArrayData && viewData.length > 0 && (
+                      <div className="px-6 py-3 bg-gradient-to-r from-zinc-50 to-zinc-100/50 dark:from-zinc-800/50 dark:to-zinc-800/30 border-b border-zinc-200 dark:border-zinc-700 flex justify-end gap-2">
+                        {renderAddRowButton(rootPointer, viewData)}
+                        {renderGroupByMenu('standard', headers, rows)}
+                        {renderColumnChooser(columnsKey, headers)}
+                        <ExportMenu onExport={(format) => exportTable('standard', 'Table', headers, rows, format, columns)} />
                       </div>
                     )}
-                    <div className="overflow-x-auto">
-                      <table className="w-full">
-                        <thead className="sticky top-0 bg-gradient-to-b from-zinc-50 to-zinc-100/50 dark:from-zinc-800/50 dark:to-zinc-800/30 border-b-2 border-zinc-200 dark:border-zinc-700 z-10 backdrop-blur-sm">
-                          <tr>
-                            {headers.map((header) => (
-                              <th
-                                key={header}
-                                className="px-6 py-4 text-left text-xs font-bold text-zinc-700 dark:text-zinc-200 uppercase tracking-wider"
+                    <VirtualTable
+                      head={renderTableHead('standard', columnsKey, columns, isArrayData, 'sticky top-0 bg-gradient-to-b from-zinc-50 to-zinc-100/50 dark:from-zinc-800/50 dark:to-zinc-800/30 border-b-2 border-zinc-200 dark:border-zinc-700 z-10 backdrop-blur-sm')}
+                      rowCount={displayRows.length}
+                      colSpan={columns.length + (isArrayData ? 1 : 0)}
+                      footer={visibleRows.length === 0 && (
+                        <tr>
+                          <td
+                            colSpan={columns.length + (isArrayData ? 1 : 0)}
+                            className="px-6 py-12 text-center text-sm text-zinc-400 dark:text-zinc-500"
+                          >
+                            {rows.length === 0 ? 'No data' : 'No matching rows'}
+                          </td>
+                        </tr>
+                      )}
+                      scrollTarget={getScrollTarget(viewData, rootPointer, rows, displayRowOrder(displayRows))}
+                      renderRow={(visibleIndex) => {
+                        const item = displayRows[visibleIndex];
+                        if (item.type === 'group') return renderGroupRow('standard', headers, rows, item.group, columns.length + (isArrayData ? 1 : 0));
+                        const rowIndex = item.rowIndex;
+                        const row = rows[rowIndex];
+                        const originalRow = isArrayData ? viewData[rowIndex] : Object.fromEntries(
+                          headers.map((h, idx) => [h, row[idx]])
+                        );
+                        const copyId = `standard-${rowIndex}`;
+                        const isCopied = copiedIndex === copyId;
+                        const { rowPointer, cellPointers } = rowPointers(headers, row, rowIndex);
+                      
+                        return (
+                          <tr
+                            key={rowIndex}
+                            data-pointer={rowPointer}
+                            className={`group hover:bg-gradient-to-r hover:from-blue-50/50 hover:to-indigo-50/30 dark:hover:from-zinc-800/40 dark:hover:to-zinc-800/20 transition-all duration-200 ${pointerClass(rowPointer, true)}`}
+                          >
+                            {columns.map((column) => (
+                              <td
+                                key={column.header}
+                                data-pointer={cellPointers[column.index]}
+                                onClick={(e) => selectCell(e, cellPointers[column.index])}
+                                style={columnStyle(column)}
+                                className={`px-6 py-4 text-sm text-zinc-900 dark:text-zinc-100 align-top group-hover:text-zinc-950 dark:group-hover:text-zinc-50 transition-colors ${columnClass(column)} ${pointerClass(cellPointers[column.index])}`}
                               >
-                                {header}
-                              </th>
+                                {renderCellWithNestedArrays(row[column.index], column.header, rowIndex, cellPointers[column.index])}
+                              </td>
                             ))}
                             {isArrayData && (
-                              <th className="px-4 py-4 w-20 text-xs font-bold text-zinc-700 dark:text-zinc-200 uppercase tracking-wider">
-                                Copy
-                              </th>
+                              <td className="px-4 py-4 w-24">
+                                <div className="flex items-center gap-1">
+                                  <button
+                                    onClick={(e) => {
+                                      e.stopPropagation();
+                                      copyRecord(originalRow, rowIndex, 'standard');
+                                    }}
+                                    className="flex items-center justify-center w-8 h-8 rounded-md bg-zinc-100 dark:bg-zinc-800 hover:bg-blue-100 dark:hover:bg-blue-900/30 text-zinc-600 dark:text-zinc-400 hover:text-blue-600 dark:hover:text-blue-400 transition-colors"
+                                    title="Copy record"
+                                    aria-label={isCopied ? 'Copied' : 'Copy record'}
+                                  >
+                                    {isCopied ? (
+                                      <svg className="w-4 h-4 text-green-600 dark:text-green-400" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 13l4 4L19 7" />
+                                      </svg>
+                                    ) : (
+                                      <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 16H6a2 2 0 01-2-2V6a2 2 0 012-2h8a2 2 0 012 2v2m-6 12h8a2 2 0 002-2v-8a2 2 0 00-2-2h-8a2 2 0 00-2 2v8a2 2 0 002 2z" />
+                                      </svg>
+                                    )}
+                                  </button>
+                                  {renderRowDeleteButton(rowPointer)}
+                                </div>
+                              </td>
                             )}
                           </tr>
-                        </thead>
-                      <tbody className="divide-y divide-zinc-100/80 dark:divide-zinc-800/50">
-                        {rows.length === 0 ? (
-                          <tr>
-                            <td
-                              colSpan={headers.length + (isArrayData ? 1 : 0)}
-                              className="px-6 py-12 text-center text-sm text-zinc-400 dark:text-zinc-500"
-                            >
-                              No data
-                            </td>
-                          </tr>
-                        ) : (
-                          rows.map((row, rowIndex) => {
-                            const originalRow = isArrayData ? parsedData[rowIndex] : Object.fromEntries(
-                              headers.map((h, idx) => [h, row[idx]])
-                            );
-                            const copyId = `standard-${rowIndex}`;
-                            const isCopied = copiedIndex === copyId;
-                            
-                            return (
-                              <tr
-                                key={rowIndex}
-                                className="group hover:bg-gradient-to-r hover:from-blue-50/50 hover:to-indigo-50/30 dark:hover:from-zinc-800/40 dark:hover:to-zinc-800/20 transition-all duration-200"
-                              >
-                                {row.map((cell, cellIndex) => (
-                                  <td
-                                    key={cellIndex}
-                                    className="px-6 py-4 text-sm text-zinc-900 dark:text-zinc-100 align-top group-hover:text-zinc-950 dark:group-hover:text-zinc-50 transition-colors"
-                                  >
-                                    {renderCellWithNestedArrays(cell, headers[cellIndex], rowIndex)}
-                                  </td>
-                                ))}
-                                {isArrayData && (
-                                  <td className="px-4 py-4 w-20">
-                                    <button
-                                      onClick={(e) => {
-                                        e.stopPropagation();
-                                        copyRecord(originalRow, rowIndex, 'standard');
-                                      }}
-                                      className="flex items-center justify-center w-8 h-8 rounded-md bg-zinc-100 dark:bg-zinc-800 hover:bg-blue-100 dark:hover:bg-blue-900/30 text-zinc-600 dark:text-zinc-400 hover:text-blue-600 dark:hover:text-blue-400 transition-colors"
-                                      title="Copy record"
-                                    >
-                                      {isCopied ? (
-                                        <svg className="w-4 h-4 text-green-600 dark:text-green-400" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-                                          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 13l4 4L19 7" />
-                                        </svg>
-                                      ) : (
-                                        <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-                                          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 16H6a2 2 0 01-2-2V6a2 2 0 012-2h8a2 2 0 012 2v2m-6 12h8a2 2 0 002-2v-8a2 2 0 00-2-2h-8a2 2 0 00-2 2v8a2 2 0 002 2z" />
-                                        </svg>
-                                      )}
-                                    </button>
-                                  </td>
-                                )}
-                              </tr>
-                            );
-                          })
-                        )}
-                      </tbody>
-                    </table>
-                    </div>
+                        );
+                      }}
+                    />
                   </div>
                 );
               })()
@@ -1074,7 +3262,7 @@ export default function Home() {
               <div>
                 <p className="text-xs text-zinc-500 dark:text-zinc-400 mb-1">Size</p>
                 <p className="text-sm font-medium text-zinc-900 dark:text-zinc-100">
-                  {new Blob([jsonInput]).size} bytes
+                  {inputSize} bytes
                 </p>
               </div>
               <div>
@@ -1087,6 +3275,24 @@ export default function Home() {
           </div>
         )}
       </div>
+
+      {historyOpen && (
+        <HistorySidebar
+          entries={historyEntries}
+          activeId={historyId}
+          onRestore={(id) => {
+            restoreHistory(id).catch(err => console.error('Failed to restore history:', err));
+            setHistoryOpen(false);
+          }}
+          onDelete={handleDeleteHistory}
+          onClear={handleClearHistory}
+          onClose={() => setHistoryOpen(false)}
+        />
+      )}
+
+      {paletteOpen && <CommandPalette commands={getCommands()} onClose={() => setPaletteOpen(false)} />}
+
+      <div role="status" aria-live="polite" className="sr-only">{announcement}</div>
     </div>
   );
 }
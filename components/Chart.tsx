@@ -0,0 +1,147 @@
+'use client';
+
+import type React from 'react';
+import type { ChartBin, ChartData } from '@/lib/charts';
+
+interface ChartProps {
+  data: ChartData;
+  title: string;
+  ref?: React.Ref<SVGSVGElement>;
+}
+
+const WIDTH = 760;
+const BAR_COLOR = '#3b82f6';
+const GRID_COLOR = '#a1a1aa';
+
+// Bar colours for severity categories, matching the severity badges
+const SEVERITY_COLORS: Record<string, string> = {
+  CRITICAL: '#dc2626',
+  HIGH: '#ea580c',
+  MEDIUM: '#d97706',
+  LOW: '#0284c7',
+  UNKNOWN: '#71717a',
+};
+
+const truncate = (text: string, length: number) => (text.length > length ? `${text.slice(0, length - 1)}…` : text);
+
+// Up to five round tick values from 0 to at least `max`
+const countTicks = (max: number): number[] => {
+  if (max <= 0) return [0];
+  const raw = max / 4;
+  const magnitude = 10 ** Math.floor(Math.log10(raw));
+  const step = Math.max(1, ([1, 2, 5, 10].find(multiple => multiple * magnitude >= raw) ?? 10) * magnitude);
+  const ticks: number[] = [];
+  for (let tick = 0; tick < max + step; tick += step) ticks.push(tick);
+  return ticks;
+};
+
+// Plain SVG with inline colours so it renders and exports without a charting
+// library or stylesheet. Text uses currentColor, set by the caller.
+export default function Chart({ data, title, ref }: ChartProps) {
+  const body = data.kind === 'bar' ? renderHorizontalBars(data.bins) : renderColumns(data.bins, data.kind === 'timeseries');
+  return (
+    <svg
+      ref={ref}
+      xmlns="http://www.w3.org/2000/svg"
+      viewBox={`0 0 ${WIDTH} ${body.height + 40}`}
+      width="100%"
+      role="img"
+      aria-label={title}
+      fontFamily="ui-sans-serif, system-ui, sans-serif"
+      fontSize={12}
+      fill="currentColor"
+    >
+      <text x={0} y={18} fontSize={14} fontWeight={600}>{title}</text>
+      <g transform="translate(0, 40)">{body.content}</g>
+    </svg>
+  );
+}
+
+// Categories as horizontal bars with their labels on the left
+function renderHorizontalBars(bins: ChartBin[]): { content: React.ReactNode; height: number } {
+  const labelWidth = 200;
+  const countWidth = 60;
+  const rowHeight = 26;
+  const barWidth = WIDTH - labelWidth - countWidth;
+  const max = Math.max(1, ...bins.map(bin => bin.count));
+
+  return {
+    height: bins.length * rowHeight,
+    content: bins.map((bin, index) => {
+      const width = Math.max(1, (bin.count / max) * barWidth);
+      const y = index * rowHeight;
+      return (
+        <g key={bin.label}>
+          <title>{`${bin.label}: ${bin.count}`}</title>
+          <text x={labelWidth - 8} y={y + rowHeight / 2} textAnchor="end" dominantBaseline="middle">
+            {truncate(bin.label, 30)}
+          </text>
+          <rect x={labelWidth} y={y + 4} width={width} height={rowHeight - 8} rx={3} fill={SEVERITY_COLORS[bin.label.toUpperCase()] ?? BAR_COLOR} />
+          <text x={labelWidth + width + 6} y={y + rowHeight / 2} dominantBaseline="middle" fillOpacity={0.8}>
+            {bin.count}
+          </text>
+        </g>
+      );
+    }),
+  };
+}
+
+// Histogram columns, or a line for time series, over a count axis
+function renderColumns(bins: ChartBin[], asLine: boolean): { content: React.ReactNode; height: number } {
+  const left = 48;
+  const plotHeight = 260;
+  const labelHeight = 80;
+  const plotWidth = WIDTH - left - 8;
+  const ticks = countTicks(Math.max(0, ...bins.map(bin => bin.count)));
+  const top = ticks[ticks.length - 1] || 1;
+  const step = plotWidth / Math.max(1, bins.length);
+  const y = (count: number) => plotHeight - (count / top) * plotHeight;
+  // Label every nth column so labels don't overlap
+  const labelEvery = Math.ceil(bins.length / 20);
+
+  const points = bins.map((bin, index) => `${left + step * (index + 0.5)},${y(bin.count)}`).join(' ');
+
+  return {
+    height: plotHeight + labelHeight,
+    content: (
+      <>
+        {ticks.map(tick => (
+          <g key={tick}>
+            <line x1={left} x2={WIDTH} y1={y(tick)} y2={y(tick)} stroke={GRID_COLOR} strokeOpacity={0.3} />
+            <text x={left - 6} y={y(tick)} textAnchor="end" dominantBaseline="middle" fillOpacity={0.8}>{tick}</text>
+          </g>
+        ))}
+        {asLine && (
+          <>
+            <polygon points={`${left + step / 2},${plotHeight} ${points} ${left + step * (bins.length - 0.5)},${plotHeight}`} fill={BAR_COLOR} fillOpacity={0.15} />
+            <polyline points={points} fill="none" stroke={BAR_COLOR} strokeWidth={2} />
+          </>
+        )}
+        {bins.map((bin, index) => {
+          const x = left + step * index;
+          return (
+            <g key={bin.label}>
+              <title>{`${bin.label}: ${bin.count}`}</title>
+              {asLine ? (
+                <circle cx={x + step / 2} cy={y(bin.count)} r={bins.length > 60 ? 1.5 : 3} fill={BAR_COLOR} />
+              ) : (
+                <rect x={x + 1} y={y(bin.count)} width={Math.max(1, step - 2)} height={plotHeight - y(bin.count)} fill={BAR_COLOR} />
+              )}
+              {index % labelEvery === 0 && (
+                <text
+                  x={x + step / 2}
+                  y={plotHeight + 12}
+                  textAnchor="end"
+                  transform={`rotate(-40 ${x + step / 2} ${plotHeight + 12})`}
+                  fillOpacity={0.8}
+                >
+                  {truncate(bin.label, 18)}
+                </text>
+              )}
+            </g>
+          );
+        })}
+      </>
+    ),
+  };
+}
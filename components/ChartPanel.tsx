@@ -0,0 +1,169 @@
+'use client';
+
+import { useMemo, useRef } from 'react';
+import Chart from '@/components/Chart';
+import { buildChart, CHART_KINDS, suggestChartKind, type ChartKind, type ChartSelection } from '@/lib/charts';
+import { downloadBlob, type ExportTable } from '@/lib/export';
+
+interface ChartPanelProps {
+  tables: ExportTable[];
+  selection: ChartSelection | null;
+  onChange: (selection: ChartSelection) => void;
+  // Base name for exported images
+  name: string;
+}
+
+const PNG_SCALE = 2;
+
+const selectClass =
+  'px-2 py-1.5 text-xs bg-white dark:bg-zinc-900 text-zinc-700 dark:text-zinc-300 border border-zinc-200 dark:border-zinc-700 rounded-md focus:outline-none focus:border-zinc-400 dark:focus:border-zinc-500';
+
+const buttonClass =
+  'px-3 py-1.5 text-xs font-medium text-zinc-600 dark:text-zinc-400 hover:text-blue-600 dark:hover:text-blue-400 bg-white dark:bg-zinc-700 hover:bg-blue-50 dark:hover:bg-blue-900/30 rounded-md border border-zinc-200 dark:border-zinc-600 hover:border-blue-300 dark:hover:border-blue-700 transition-colors';
+
+// The table shown first: vulnerabilities when there are any, otherwise the largest
+const defaultTable = (tables: ExportTable[]): ExportTable | undefined =>
+  tables.find(table => table.name === 'Vulnerabilities') ??
+  tables.reduce<ExportTable | undefined>((largest, table) => (!largest || table.rows.length > largest.rows.length ? table : largest), undefined);
+
+// Severity when the table has it, otherwise its first column
+const defaultColumn = (table: ExportTable): string =>
+  table.headers.find(header => header.toLowerCase() === 'severity') ?? table.headers[0] ?? '';
+
+// Standalone copy of the chart with its colours fixed, since the page's text
+// colour and background don't travel with the file
+const serializeChart = (svg: SVGSVGElement): { markup: string; width: number; height: number } => {
+  const { width, height } = svg.viewBox.baseVal;
+  const padding = 16;
+  const size = { width: width + 2 * padding, height: height + 2 * padding };
+  const clone = svg.cloneNode(true) as SVGSVGElement;
+  clone.setAttribute('viewBox', `${-padding} ${-padding} ${size.width} ${size.height}`);
+  clone.setAttribute('width', String(size.width));
+  clone.setAttribute('height', String(size.height));
+  clone.setAttribute('color', '#3f3f46');
+
+  const background = document.createElementNS('http://www.w3.org/2000/svg', 'rect');
+  background.setAttribute('x', String(-padding));
+  background.setAttribute('y', String(-padding));
+  background.setAttribute('width', String(size.width));
+  background.setAttribute('height', String(size.height));
+  background.setAttribute('fill', '#ffffff');
+  clone.insertBefore(background, clone.firstChild);
+  return { markup: new XMLSerializer().serializeToString(clone), ...size };
+};
+
+const downloadPng = (markup: string, width: number, height: number, fileName: string) => {
+  const image = new Image();
+  const url = URL.createObjectURL(new Blob([markup], { type: 'image/svg+xml' }));
+  image.onload = () => {
+    const canvas = document.createElement('canvas');
+    canvas.width = width * PNG_SCALE;
+    canvas.height = height * PNG_SCALE;
+    const context = canvas.getContext('2d');
+    URL.revokeObjectURL(url);
+    if (!context) return;
+    context.scale(PNG_SCALE, PNG_SCALE);
+    context.drawImage(image, 0, 0, width, height);
+    canvas.toBlob(blob => {
+      if (blob) downloadBlob(blob, fileName);
+    }, 'image/png');
+  };
+  image.onerror = () => URL.revokeObjectURL(url);
+  image.src = url;
+};
+
+// Charts of a column of one of the document's tables. Tables are the export
+// tables, so nested fields such as CVSS.nvd.V3Score are columns of their own.
+export default function ChartPanel({ tables, selection, onChange, name }: ChartPanelProps) {
+  const svgRef = useRef<SVGSVGElement>(null);
+
+  const table = tables.find(({ name: tableName }) => tableName === selection?.table) ?? defaultTable(tables);
+  const column = table && selection?.table === table.name && table.headers.includes(selection.column) ? selection.column : table ? defaultColumn(table) : '';
+  const values = useMemo(() => {
+    const index = table?.headers.indexOf(column) ?? -1;
+    return index === -1 || !table ? [] : table.rows.map(row => row[index]);
+  }, [table, column]);
+  const kind = (selection?.table === table?.name && selection?.column === column ? selection?.kind : undefined) ?? suggestChartKind(values);
+  const data = useMemo(() => buildChart(values, kind), [values, kind]);
+
+  if (!table) {
+    return (
+      <div className="h-[400px] flex items-center justify-center">
+        <p className="text-sm text-zinc-400 dark:text-zinc-500">No tables to chart</p>
+      </div>
+    );
+  }
+
+  const title = `${table.name}: ${column}`;
+  const fileName = `${name}-${table.name}-${column}`.replace(/[^\w.-]+/g, '_');
+
+  const exportChart = (format: 'svg' | 'png') => {
+    if (!svgRef.current) return;
+    const { markup, width, height } = serializeChart(svgRef.current);
+    if (format === 'svg') {
+      downloadBlob(new Blob([markup], { type: 'image/svg+xml' }), `${fileName}.svg`);
+    } else {
+      downloadPng(markup, width, height, `${fileName}.png`);
+    }
+  };
+
+  return (
+    <div className="bg-white dark:bg-zinc-900 rounded-xl border border-zinc-200/60 dark:border-zinc-800/60 shadow-lg shadow-zinc-200/20 dark:shadow-zinc-900/50 overflow-hidden">
+      <div className="px-6 py-3 bg-gradient-to-r from-zinc-50 to-zinc-100/50 dark:from-zinc-800/50 dark:to-zinc-800/30 border-b border-zinc-200 dark:border-zinc-700 flex flex-wrap items-center gap-2">
+        <select
+          value={table.name}
+          onChange={(e) => {
+            const next = tables.find(({ name: tableName }) => tableName === e.target.value);
+            if (next) onChange({ table: next.name, column: defaultColumn(next) });
+          }}
+          aria-label="Table"
+          className={selectClass}
+        >
+          {Array.from(new Set(tables.map(({ name: tableName }) => tableName))).map(tableName => (
+            <option key={tableName} value={tableName}>{tableName}</option>
+          ))}
+        </select>
+        <select
+          value={column}
+          onChange={(e) => onChange({ table: table.name, column: e.target.value })}
+          aria-label="Column"
+          className={`${selectClass} max-w-xs`}
+        >
+          {table.headers.map(header => (
+            <option key={header} value={header}>{header}</option>
+          ))}
+        </select>
+        <select
+          value={kind}
+          onChange={(e) => onChange({ table: table.name, column, kind: e.target.value as ChartKind })}
+          aria-label="Chart type"
+          className={selectClass}
+        >
+          {CHART_KINDS.map(({ value, label }) => (
+            <option key={value} value={value}>{label}</option>
+          ))}
+        </select>
+        <span className="text-xs text-zinc-500 dark:text-zinc-400">
+          {data.plotted} {data.plotted === 1 ? 'value' : 'values'}
+          {data.skipped > 0 && `, ${data.skipped} skipped`}
+        </span>
+        <div className="flex-1" />
+        <button onClick={() => exportChart('svg')} className={buttonClass} disabled={data.bins.length === 0}>
+          SVG
+        </button>
+        <button onClick={() => exportChart('png')} className={buttonClass} disabled={data.bins.length === 0}>
+          PNG
+        </button>
+      </div>
+      <div className="p-6 max-h-[640px] overflow-auto text-zinc-700 dark:text-zinc-300">
+        {data.bins.length === 0 ? (
+          <p className="py-16 text-center text-sm text-zinc-400 dark:text-zinc-500">
+            {kind === 'bar' ? 'No values in this column' : kind === 'histogram' ? 'No numbers in this column' : 'No ISO dates in this column'}
+          </p>
+        ) : (
+          <Chart ref={svgRef} data={data} title={title} />
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,135 @@
+'use client';
+
+import { useEffect, useImperativeHandle, useRef } from 'react';
+import type React from 'react';
+import { basicSetup } from 'codemirror';
+import { Annotation, Compartment, EditorState, type Extension } from '@codemirror/state';
+import { EditorView, placeholder as placeholderText } from '@codemirror/view';
+import { json } from '@codemirror/lang-json';
+import { yaml } from '@codemirror/lang-yaml';
+import { oneDark } from '@codemirror/theme-one-dark';
+
+export type EditorLanguage = 'json' | 'yaml' | 'text';
+
+export interface CodeEditorHandle {
+  // Focus the editor with the cursor at `offset`, scrolled into view
+  focusAt: (offset: number) => void;
+}
+
+interface CodeEditorProps {
+  value: string;
+  // Without onChange the editor is read-only
+  onChange?: (value: string) => void;
+  language?: EditorLanguage;
+  placeholder?: string;
+  // Range to reveal and select, e.g. the value of the selected JSON Pointer
+  selection?: { from: number; to: number } | null;
+  // Cursor moves made by the user (not by `value` or `selection` updates)
+  onCursorChange?: (offset: number) => void;
+  className?: string;
+  ref?: React.Ref<CodeEditorHandle>;
+}
+
+// Marks transactions that come from props rather than the user
+const external = Annotation.define<boolean>();
+
+const languageExtension = (language: EditorLanguage): Extension =>
+  language === 'json' ? json() : language === 'yaml' ? yaml() : [];
+
+const baseTheme = EditorView.theme({
+  '&': { height: '100%', fontSize: '0.8125rem' },
+  '.cm-scroller': { fontFamily: 'var(--font-geist-mono), ui-monospace, monospace', overflow: 'auto' },
+  '&.cm-focused': { outline: 'none' },
+});
+
+// CodeMirror editor with line numbers, folding and syntax highlighting. Size
+// and border come from `className`.
+export default function CodeEditor({
+  value,
+  onChange,
+  language = 'json',
+  placeholder = '',
+  selection,
+  onCursorChange,
+  className = '',
+  ref,
+}: CodeEditorProps) {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const viewRef = useRef<EditorView | null>(null);
+  const languageRef = useRef(new Compartment());
+  // Latest callbacks, read by the listener set up once on mount
+  const callbacksRef = useRef({ onChange, onCursorChange });
+  callbacksRef.current = { onChange, onCursorChange };
+
+  useEffect(() => {
+    if (!containerRef.current) return;
+    const dark = window.matchMedia('(prefers-color-scheme: dark)').matches;
+    const view = new EditorView({
+      parent: containerRef.current,
+      state: EditorState.create({
+        doc: value,
+        extensions: [
+          basicSetup,
+          baseTheme,
+          dark ? oneDark : [],
+          languageRef.current.of(languageExtension(language)),
+          placeholderText(placeholder),
+          EditorState.readOnly.of(!onChange),
+          EditorView.updateListener.of(update => {
+            if (update.transactions.some(transaction => transaction.annotation(external))) return;
+            if (update.docChanged) callbacksRef.current.onChange?.(update.state.doc.toString());
+            else if (update.selectionSet) callbacksRef.current.onCursorChange?.(update.state.selection.main.from);
+          }),
+        ],
+      }),
+    });
+    viewRef.current = view;
+    return () => {
+      view.destroy();
+      viewRef.current = null;
+    };
+    // The editor is created once; later prop changes are applied below
+  }, []);
+
+  // Replace the document when `value` changes from outside, e.g. a file upload
+  useEffect(() => {
+    const view = viewRef.current;
+    if (!view || view.state.doc.toString() === value) return;
+    view.dispatch({
+      changes: { from: 0, to: view.state.doc.length, insert: value },
+      annotations: external.of(true),
+    });
+  }, [value]);
+
+  useEffect(() => {
+    viewRef.current?.dispatch({ effects: languageRef.current.reconfigure(languageExtension(language)) });
+  }, [language]);
+
+  // Reveal the selected range unless the user is working in the editor or the
+  // cursor is already inside it
+  useEffect(() => {
+    const view = viewRef.current;
+    if (!view || view.hasFocus || !selection || selection.to > view.state.doc.length) return;
+    const { from } = view.state.selection.main;
+    if (from >= selection.from && from <= selection.to) return;
+    view.dispatch({
+      selection: { anchor: selection.from, head: selection.to },
+      effects: EditorView.scrollIntoView(selection.from, { y: 'center' }),
+      annotations: external.of(true),
+    });
+  }, [selection?.from, selection?.to]);
+
+  useImperativeHandle(ref, () => ({
+    focusAt: (offset: number) => {
+      const view = viewRef.current;
+      if (!view) return;
+      const anchor = Math.min(offset, view.state.doc.length);
+      view.dispatch({ selection: { anchor }, effects: EditorView.scrollIntoView(anchor, { y: 'center' }) });
+      view.focus();
+    },
+  }), []);
+
+  return (
+    <div ref={containerRef} className={`overflow-hidden ${className}`} />
+  );
+}
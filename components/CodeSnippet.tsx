@@ -0,0 +1,51 @@
+'use client';
+
+import { useState } from 'react';
+import { maskSecret, type TrivyCodeLine } from '@/lib/trivy';
+
+interface CodeSnippetProps {
+  lines: TrivyCodeLine[];
+  // Hide the cause lines until revealed, for secrets
+  masked?: boolean;
+}
+
+const revealClass = 'text-[11px] font-medium text-blue-600 dark:text-blue-400 hover:underline';
+
+// Numbered source lines from a Trivy finding, with the lines that caused it
+// highlighted
+export default function CodeSnippet({ lines, masked = false }: CodeSnippetProps) {
+  const [revealed, setRevealed] = useState(false);
+  const hidden = masked && !revealed;
+
+  return (
+    <div className="space-y-1">
+      <pre className="text-xs font-mono leading-5 overflow-x-auto rounded-md border border-zinc-200 dark:border-zinc-700 bg-zinc-50 dark:bg-zinc-950/50 py-1">
+        {lines.map((line, index) => (
+          <div
+            key={index}
+            className={`flex gap-3 px-2 ${line.IsCause ? 'bg-red-50 dark:bg-red-950/30 text-red-800 dark:text-red-300' : 'text-zinc-600 dark:text-zinc-400'}`}
+          >
+            <span className="w-8 shrink-0 text-right text-zinc-400 dark:text-zinc-500 select-none">{line.Number}</span>
+            <span className="whitespace-pre">
+              {hidden && line.IsCause ? maskSecret(line.Content) : line.Content}
+              {line.Truncated && <span className="text-zinc-400 dark:text-zinc-500"> …</span>}
+            </span>
+            {line.Annotation && <span className="ml-auto pl-4 text-zinc-400 dark:text-zinc-500 whitespace-nowrap">{line.Annotation}</span>}
+          </div>
+        ))}
+      </pre>
+      {masked && (
+        <button
+          onClick={(e) => {
+            e.stopPropagation();
+            setRevealed(prev => !prev);
+          }}
+          className={revealClass}
+          aria-pressed={revealed}
+        >
+          {revealed ? 'Hide secret' : 'Reveal secret'}
+        </button>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,144 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import type { ColumnSettings } from '@/lib/columns';
+
+interface ColumnChooserProps {
+  // Every column in display order, hidden ones included
+  columns: string[];
+  settings: ColumnSettings;
+  onChange: (settings: ColumnSettings) => void;
+  onReset: () => void;
+}
+
+const toggle = (list: string[], item: string) => (list.includes(item) ? list.filter(entry => entry !== item) : [...list, item]);
+
+// Columns button with a dropdown to show, hide, pin and drag-reorder a table's
+// columns. Fixed-positioned like the export menu so table cards don't clip it.
+export default function ColumnChooser({ columns, settings, onChange, onReset }: ColumnChooserProps) {
+  const [position, setPosition] = useState<{ top: number; right: number } | null>(null);
+  const [dragged, setDragged] = useState<string | null>(null);
+  const open = position !== null;
+  const menuRef = useRef<HTMLDivElement>(null);
+  const hiddenCount = columns.filter(column => settings.hidden.includes(column)).length;
+
+  useEffect(() => {
+    if (!open) return;
+    const close = (event: Event) => {
+      if (event instanceof KeyboardEvent ? event.key === 'Escape' : !menuRef.current?.contains(event.target as Node)) {
+        setPosition(null);
+      }
+    };
+    document.addEventListener('mousedown', close);
+    document.addEventListener('keydown', close);
+    return () => {
+      document.removeEventListener('mousedown', close);
+      document.removeEventListener('keydown', close);
+    };
+  }, [open]);
+
+  const moveBefore = (column: string, target: string) => {
+    if (column === target) return;
+    const order = columns.filter(entry => entry !== column);
+    order.splice(order.indexOf(target), 0, column);
+    onChange({ ...settings, order });
+  };
+
+  return (
+    <div ref={menuRef} className="relative">
+      <button
+        onClick={(e) => {
+          e.stopPropagation();
+          const rect = e.currentTarget.getBoundingClientRect();
+          setPosition(open ? null : { top: rect.bottom + 4, right: window.innerWidth - rect.right });
+        }}
+        className="px-3 py-1.5 text-xs font-medium text-zinc-600 dark:text-zinc-400 hover:text-blue-600 dark:hover:text-blue-400 bg-white dark:bg-zinc-700 hover:bg-blue-50 dark:hover:bg-blue-900/30 rounded-md border border-zinc-200 dark:border-zinc-600 hover:border-blue-300 dark:hover:border-blue-700 transition-colors flex items-center gap-1.5"
+        aria-haspopup="dialog"
+        aria-expanded={open}
+        title="Choose columns"
+      >
+        <svg className="w-3.5 h-3.5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 17V7m0 10a2 2 0 01-2 2H5a2 2 0 01-2-2V7a2 2 0 012-2h2a2 2 0 012 2m0 10a2 2 0 002 2h2a2 2 0 002-2M9 7a2 2 0 012-2h2a2 2 0 012 2m0 10V7m0 10a2 2 0 002 2h2a2 2 0 002-2V7a2 2 0 00-2-2h-2a2 2 0 00-2 2" />
+        </svg>
+        Columns
+        {hiddenCount > 0 && <span className="text-[10px] text-zinc-400 dark:text-zinc-500">{hiddenCount} hidden</span>}
+      </button>
+      {open && (
+        <div
+          role="dialog"
+          aria-label="Columns"
+          onClick={(e) => e.stopPropagation()}
+          style={position}
+          className="fixed z-30 w-72 bg-white dark:bg-zinc-800 rounded-md border border-zinc-200 dark:border-zinc-700 shadow-lg"
+        >
+          <ul className="max-h-80 overflow-auto py-1">
+            {columns.map(column => {
+              const hidden = settings.hidden.includes(column);
+              const pinned = settings.pinned.includes(column);
+              return (
+                <li
+                  key={column}
+                  draggable
+                  onDragStart={(e) => {
+                    setDragged(column);
+                    e.dataTransfer.effectAllowed = 'move';
+                  }}
+                  onDragOver={(e) => {
+                    if (dragged === null) return;
+                    e.preventDefault();
+                    e.dataTransfer.dropEffect = 'move';
+                  }}
+                  onDrop={(e) => {
+                    e.preventDefault();
+                    if (dragged !== null) moveBefore(dragged, column);
+                    setDragged(null);
+                  }}
+                  onDragEnd={() => setDragged(null)}
+                  className={`flex items-center gap-2 px-3 py-1.5 text-xs text-zinc-700 dark:text-zinc-300 hover:bg-zinc-50 dark:hover:bg-zinc-700/50 ${
+                    dragged === column ? 'opacity-50' : ''
+                  }`}
+                >
+                  <span className="cursor-grab text-zinc-400 dark:text-zinc-500" aria-hidden="true">⋮⋮</span>
+                  <label className="flex items-center gap-2 flex-1 min-w-0 cursor-pointer">
+                    <input
+                      type="checkbox"
+                      checked={!hidden}
+                      onChange={() => onChange({ ...settings, hidden: toggle(settings.hidden, column) })}
+                    />
+                    <span className={`truncate ${hidden ? 'text-zinc-400 dark:text-zinc-500' : ''}`}>{column}</span>
+                  </label>
+                  <button
+                    onClick={() => onChange({ ...settings, pinned: toggle(settings.pinned, column) })}
+                    className={`px-1.5 py-0.5 text-[10px] font-medium rounded border transition-colors ${
+                      pinned
+                        ? 'text-blue-700 dark:text-blue-300 bg-blue-50 dark:bg-blue-900/30 border-blue-200 dark:border-blue-800'
+                        : 'text-zinc-500 dark:text-zinc-400 border-zinc-200 dark:border-zinc-700 hover:text-zinc-900 dark:hover:text-zinc-100'
+                    }`}
+                    aria-pressed={pinned}
+                    title={pinned ? 'Unpin column' : 'Pin column to the left'}
+                  >
+                    Pin
+                  </button>
+                </li>
+              );
+            })}
+          </ul>
+          <div className="flex justify-between px-3 py-2 border-t border-zinc-200 dark:border-zinc-700">
+            <button
+              onClick={() => onChange({ ...settings, hidden: [] })}
+              className="text-xs font-medium text-zinc-600 dark:text-zinc-400 hover:text-zinc-900 dark:hover:text-zinc-100 transition-colors"
+            >
+              Show all
+            </button>
+            <button
+              onClick={onReset}
+              className="text-xs font-medium text-zinc-600 dark:text-zinc-400 hover:text-zinc-900 dark:hover:text-zinc-100 transition-colors"
+            >
+              Reset
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,121 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import type React from 'react';
+
+export interface Command {
+  id: string;
+  label: string;
+  // Key hint shown beside the label
+  shortcut?: string;
+  run: () => void;
+}
+
+interface CommandPaletteProps {
+  commands: Command[];
+  onClose: () => void;
+}
+
+// Commands whose label contains every word typed, in any order
+const matchCommands = (commands: Command[], filter: string): Command[] => {
+  const words = filter.toLowerCase().split(/\s+/).filter(Boolean);
+  return commands.filter(({ label }) => words.every(word => label.toLowerCase().includes(word)));
+};
+
+// Ctrl+K dialog for running page actions by name. Focus returns to where it
+// was when the dialog opened.
+export default function CommandPalette({ commands, onClose }: CommandPaletteProps) {
+  const [filter, setFilter] = useState('');
+  const [activeIndex, setActiveIndex] = useState(0);
+  const listRef = useRef<HTMLUListElement>(null);
+  // Read while rendering, before the filter input takes focus
+  const [previousFocus] = useState(() => document.activeElement as HTMLElement | null);
+  const matches = matchCommands(commands, filter);
+  const active = Math.min(activeIndex, matches.length - 1);
+
+  useEffect(() => {
+    listRef.current?.children[active]?.scrollIntoView({ block: 'nearest' });
+  }, [active]);
+
+  // Focus goes back before a command runs, so commands can move it elsewhere
+  const close = () => {
+    previousFocus?.focus();
+    onClose();
+  };
+
+  const run = (command: Command | undefined) => {
+    if (!command) return;
+    close();
+    command.run();
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+      e.preventDefault();
+      if (matches.length === 0) return;
+      const step = e.key === 'ArrowDown' ? 1 : -1;
+      setActiveIndex((active + step + matches.length) % matches.length);
+    } else if (e.key === 'Enter') {
+      e.preventDefault();
+      run(matches[active]);
+    } else if (e.key === 'Escape' || (e.key.toLowerCase() === 'k' && (e.ctrlKey || e.metaKey))) {
+      e.preventDefault();
+      e.stopPropagation();
+      close();
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-start justify-center pt-[15vh] px-4" onClick={close}>
+      <div className="absolute inset-0 bg-zinc-900/20 dark:bg-black/40" />
+      <div
+        role="dialog"
+        aria-modal="true"
+        aria-label="Command palette"
+        onClick={(e) => e.stopPropagation()}
+        className="relative w-full max-w-lg bg-white dark:bg-zinc-900 border border-zinc-200 dark:border-zinc-800 rounded-xl shadow-xl overflow-hidden"
+      >
+        <input
+          autoFocus
+          value={filter}
+          onChange={(e) => {
+            setFilter(e.target.value);
+            setActiveIndex(0);
+          }}
+          onKeyDown={handleKeyDown}
+          placeholder="Type a command..."
+          role="combobox"
+          aria-expanded="true"
+          aria-controls="command-palette-list"
+          aria-activedescendant={matches[active] ? `command-${matches[active].id}` : undefined}
+          aria-autocomplete="list"
+          className="w-full px-4 py-3 text-sm bg-transparent text-zinc-900 dark:text-zinc-100 placeholder:text-zinc-400 border-b border-zinc-200 dark:border-zinc-800 focus:outline-none"
+        />
+        {matches.length === 0 ? (
+          <p className="px-4 py-6 text-xs text-zinc-400 dark:text-zinc-500">No matching commands</p>
+        ) : (
+          <ul ref={listRef} id="command-palette-list" role="listbox" aria-label="Commands" className="max-h-80 overflow-y-auto py-1">
+            {matches.map((command, index) => (
+              <li
+                key={command.id}
+                id={`command-${command.id}`}
+                role="option"
+                aria-selected={index === active}
+                onMouseMove={() => index !== active && setActiveIndex(index)}
+                onClick={() => run(command)}
+                className={`flex items-center justify-between px-4 py-2 text-sm cursor-pointer ${
+                  index === active ? 'bg-blue-50 dark:bg-blue-900/30 text-blue-700 dark:text-blue-300' : 'text-zinc-700 dark:text-zinc-300'
+                }`}
+              >
+                {command.label}
+                {command.shortcut && (
+                  <kbd className="ml-4 text-xs font-mono text-zinc-400 dark:text-zinc-500">{command.shortcut}</kbd>
+                )}
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+}
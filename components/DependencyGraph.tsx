@@ -0,0 +1,179 @@
+'use client';
+
+import { useMemo, useState } from 'react';
+import type React from 'react';
+import type { Severity } from '@/lib/trivy';
+import { dependencyPaths, vulnerableBranches, type Sbom, type SbomComponent } from '@/lib/sbom';
+
+interface DependencyGraphProps {
+  sbom: Sbom;
+  renderSeverity: (severity: Severity, label: React.ReactNode) => React.ReactNode;
+}
+
+// Matches listed while searching, before asking for a narrower search
+const MAX_MATCHES = 100;
+
+const fieldClass =
+  'px-2 py-1.5 text-xs bg-white dark:bg-zinc-900 text-zinc-900 dark:text-zinc-100 border border-zinc-200 dark:border-zinc-700 rounded focus:outline-none focus:border-zinc-400 dark:focus:border-zinc-600 transition-colors';
+
+const label = (component: SbomComponent | undefined, ref: string): string =>
+  component ? (component.version ? `${component.name}@${component.version}` : component.name) : ref;
+
+// Dependency tree from the SBOM's roots, expanded a level at a time. Picking a
+// component lists the chains that pull it in, top-level dependency first.
+export default function DependencyGraph({ sbom, renderSeverity }: DependencyGraphProps) {
+  // Tree nodes by their path from the root, since a package can sit under many parents
+  const [expanded, setExpanded] = useState<Set<string>>(() => new Set(sbom.roots.length === 1 ? sbom.roots : []));
+  const [selected, setSelected] = useState<string | null>(null);
+  const [search, setSearch] = useState('');
+  const [vulnerableOnly, setVulnerableOnly] = useState(false);
+
+  const byRef = useMemo(() => new Map(sbom.components.map(component => [component.ref, component])), [sbom]);
+  const branches = useMemo(() => vulnerableBranches(sbom), [sbom]);
+  const paths = useMemo(() => (selected ? dependencyPaths(sbom, selected) : []), [sbom, selected]);
+  const matches = useMemo(() => {
+    const text = search.trim().toLowerCase();
+    if (!text) return [];
+    return sbom.components.filter(component => label(component, component.ref).toLowerCase().includes(text) || component.purl?.toLowerCase().includes(text));
+  }, [sbom, search]);
+
+  const children = (ref: string) => (sbom.dependencies[ref] ?? []).filter(child => !vulnerableOnly || branches.has(child));
+  const roots = sbom.roots.filter(ref => !vulnerableOnly || branches.has(ref));
+
+  const toggle = (key: string) =>
+    setExpanded(prev => {
+      const next = new Set(prev);
+      if (next.has(key)) next.delete(key);
+      else next.add(key);
+      return next;
+    });
+
+  const renderName = (ref: string) => {
+    const vulnerability = sbom.vulnerable[ref];
+    return (
+      <button
+        onClick={() => setSelected(ref)}
+        className={`flex items-center gap-2 min-w-0 text-left rounded px-1 ${selected === ref ? 'bg-blue-100 dark:bg-blue-900/40' : 'hover:bg-zinc-100 dark:hover:bg-zinc-800'}`}
+      >
+        <span className="truncate font-mono text-xs text-zinc-900 dark:text-zinc-100">{label(byRef.get(ref), ref)}</span>
+        {vulnerability && renderSeverity(vulnerability.severity, `${vulnerability.ids.length} ${vulnerability.severity}`)}
+      </button>
+    );
+  };
+
+  const renderNode = (ref: string, path: string[], depth: number): React.ReactNode => {
+    const key = [...path, ref].join('\u0000');
+    const cycle = path.includes(ref);
+    const childRefs = cycle ? [] : children(ref);
+    const isExpanded = expanded.has(key);
+    return (
+      <li key={key} role="treeitem" aria-expanded={childRefs.length > 0 ? isExpanded : undefined} aria-level={depth + 1}>
+        <div className="flex items-center gap-1 py-0.5" style={{ paddingLeft: depth * 16 }}>
+          {childRefs.length > 0 ? (
+            <button
+              onClick={() => toggle(key)}
+              className="w-4 h-4 flex items-center justify-center text-zinc-500 hover:text-zinc-900 dark:hover:text-zinc-100"
+              aria-label={isExpanded ? 'Collapse' : 'Expand'}
+            >
+              <svg className={`w-3 h-3 transition-transform ${isExpanded ? 'rotate-90' : ''}`} fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 5l7 7-7 7" />
+              </svg>
+            </button>
+          ) : (
+            <span className="w-4" />
+          )}
+          {renderName(ref)}
+          {cycle && <span className="text-[11px] text-zinc-400 dark:text-zinc-500">(cycle)</span>}
+          {!isExpanded && childRefs.length > 0 && (
+            <span className="text-[11px] text-zinc-400 dark:text-zinc-500">{childRefs.length}</span>
+          )}
+        </div>
+        {isExpanded && (
+          <ul role="group">{childRefs.map(child => renderNode(child, [...path, ref], depth + 1))}</ul>
+        )}
+      </li>
+    );
+  };
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-[3fr_2fr] gap-4">
+      <div className="space-y-2 min-w-0">
+        <div className="flex items-center gap-3">
+          <input
+            type="search"
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            placeholder="Find a component..."
+            aria-label="Find a component"
+            className={`${fieldClass} flex-1`}
+          />
+          <label className="flex items-center gap-1.5 text-xs text-zinc-600 dark:text-zinc-400 whitespace-nowrap">
+            <input type="checkbox" checked={vulnerableOnly} onChange={(e) => setVulnerableOnly(e.target.checked)} />
+            Vulnerable paths only
+          </label>
+        </div>
+        <div className="max-h-[480px] overflow-auto rounded-md border border-zinc-200 dark:border-zinc-700 p-2">
+          {search.trim() ? (
+            matches.length === 0 ? (
+              <p className="text-xs text-zinc-400 dark:text-zinc-500">No matching components</p>
+            ) : (
+              <ul>
+                {matches.slice(0, MAX_MATCHES).map(component => (
+                  <li key={component.ref} className="py-0.5">{renderName(component.ref)}</li>
+                ))}
+                {matches.length > MAX_MATCHES && (
+                  <li className="pt-1 text-[11px] text-zinc-400 dark:text-zinc-500">{matches.length - MAX_MATCHES} more, refine the search</li>
+                )}
+              </ul>
+            )
+          ) : roots.length === 0 ? (
+            <p className="text-xs text-zinc-400 dark:text-zinc-500">{vulnerableOnly ? 'No vulnerable components' : 'No dependencies recorded'}</p>
+          ) : (
+            <ul role="tree" aria-label="Dependencies">{roots.map(ref => renderNode(ref, [], 0))}</ul>
+          )}
+        </div>
+      </div>
+
+      <div className="min-w-0 rounded-md border border-zinc-200 dark:border-zinc-700 p-3 space-y-2">
+        {selected === null ? (
+          <p className="text-xs text-zinc-400 dark:text-zinc-500">Pick a component to see what pulls it in</p>
+        ) : (
+          <>
+            <div className="flex items-center gap-2 min-w-0">
+              <h4 className="text-sm font-semibold text-zinc-900 dark:text-zinc-100 truncate">{label(byRef.get(selected), selected)}</h4>
+              {sbom.vulnerable[selected] && (
+                <span className="text-xs text-zinc-500 dark:text-zinc-400 truncate">{sbom.vulnerable[selected].ids.join(', ')}</span>
+              )}
+            </div>
+            {sbom.roots.includes(selected) ? (
+              <p className="text-xs text-zinc-500 dark:text-zinc-400">Top-level component</p>
+            ) : paths.length === 0 ? (
+              <p className="text-xs text-zinc-500 dark:text-zinc-400">Nothing in the graph depends on it</p>
+            ) : (
+              <>
+                <p className="text-[11px] font-semibold uppercase tracking-wider text-zinc-500 dark:text-zinc-400">Pulled in by</p>
+                <ol className="space-y-1.5 max-h-[420px] overflow-auto">
+                  {paths.map(path => (
+                    <li key={path.join('\u0000')} className="text-xs font-mono text-zinc-700 dark:text-zinc-300 break-all">
+                      {path.map((ref, index) => (
+                        <span key={index}>
+                          {index > 0 && <span className="text-zinc-400"> → </span>}
+                          <button
+                            onClick={() => setSelected(ref)}
+                            className={`hover:underline ${index === (path[0] === sbom.application ? 1 : 0) ? 'font-semibold text-blue-700 dark:text-blue-300' : ''}`}
+                          >
+                            {label(byRef.get(ref), ref)}
+                          </button>
+                        </span>
+                      ))}
+                    </li>
+                  ))}
+                </ol>
+              </>
+            )}
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
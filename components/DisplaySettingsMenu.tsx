@@ -0,0 +1,142 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import {
+  DEFAULT_DISPLAY_SETTINGS,
+  DISPLAY_KINDS,
+  formatDisplayRules,
+  parseDisplayRules,
+  type DisplaySettings,
+} from '@/lib/value-display';
+
+interface DisplaySettingsMenuProps {
+  settings: DisplaySettings;
+  onChange: (settings: DisplaySettings) => void;
+}
+
+const fieldClass =
+  'w-full px-2 py-1 text-xs bg-white dark:bg-zinc-900 text-zinc-700 dark:text-zinc-300 border border-zinc-200 dark:border-zinc-700 rounded focus:outline-none focus:border-zinc-400 dark:focus:border-zinc-500';
+
+const labelClass = 'block text-[11px] font-semibold uppercase tracking-wider text-zinc-500 dark:text-zinc-400';
+
+const linkClass = 'text-xs font-medium text-zinc-600 dark:text-zinc-400 hover:text-zinc-900 dark:hover:text-zinc-100 transition-colors';
+
+// Display button with a dropdown for how cell values are rendered: the
+// advisory link, truncation and per-column display rules
+export default function DisplaySettingsMenu({ settings, onChange }: DisplaySettingsMenuProps) {
+  const [position, setPosition] = useState<{ top: number; right: number } | null>(null);
+  const open = position !== null;
+  const menuRef = useRef<HTMLDivElement>(null);
+  // Rules as typed; applied whenever they parse
+  const [rulesText, setRulesText] = useState(() => formatDisplayRules(settings.rules));
+  const [rulesError, setRulesError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!open) return;
+    const close = (event: Event) => {
+      if (event instanceof KeyboardEvent ? event.key === 'Escape' : !menuRef.current?.contains(event.target as Node)) {
+        setPosition(null);
+      }
+    };
+    document.addEventListener('mousedown', close);
+    document.addEventListener('keydown', close);
+    return () => {
+      document.removeEventListener('mousedown', close);
+      document.removeEventListener('keydown', close);
+    };
+  }, [open]);
+
+  const updateRules = (text: string) => {
+    setRulesText(text);
+    try {
+      onChange({ ...settings, rules: parseDisplayRules(text) });
+      setRulesError(null);
+    } catch (e) {
+      setRulesError(e instanceof Error ? e.message : String(e));
+    }
+  };
+
+  return (
+    <div ref={menuRef} className="relative">
+      <button
+        onClick={(e) => {
+          const rect = e.currentTarget.getBoundingClientRect();
+          if (!open) setRulesText(formatDisplayRules(settings.rules));
+          setPosition(open ? null : { top: rect.bottom + 4, right: window.innerWidth - rect.right });
+        }}
+        className="px-3 py-1.5 text-xs font-medium text-zinc-600 dark:text-zinc-400 hover:text-zinc-900 dark:hover:text-zinc-100 transition-colors border border-zinc-200 dark:border-zinc-700 rounded hover:bg-zinc-50 dark:hover:bg-zinc-800"
+        aria-haspopup="dialog"
+        aria-expanded={open}
+        title="How values are displayed"
+      >
+        Display
+      </button>
+      {open && (
+        <div
+          role="dialog"
+          aria-label="Display settings"
+          style={position}
+          className="fixed z-30 w-96 p-3 space-y-3 bg-white dark:bg-zinc-800 rounded-md border border-zinc-200 dark:border-zinc-700 shadow-lg"
+        >
+          <label className="block space-y-1">
+            <span className={labelClass}>Advisory link</span>
+            <input
+              value={settings.advisoryUrl}
+              onChange={(e) => onChange({ ...settings, advisoryUrl: e.target.value })}
+              placeholder={DEFAULT_DISPLAY_SETTINGS.advisoryUrl}
+              className={`${fieldClass} font-mono`}
+            />
+            <span className="block text-[11px] text-zinc-400 dark:text-zinc-500">CVE and GHSA IDs link here, with {'{id}'} replaced by the ID</span>
+          </label>
+
+          <label className="block space-y-1">
+            <span className={labelClass}>Truncate text after</span>
+            <div className="flex items-center gap-2">
+              <input
+                type="number"
+                min={0}
+                step={50}
+                value={settings.truncateAt}
+                onChange={(e) => onChange({ ...settings, truncateAt: Math.max(0, Number(e.target.value) || 0) })}
+                className={`${fieldClass} w-24`}
+              />
+              <span className="text-xs text-zinc-500 dark:text-zinc-400">characters (0 shows everything)</span>
+            </div>
+          </label>
+
+          <label className="block space-y-1">
+            <span className={labelClass}>Display rules</span>
+            <textarea
+              value={rulesText}
+              onChange={(e) => updateRules(e.target.value)}
+              placeholder={'/Results/*/Vulnerabilities/*/PrimaryURL = url\nDescription = text'}
+              spellCheck={false}
+              className={`${fieldClass} h-24 font-mono resize-y`}
+            />
+            {rulesError ? (
+              <span className="block text-[11px] text-red-600 dark:text-red-500">{rulesError}</span>
+            ) : (
+              <span className="block text-[11px] text-zinc-400 dark:text-zinc-500">
+                One &quot;path = display&quot; per line; a path is a column name or a JSON Pointer with * for any index.
+                Displays: {DISPLAY_KINDS.map(({ value }) => value).join(', ')}
+              </span>
+            )}
+          </label>
+
+          <div className="flex justify-end pt-2 border-t border-zinc-200 dark:border-zinc-700">
+            <button
+              onClick={() => {
+                onChange(DEFAULT_DISPLAY_SETTINGS);
+                setRulesText('');
+                setRulesError(null);
+              }}
+              className={linkClass}
+            >
+              Reset
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,84 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import { EXPORT_FORMATS, type ExportFormat } from '@/lib/export';
+
+interface ExportMenuProps {
+  onExport: (format: ExportFormat) => void;
+  label?: string;
+  // Restrict the menu to formats that can hold several tables
+  multiTableOnly?: boolean;
+}
+
+// Export button with a dropdown of the available file formats. The dropdown
+// is fixed-positioned so table cards with overflow-hidden don't clip it.
+export default function ExportMenu({ onExport, label = 'Export', multiTableOnly = false }: ExportMenuProps) {
+  const [position, setPosition] = useState<{ top: number; right: number } | null>(null);
+  const open = position !== null;
+  const menuRef = useRef<HTMLDivElement>(null);
+  const formats = multiTableOnly ? EXPORT_FORMATS.filter(format => format.multiTable) : EXPORT_FORMATS;
+
+  useEffect(() => {
+    if (!open) return;
+    const close = (event: Event) => {
+      if (event instanceof KeyboardEvent ? event.key === 'Escape' : !menuRef.current?.contains(event.target as Node)) {
+        setPosition(null);
+      }
+    };
+    document.addEventListener('mousedown', close);
+    document.addEventListener('keydown', close);
+    window.addEventListener('scroll', close, true);
+    return () => {
+      document.removeEventListener('mousedown', close);
+      document.removeEventListener('keydown', close);
+      window.removeEventListener('scroll', close, true);
+    };
+  }, [open]);
+
+  return (
+    <div ref={menuRef} className="relative">
+      <button
+        onClick={(e) => {
+          e.stopPropagation();
+          const rect = e.currentTarget.getBoundingClientRect();
+          setPosition(open ? null : { top: rect.bottom + 4, right: window.innerWidth - rect.right });
+        }}
+        className="px-3 py-1.5 text-xs font-medium text-zinc-600 dark:text-zinc-400 hover:text-blue-600 dark:hover:text-blue-400 bg-white dark:bg-zinc-700 hover:bg-blue-50 dark:hover:bg-blue-900/30 rounded-md border border-zinc-200 dark:border-zinc-600 hover:border-blue-300 dark:hover:border-blue-700 transition-colors flex items-center gap-1.5"
+        aria-haspopup="menu"
+        aria-expanded={open}
+        title="Export table"
+      >
+        <svg className="w-3.5 h-3.5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 10v6m0 0l-3-3m3 3l3-3m2 8H7a2 2 0 01-2-2V5a2 2 0 012-2h5.586a1 1 0 01.707.293l5.414 5.414a1 1 0 01.293.707V19a2 2 0 01-2 2z" />
+        </svg>
+        {label}
+        <svg className={`w-3 h-3 transition-transform ${open ? 'rotate-180' : ''}`} fill="none" viewBox="0 0 24 24" stroke="currentColor">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 9l-7 7-7-7" />
+        </svg>
+      </button>
+      {open && (
+        <div
+          role="menu"
+          style={position}
+          className="fixed z-30 w-40 py-1 bg-white dark:bg-zinc-800 rounded-md border border-zinc-200 dark:border-zinc-700 shadow-lg"
+        >
+          {formats.map(format => (
+            <button
+              key={format.value}
+              role="menuitem"
+              onClick={(e) => {
+                e.stopPropagation();
+                setPosition(null);
+                onExport(format.value);
+              }}
+              className="w-full px-3 py-1.5 text-left text-xs text-zinc-700 dark:text-zinc-300 hover:bg-blue-50 dark:hover:bg-blue-900/30 hover:text-blue-600 dark:hover:text-blue-400 transition-colors flex items-center justify-between"
+            >
+              {format.label}
+              <span className="text-[10px] text-zinc-400 dark:text-zinc-500">.{format.extension}</span>
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
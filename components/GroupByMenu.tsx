@@ -0,0 +1,169 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import { AGGREGATE_FUNCTIONS, type Aggregate, type AggregateFunction } from '@/lib/table-view';
+
+interface GroupByMenuProps {
+  headers: string[];
+  groupBy: string[];
+  aggregates: Aggregate[];
+  onChange: (groupBy: string[], aggregates: Aggregate[]) => void;
+  onCollapseAll: () => void;
+  onExpandAll: () => void;
+}
+
+const selectClass =
+  'min-w-0 flex-1 px-2 py-1 text-xs bg-white dark:bg-zinc-900 text-zinc-700 dark:text-zinc-300 border border-zinc-200 dark:border-zinc-700 rounded focus:outline-none focus:border-zinc-400 dark:focus:border-zinc-500';
+
+const linkClass = 'text-xs font-medium text-zinc-600 dark:text-zinc-400 hover:text-zinc-900 dark:hover:text-zinc-100 transition-colors';
+
+// Group button with a dropdown to pick grouping levels and per-group
+// aggregates. Fixed-positioned like the export menu so table cards don't clip it.
+export default function GroupByMenu({ headers, groupBy, aggregates, onChange, onCollapseAll, onExpandAll }: GroupByMenuProps) {
+  const [position, setPosition] = useState<{ top: number; right: number } | null>(null);
+  const open = position !== null;
+  const menuRef = useRef<HTMLDivElement>(null);
+  const ungrouped = headers.filter(header => !groupBy.includes(header));
+
+  useEffect(() => {
+    if (!open) return;
+    const close = (event: Event) => {
+      if (event instanceof KeyboardEvent ? event.key === 'Escape' : !menuRef.current?.contains(event.target as Node)) {
+        setPosition(null);
+      }
+    };
+    document.addEventListener('mousedown', close);
+    document.addEventListener('keydown', close);
+    return () => {
+      document.removeEventListener('mousedown', close);
+      document.removeEventListener('keydown', close);
+    };
+  }, [open]);
+
+  const setLevel = (level: number, column: string) =>
+    onChange(groupBy.map((current, index) => (index === level ? column : current)), aggregates);
+
+  const setAggregate = (index: number, aggregate: Aggregate) =>
+    onChange(groupBy, aggregates.map((current, i) => (i === index ? aggregate : current)));
+
+  return (
+    <div ref={menuRef} className="relative">
+      <button
+        onClick={(e) => {
+          e.stopPropagation();
+          const rect = e.currentTarget.getBoundingClientRect();
+          setPosition(open ? null : { top: rect.bottom + 4, right: window.innerWidth - rect.right });
+        }}
+        className={`px-3 py-1.5 text-xs font-medium rounded-md border transition-colors flex items-center gap-1.5 ${
+          groupBy.length > 0
+            ? 'text-blue-700 dark:text-blue-300 bg-blue-50 dark:bg-blue-900/30 border-blue-300 dark:border-blue-700'
+            : 'text-zinc-600 dark:text-zinc-400 hover:text-blue-600 dark:hover:text-blue-400 bg-white dark:bg-zinc-700 hover:bg-blue-50 dark:hover:bg-blue-900/30 border-zinc-200 dark:border-zinc-600 hover:border-blue-300 dark:hover:border-blue-700'
+        }`}
+        aria-haspopup="dialog"
+        aria-expanded={open}
+        title="Group rows"
+      >
+        <svg className="w-3.5 h-3.5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 6h16M4 12h10M4 18h6" />
+        </svg>
+        {groupBy.length > 0 ? `Grouped by ${groupBy.join(' › ')}` : 'Group'}
+      </button>
+      {open && (
+        <div
+          role="dialog"
+          aria-label="Group rows"
+          onClick={(e) => e.stopPropagation()}
+          style={position}
+          className="fixed z-30 w-80 p-3 space-y-3 bg-white dark:bg-zinc-800 rounded-md border border-zinc-200 dark:border-zinc-700 shadow-lg"
+        >
+          <div className="space-y-1.5">
+            <p className="text-[11px] font-semibold uppercase tracking-wider text-zinc-500 dark:text-zinc-400">Group by</p>
+            {groupBy.map((column, level) => (
+              <div key={level} className="flex items-center gap-1.5">
+                <span className="w-4 text-[11px] text-zinc-400 dark:text-zinc-500">{level + 1}.</span>
+                <select value={column} onChange={(e) => setLevel(level, e.target.value)} aria-label={`Group level ${level + 1}`} className={selectClass}>
+                  {[column, ...ungrouped].map(header => (
+                    <option key={header} value={header}>{header}</option>
+                  ))}
+                </select>
+                <button
+                  onClick={() => onChange(groupBy.filter((_, index) => index !== level), aggregates)}
+                  className="px-1.5 text-zinc-400 hover:text-red-600 dark:hover:text-red-400"
+                  aria-label={`Remove group level ${level + 1}`}
+                >
+                  ×
+                </button>
+              </div>
+            ))}
+            {ungrouped.length > 0 && (
+              <select
+                value=""
+                onChange={(e) => onChange([...groupBy, e.target.value], aggregates)}
+                aria-label="Add group level"
+                className={`${selectClass} w-full`}
+              >
+                <option value="">{groupBy.length === 0 ? 'Choose a column...' : 'Then by...'}</option>
+                {ungrouped.map(header => (
+                  <option key={header} value={header}>{header}</option>
+                ))}
+              </select>
+            )}
+          </div>
+
+          <div className="space-y-1.5">
+            <p className="text-[11px] font-semibold uppercase tracking-wider text-zinc-500 dark:text-zinc-400">Aggregates</p>
+            {aggregates.map((aggregate, index) => (
+              <div key={index} className="flex items-center gap-1.5">
+                <select
+                  value={aggregate.fn}
+                  onChange={(e) => setAggregate(index, { ...aggregate, fn: e.target.value as AggregateFunction })}
+                  aria-label="Aggregate function"
+                  className={`${selectClass} flex-none w-24`}
+                >
+                  {AGGREGATE_FUNCTIONS.map(({ value, label }) => (
+                    <option key={value} value={value}>{label}</option>
+                  ))}
+                </select>
+                <select
+                  value={aggregate.column}
+                  onChange={(e) => setAggregate(index, { ...aggregate, column: e.target.value })}
+                  aria-label="Aggregate column"
+                  className={selectClass}
+                >
+                  {headers.map(header => (
+                    <option key={header} value={header}>{header}</option>
+                  ))}
+                </select>
+                <button
+                  onClick={() => onChange(groupBy, aggregates.filter((_, i) => i !== index))}
+                  className="px-1.5 text-zinc-400 hover:text-red-600 dark:hover:text-red-400"
+                  aria-label="Remove aggregate"
+                >
+                  ×
+                </button>
+              </div>
+            ))}
+            <button
+              onClick={() => onChange(groupBy, [...aggregates, { column: headers[0], fn: 'distinct' }])}
+              className={linkClass}
+            >
+              + Add aggregate
+            </button>
+          </div>
+
+          {groupBy.length > 0 && (
+            <div className="flex justify-between pt-2 border-t border-zinc-200 dark:border-zinc-700">
+              <div className="flex gap-3">
+                <button onClick={onExpandAll} className={linkClass}>Expand all</button>
+                <button onClick={onCollapseAll} className={linkClass}>Collapse all</button>
+              </div>
+              <button onClick={() => onChange([], aggregates)} className={linkClass}>
+                Ungroup
+              </button>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,87 @@
+'use client';
+
+import type { HistoryEntry } from '@/lib/history-store';
+
+interface HistorySidebarProps {
+  entries: HistoryEntry[];
+  activeId: string | null;
+  onRestore: (id: string) => void;
+  onDelete: (id: string) => void;
+  onClear: () => void;
+  onClose: () => void;
+}
+
+const formatSize = (bytes: number): string => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+};
+
+// Slide-over list of previously loaded documents, most recent first
+export default function HistorySidebar({ entries, activeId, onRestore, onDelete, onClear, onClose }: HistorySidebarProps) {
+  return (
+    <div className="fixed inset-0 z-40 flex justify-end" onClick={onClose}>
+      <div className="absolute inset-0 bg-zinc-900/20 dark:bg-black/40" />
+      <aside
+        onClick={(e) => e.stopPropagation()}
+        aria-label="Document history"
+        className="relative w-80 max-w-full h-full flex flex-col bg-white dark:bg-zinc-900 border-l border-zinc-200 dark:border-zinc-800 shadow-xl"
+      >
+        <div className="px-4 py-3 flex items-center justify-between border-b border-zinc-200 dark:border-zinc-800">
+          <h2 className="text-sm font-medium text-zinc-700 dark:text-zinc-300">History</h2>
+          <div className="flex items-center gap-2">
+            {entries.length > 0 && (
+              <button
+                onClick={onClear}
+                className="px-2 py-0.5 text-xs font-medium text-zinc-600 dark:text-zinc-400 hover:text-red-600 dark:hover:text-red-400 transition-colors"
+              >
+                Clear all
+              </button>
+            )}
+            <button
+              onClick={onClose}
+              className="p-1 text-zinc-500 hover:text-zinc-900 dark:hover:text-zinc-100 transition-colors"
+              aria-label="Close history"
+            >
+              <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+              </svg>
+            </button>
+          </div>
+        </div>
+        {entries.length === 0 ? (
+          <p className="px-4 py-6 text-xs text-zinc-400 dark:text-zinc-500">
+            Documents you load are saved here in this browser.
+          </p>
+        ) : (
+          <ul className="flex-1 overflow-y-auto divide-y divide-zinc-100 dark:divide-zinc-800">
+            {entries.map(entry => (
+              <li key={entry.id} className={`group flex items-start gap-2 px-4 py-3 ${entry.id === activeId ? 'bg-blue-50/60 dark:bg-blue-950/20' : 'hover:bg-zinc-50 dark:hover:bg-zinc-800/50'}`}>
+                <button onClick={() => onRestore(entry.id)} className="flex-1 min-w-0 text-left">
+                  <p className="text-sm font-medium text-zinc-900 dark:text-zinc-100 truncate" title={entry.name}>
+                    {entry.name}
+                  </p>
+                  <p className="mt-0.5 text-xs text-zinc-500 dark:text-zinc-400">
+                    {new Date(entry.updatedAt).toLocaleString()} · {formatSize(entry.size)}
+                  </p>
+                  {entry.sourceName && entry.sourceName !== entry.name && (
+                    <p className="mt-0.5 text-xs text-zinc-400 dark:text-zinc-500 truncate">{entry.sourceName}</p>
+                  )}
+                </button>
+                <button
+                  onClick={() => onDelete(entry.id)}
+                  className="p-1 text-zinc-400 opacity-0 group-hover:opacity-100 hover:text-red-600 dark:hover:text-red-400 transition-all"
+                  aria-label={`Delete ${entry.name}`}
+                >
+                  <svg className="w-3.5 h-3.5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" />
+                  </svg>
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+      </aside>
+    </div>
+  );
+}
@@ -0,0 +1,29 @@
+'use client';
+
+import { useState } from 'react';
+import { maskSecret } from '@/lib/trivy';
+
+interface MaskedTextProps {
+  text: string;
+}
+
+// A secret's matched text, masked until revealed
+export default function MaskedText({ text }: MaskedTextProps) {
+  const [revealed, setRevealed] = useState(false);
+
+  return (
+    <span className="font-mono text-xs break-all">
+      {revealed ? text : maskSecret(text)}
+      <button
+        onClick={(e) => {
+          e.stopPropagation();
+          setRevealed(prev => !prev);
+        }}
+        className="ml-1.5 text-[11px] font-sans font-medium text-blue-600 dark:text-blue-400 hover:underline whitespace-nowrap"
+        aria-pressed={revealed}
+      >
+        {revealed ? 'Hide' : 'Reveal'}
+      </button>
+    </span>
+  );
+}
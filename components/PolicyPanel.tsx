@@ -0,0 +1,174 @@
+'use client';
+
+import { useRef, useState } from 'react';
+import type React from 'react';
+import type { Severity } from '@/lib/trivy';
+import type { PolicyVerdict } from '@/lib/policy';
+
+interface PolicyPanelProps {
+  policyText: string;
+  onPolicyTextChange: (text: string) => void;
+  verdict: PolicyVerdict | null;
+  error: string | null;
+  // Shows a violating row in its table; rows can't be linked when unset
+  onSelect?: (pointer: string) => void;
+  renderSeverity: (severity: Severity) => React.ReactNode;
+}
+
+// Violations listed per rule before the rest are summarized
+const MAX_VIOLATIONS = 50;
+
+const fieldClass =
+  'w-full px-2 py-1.5 text-xs font-mono bg-white dark:bg-zinc-900 text-zinc-700 dark:text-zinc-300 border border-zinc-200 dark:border-zinc-700 rounded focus:outline-none focus:border-zinc-400 dark:focus:border-zinc-500';
+
+const buttonClass =
+  'px-3 py-1.5 text-xs font-medium text-zinc-600 dark:text-zinc-400 hover:text-zinc-900 dark:hover:text-zinc-100 transition-colors border border-zinc-200 dark:border-zinc-700 rounded hover:bg-zinc-50 dark:hover:bg-zinc-800';
+
+const EXAMPLE_POLICY = `rules:
+  - name: No fixable criticals
+    table: Vulnerabilities
+    severity: CRITICAL
+    fixable: true
+  - name: No highs older than 30 days
+    table: Vulnerabilities
+    severity: HIGH
+    olderThanDays: 30
+  - name: No GPL licenses
+    table: Licenses
+    match: { Name: "GPL*" }
+  - name: No secrets
+    table: Secrets`;
+
+// Policy card of the report view: the rules file, a pass/fail verdict and the
+// rows that break each rule
+export default function PolicyPanel({ policyText, onPolicyTextChange, verdict, error, onSelect, renderSeverity }: PolicyPanelProps) {
+  const [editing, setEditing] = useState(false);
+  const [expanded, setExpanded] = useState<Set<number>>(new Set());
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const toggle = (index: number) =>
+    setExpanded(prev => {
+      const next = new Set(prev);
+      if (next.has(index)) next.delete(index);
+      else next.add(index);
+      return next;
+    });
+
+  const failed = verdict?.rules.filter(rule => !rule.passed).length ?? 0;
+
+  return (
+    <div className="bg-white dark:bg-zinc-900 rounded-xl border border-zinc-200/60 dark:border-zinc-800/60 shadow-lg shadow-zinc-200/20 dark:shadow-zinc-900/50 overflow-hidden">
+      <div className="px-6 py-4 bg-gradient-to-r from-blue-50 via-indigo-50 to-purple-50 dark:from-zinc-800 dark:via-zinc-800 dark:to-zinc-800 border-b border-zinc-200/60 dark:border-zinc-700/60">
+        <div className="flex items-center justify-between gap-4">
+          <div className="flex items-center gap-3">
+            <div className="w-1 h-6 bg-gradient-to-b from-blue-500 to-indigo-600 rounded-full"></div>
+            <h3 className="text-base font-bold text-zinc-900 dark:text-zinc-50 tracking-tight">Policy</h3>
+            {verdict && (
+              <span
+                className={`px-3 py-1 text-xs font-semibold rounded-full border ${
+                  verdict.passed
+                    ? 'text-green-700 dark:text-green-300 bg-green-100 dark:bg-green-900/30 border-green-200 dark:border-green-800'
+                    : 'text-red-700 dark:text-red-300 bg-red-100 dark:bg-red-900/30 border-red-200 dark:border-red-800'
+                }`}
+              >
+                {verdict.passed ? 'Pass' : `Fail: ${failed} of ${verdict.rules.length} ${verdict.rules.length === 1 ? 'rule' : 'rules'}`}
+              </span>
+            )}
+          </div>
+          <div className="flex items-center gap-2">
+            <button onClick={() => fileInputRef.current?.click()} className={buttonClass}>
+              Load rules...
+            </button>
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept=".json,.yaml,.yml"
+              className="hidden"
+              onChange={async (e) => {
+                const file = e.target.files?.[0];
+                e.target.value = '';
+                if (file) onPolicyTextChange(await file.text());
+              }}
+            />
+            <button onClick={() => setEditing(prev => !prev)} aria-expanded={editing} className={buttonClass}>
+              {editing ? 'Done' : 'Edit rules'}
+            </button>
+          </div>
+        </div>
+      </div>
+
+      <div className="px-6 py-4 space-y-3">
+        {editing && (
+          <div className="space-y-1">
+            <textarea
+              value={policyText}
+              onChange={(e) => onPolicyTextChange(e.target.value)}
+              placeholder={EXAMPLE_POLICY}
+              spellCheck={false}
+              aria-label="Policy rules"
+              className={`${fieldClass} h-56 resize-y`}
+            />
+            <p className="text-[11px] text-zinc-400 dark:text-zinc-500">
+              JSON or YAML. Each rule picks rows of one table (Vulnerabilities, Misconfigurations, Secrets, Licenses or Packages) by
+              severity, fixable, olderThanDays and column patterns under match, and fails when more than max (default 0) rows match.
+            </p>
+          </div>
+        )}
+        {error && <p className="text-xs text-red-600 dark:text-red-500">{error}</p>}
+        {!policyText.trim() && !editing && (
+          <p className="text-sm text-zinc-400 dark:text-zinc-500">No policy loaded. Load a JSON or YAML rules file, or write the rules here.</p>
+        )}
+
+        {verdict && verdict.rules.length > 0 && (
+          <ul className="divide-y divide-zinc-100 dark:divide-zinc-800/50">
+            {verdict.rules.map((result, index) => {
+              const isExpanded = expanded.has(index);
+              return (
+                <li key={index} className="py-2">
+                  <button
+                    onClick={() => toggle(index)}
+                    disabled={result.violations.length === 0}
+                    aria-expanded={result.violations.length > 0 ? isExpanded : undefined}
+                    className="w-full flex items-center gap-3 text-left disabled:cursor-default"
+                  >
+                    <span
+                      className={`w-5 h-5 shrink-0 flex items-center justify-center rounded-full text-xs font-bold text-white ${result.passed ? 'bg-green-600' : 'bg-red-600'}`}
+                      aria-label={result.passed ? 'Passed' : 'Failed'}
+                    >
+                      {result.passed ? '✓' : '✗'}
+                    </span>
+                    <span className="flex-1 text-sm font-medium text-zinc-900 dark:text-zinc-100">{result.rule.name}</span>
+                    <span className="text-xs text-zinc-500 dark:text-zinc-400">
+                      {result.violations.length} {result.rule.table}
+                      {result.rule.max > 0 && ` (${result.rule.max} allowed)`}
+                    </span>
+                  </button>
+                  {isExpanded && (
+                    <ul className="mt-2 ml-8 space-y-1">
+                      {result.violations.slice(0, MAX_VIOLATIONS).map(violation => (
+                        <li key={violation.pointer} className="flex items-center gap-2 text-xs">
+                          {violation.severity && renderSeverity(violation.severity)}
+                          {onSelect ? (
+                            <button onClick={() => onSelect(violation.pointer)} className="font-mono text-blue-600 dark:text-blue-400 hover:underline text-left break-all">
+                              {violation.label}
+                            </button>
+                          ) : (
+                            <span className="font-mono text-zinc-700 dark:text-zinc-300 break-all">{violation.label}</span>
+                          )}
+                          <span className="text-zinc-400 dark:text-zinc-500 truncate">{violation.target}</span>
+                        </li>
+                      ))}
+                      {result.violations.length > MAX_VIOLATIONS && (
+                        <li className="text-[11px] text-zinc-400 dark:text-zinc-500">{result.violations.length - MAX_VIOLATIONS} more</li>
+                      )}
+                    </ul>
+                  )}
+                </li>
+              );
+            })}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+}
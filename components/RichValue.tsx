@@ -0,0 +1,143 @@
+'use client';
+
+import { useState } from 'react';
+import type React from 'react';
+import {
+  advisoryLink,
+  decodeBase64,
+  decodeJwt,
+  detectDisplayKind,
+  isTimestamp,
+  isUrl,
+  parseEmbeddedJson,
+  relativeTime,
+  type DisplayKind,
+  type DisplaySettings,
+} from '@/lib/value-display';
+
+interface RichValueProps {
+  value: string;
+  // From the display rules; 'auto' detects it from the value
+  kind: DisplayKind;
+  settings: DisplaySettings;
+  // Marks search matches in text
+  highlight: (text: string) => React.ReactNode;
+  // Renders decoded objects the way table cells render nested values
+  renderNested: (value: unknown) => React.ReactNode;
+}
+
+const toggleClass = 'ml-1.5 text-[11px] font-medium text-blue-600 dark:text-blue-400 hover:underline whitespace-nowrap';
+const linkClass = 'text-blue-600 dark:text-blue-400 hover:underline break-all';
+
+// A string cell shown by what it holds: links for URLs and advisory IDs,
+// local times for timestamps, and embedded JSON or encoded values that open on
+// demand. Long text is cut short until expanded.
+export default function RichValue({ value, kind, settings, highlight, renderNested }: RichValueProps) {
+  const [expanded, setExpanded] = useState(false);
+  const shownKind = kind === 'auto' ? detectDisplayKind(value) : kind;
+
+  const toggle = (label: string, expandedLabel: string) => (
+    <button
+      onClick={(e) => {
+        e.stopPropagation();
+        setExpanded(prev => !prev);
+      }}
+      className={toggleClass}
+      aria-expanded={expanded}
+    >
+      {expanded ? expandedLabel : label}
+    </button>
+  );
+
+  const truncated = settings.truncateAt > 0 && value.length > settings.truncateAt && !expanded;
+  const text = truncated ? `${value.slice(0, settings.truncateAt)}…` : value;
+  const truncateToggle = settings.truncateAt > 0 && value.length > settings.truncateAt && toggle('Show more', 'Show less');
+
+  switch (shownKind) {
+    case 'url':
+      if (!isUrl(value)) break;
+      return (
+        <a href={value} target="_blank" rel="noopener noreferrer" onClick={(e) => e.stopPropagation()} className={linkClass} title={value}>
+          {highlight(text)}
+        </a>
+      );
+
+    case 'advisory':
+      return (
+        <a
+          href={advisoryLink(settings.advisoryUrl, value)}
+          target="_blank"
+          rel="noopener noreferrer"
+          onClick={(e) => e.stopPropagation()}
+          className={`${linkClass} font-mono`}
+        >
+          {highlight(value)}
+        </a>
+      );
+
+    case 'timestamp': {
+      if (!isTimestamp(value)) break;
+      const time = Date.parse(value);
+      return (
+        <time dateTime={value} title={`${value} (${relativeTime(time)})`} className="text-zinc-900 dark:text-zinc-100 whitespace-nowrap">
+          {highlight(new Date(time).toLocaleString())}
+        </time>
+      );
+    }
+
+    case 'json': {
+      const parsed = parseEmbeddedJson(value);
+      if (parsed === undefined) break;
+      return expanded ? (
+        <div>
+          {toggle('Expand JSON', 'Show as text')}
+          <div className="mt-1">{renderNested(parsed)}</div>
+        </div>
+      ) : (
+        <span className="text-zinc-900 dark:text-zinc-100 font-mono text-xs break-all">
+          {highlight(text)}
+          {toggle('Expand JSON', 'Show as text')}
+        </span>
+      );
+    }
+
+    case 'jwt':
+    case 'base64': {
+      const decodeToggle = toggle('Decode', 'Hide decoded');
+      if (!expanded) {
+        return (
+          <span className="text-zinc-900 dark:text-zinc-100 font-mono text-xs break-all">
+            {highlight(text)}
+            {decodeToggle}
+          </span>
+        );
+      }
+      const token = shownKind === 'jwt' ? decodeJwt(value) : null;
+      const decoded = shownKind === 'base64' ? decodeBase64(value) : null;
+      return (
+        <div>
+          <span className="text-zinc-900 dark:text-zinc-100 font-mono text-xs break-all">{highlight(value)}</span>
+          {decodeToggle}
+          <div className="mt-1 pl-3 border-l-2 border-blue-200 dark:border-blue-800">
+            {token ? (
+              renderNested(token)
+            ) : decoded !== null ? (
+              <pre className="text-xs whitespace-pre-wrap break-all text-zinc-700 dark:text-zinc-300">{decoded}</pre>
+            ) : (
+              <span className="text-xs text-red-600 dark:text-red-500">
+                {shownKind === 'jwt' ? 'Not a valid JWT' : 'Not valid base64 text'}
+              </span>
+            )}
+          </div>
+        </div>
+      );
+    }
+  }
+
+  return (
+    <span className="text-zinc-900 dark:text-zinc-100">
+      {highlight(text)}
+      {truncateToggle}
+    </span>
+  );
+}
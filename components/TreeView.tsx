@@ -0,0 +1,241 @@
+'use client';
+
+import { useState } from 'react';
+import type React from 'react';
+import { childPointer, parsePointer, pointerAncestors } from '@/lib/json-pointer';
+import type { Primitive } from '@/lib/json-edit';
+import ValueEditor from './ValueEditor';
+
+interface TreeViewProps {
+  data: unknown;
+  selectedPointer: string | null;
+  onSelect: (pointer: string) => void;
+  // Editing callbacks; without them the tree is read-only
+  onEdit?: (pointer: string, value: Primitive) => void;
+  // Append to the array at `pointer`, or add `key` to the object there
+  onAdd?: (pointer: string, key?: string) => void;
+  onDelete?: (pointer: string) => void;
+}
+
+// Children rendered per expanded node before a "show more" button
+const PAGE_SIZE = 100;
+
+type ValueType = 'object' | 'array' | 'string' | 'number' | 'boolean' | 'null';
+
+const TYPE_STYLES: Record<ValueType, string> = {
+  object: 'text-purple-700 dark:text-purple-300 bg-purple-50 dark:bg-purple-900/30 border-purple-200 dark:border-purple-800',
+  array: 'text-blue-700 dark:text-blue-300 bg-blue-50 dark:bg-blue-900/30 border-blue-200 dark:border-blue-800',
+  string: 'text-green-700 dark:text-green-300 bg-green-50 dark:bg-green-900/30 border-green-200 dark:border-green-800',
+  number: 'text-amber-700 dark:text-amber-300 bg-amber-50 dark:bg-amber-900/30 border-amber-200 dark:border-amber-800',
+  boolean: 'text-sky-700 dark:text-sky-300 bg-sky-50 dark:bg-sky-900/30 border-sky-200 dark:border-sky-800',
+  null: 'text-zinc-600 dark:text-zinc-300 bg-zinc-100 dark:bg-zinc-800 border-zinc-200 dark:border-zinc-700',
+};
+
+const typeOf = (value: unknown): ValueType => {
+  if (value === null || value === undefined) return 'null';
+  if (Array.isArray(value)) return 'array';
+  return typeof value === 'object' ? 'object' : (typeof value as ValueType);
+};
+
+const childCount = (value: unknown): number =>
+  Array.isArray(value) ? value.length : Object.keys(value as object).length;
+
+const childEntries = (value: unknown, limit: number): [string, unknown][] =>
+  Array.isArray(value)
+    ? value.slice(0, limit).map((item, index) => [String(index), item])
+    : Object.entries(value as object).slice(0, limit);
+
+// Collapsible outline of a document. Children are only rendered once their
+// parent is expanded, a page at a time, so large documents open instantly.
+export default function TreeView({ data, selectedPointer, onSelect, onEdit, onAdd, onDelete }: TreeViewProps) {
+  const [expanded, setExpanded] = useState<Set<string>>(() => new Set(['']));
+  const [limits, setLimits] = useState<Record<string, number>>({});
+  const [revealed, setRevealed] = useState<string | null>(null);
+  const [editing, setEditing] = useState<string | null>(null);
+  // Object a new key is being typed for
+  const [addingKey, setAddingKey] = useState<string | null>(null);
+  const [newKey, setNewKey] = useState('');
+
+  // Open the path to a value selected elsewhere (adjusting state during render
+  // so the node exists by the time the page scrolls to it)
+  if (selectedPointer !== revealed) {
+    setRevealed(selectedPointer);
+    if (selectedPointer !== null) {
+      const ancestors = pointerAncestors(selectedPointer).slice(1);
+      if (ancestors.some(pointer => !expanded.has(pointer))) {
+        setExpanded(prev => new Set([...prev, ...ancestors]));
+      }
+      const nextLimits = { ...limits };
+      let changed = false;
+      ancestors.forEach(pointer => {
+        const tokens = parsePointer(selectedPointer.slice(pointer.length));
+        const index = Number(tokens[0]);
+        if (Number.isInteger(index) && index >= (limits[pointer] ?? PAGE_SIZE)) {
+          nextLimits[pointer] = index + 1;
+          changed = true;
+        }
+      });
+      if (changed) setLimits(nextLimits);
+    }
+  }
+
+  const toggle = (pointer: string) => {
+    setExpanded(prev => {
+      const next = new Set(prev);
+      if (next.has(pointer)) next.delete(pointer);
+      else next.add(pointer);
+      return next;
+    });
+  };
+
+  const startAdding = (pointer: string, type: ValueType) => {
+    setExpanded(prev => new Set(prev).add(pointer));
+    if (type === 'array') {
+      onAdd?.(pointer);
+    } else {
+      setAddingKey(pointer);
+      setNewKey('');
+    }
+  };
+
+  const commitKey = (pointer: string) => {
+    if (newKey) onAdd?.(pointer, newKey);
+    setAddingKey(null);
+  };
+
+  const actionClass =
+    'px-1.5 py-0.5 text-[11px] font-medium rounded border border-zinc-200 dark:border-zinc-700 text-zinc-600 dark:text-zinc-400 hover:text-zinc-900 dark:hover:text-zinc-100 hover:bg-white dark:hover:bg-zinc-800';
+
+  const renderPreview = (value: unknown, type: ValueType): React.ReactNode => {
+    if (type === 'object' || type === 'array') {
+      const count = childCount(value);
+      return (
+        <span className="text-xs text-zinc-400 dark:text-zinc-500">
+          {type === 'array' ? `[${count}]` : `{${count}}`} {count === 1 ? (type === 'array' ? 'item' : 'key') : type === 'array' ? 'items' : 'keys'}
+        </span>
+      );
+    }
+    if (type === 'string') return <span className="text-green-700 dark:text-green-400 break-all">&quot;{String(value)}&quot;</span>;
+    if (type === 'null') return <span className="text-zinc-400 dark:text-zinc-500">null</span>;
+    return <span className="font-mono text-amber-700 dark:text-amber-400">{String(value)}</span>;
+  };
+
+  const renderNode = (label: string | null, value: unknown, pointer: string, depth: number): React.ReactNode => {
+    const type = typeOf(value);
+    const isContainer = type === 'object' || type === 'array';
+    const isExpanded = isContainer && expanded.has(pointer);
+    const isSelected = pointer === selectedPointer;
+    const limit = limits[pointer] ?? PAGE_SIZE;
+    const count = isExpanded ? childCount(value) : 0;
+    const isEditing = editing === pointer && !isContainer;
+
+    return (
+      <li key={pointer} role="treeitem" aria-expanded={isContainer ? isExpanded : undefined} aria-selected={isSelected}>
+        <div
+          data-pointer={pointer}
+          onClick={() => onSelect(pointer)}
+          onDoubleClick={onEdit && !isContainer ? () => setEditing(pointer) : undefined}
+          style={{ paddingLeft: depth * 16 + 8 }}
+          className={`group flex items-start gap-2 pr-3 py-1 text-sm cursor-pointer transition-colors ${
+            isSelected ? 'bg-blue-50 dark:bg-blue-950/40' : 'hover:bg-zinc-50 dark:hover:bg-zinc-800/50'
+          }`}
+        >
+          {isContainer ? (
+            <button
+              onClick={(e) => {
+                e.stopPropagation();
+                toggle(pointer);
+              }}
+              className="mt-0.5 p-0.5 text-zinc-500 hover:text-zinc-900 dark:hover:text-zinc-100 rounded"
+              aria-label={isExpanded ? 'Collapse' : 'Expand'}
+            >
+              <svg className={`w-3.5 h-3.5 transition-transform ${isExpanded ? 'rotate-90' : ''}`} fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 5l7 7-7 7" />
+              </svg>
+            </button>
+          ) : (
+            <span className="w-[18px] shrink-0" />
+          )}
+          {label !== null && <span className="font-mono text-zinc-700 dark:text-zinc-300 shrink-0">{label}:</span>}
+          <span className={`px-1.5 py-0.5 text-[10px] font-semibold uppercase rounded border shrink-0 ${TYPE_STYLES[type]}`}>{type}</span>
+          {isEditing ? (
+            <ValueEditor
+              value={value as Primitive}
+              onCommit={(next) => {
+                setEditing(null);
+                onEdit?.(pointer, next);
+              }}
+              onCancel={() => setEditing(null)}
+            />
+          ) : (
+            renderPreview(value, type)
+          )}
+          {(onAdd || onDelete) && !isEditing && (
+            <span className="ml-auto flex gap-1 shrink-0 opacity-0 group-hover:opacity-100 focus-within:opacity-100 transition-opacity">
+              {onAdd && isContainer && (
+                <button
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    startAdding(pointer, type);
+                  }}
+                  className={actionClass}
+                >
+                  {type === 'array' ? 'Add item' : 'Add key'}
+                </button>
+              )}
+              {onDelete && label !== null && (
+                <button
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    onDelete(pointer);
+                  }}
+                  className={`${actionClass} hover:text-red-600 dark:hover:text-red-400`}
+                >
+                  Delete
+                </button>
+              )}
+            </span>
+          )}
+        </div>
+        {addingKey === pointer && (
+          <div style={{ paddingLeft: (depth + 1) * 16 + 34 }} className="py-1 pr-3">
+            <input
+              autoFocus
+              value={newKey}
+              onChange={(e) => setNewKey(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter') commitKey(pointer);
+                else if (e.key === 'Escape') setAddingKey(null);
+              }}
+              onBlur={() => setAddingKey(null)}
+              placeholder="New key name"
+              aria-label="New key name"
+              className="w-64 px-2 py-1 text-xs font-mono border border-zinc-300 dark:border-zinc-600 rounded bg-white dark:bg-zinc-900 text-zinc-900 dark:text-zinc-100 focus:outline-none"
+            />
+          </div>
+        )}
+        {isExpanded && count > 0 && (
+          <ul role="group">
+            {childEntries(value, limit).map(([key, child]) => renderNode(key, child, childPointer(pointer, key)!, depth + 1))}
+            {count > limit && (
+              <li style={{ paddingLeft: (depth + 1) * 16 + 34 }} className="py-1">
+                <button
+                  onClick={() => setLimits(prev => ({ ...prev, [pointer]: limit + PAGE_SIZE }))}
+                  className="text-xs font-medium text-blue-600 dark:text-blue-400 hover:underline"
+                >
+                  Show {Math.min(PAGE_SIZE, count - limit)} more of {count - limit} remaining
+                </button>
+              </li>
+            )}
+          </ul>
+        )}
+      </li>
+    );
+  };
+
+  return (
+    <ul role="tree" aria-label="Document tree" className="py-2 max-h-[720px] overflow-auto">
+      {renderNode(null, data, '', 0)}
+    </ul>
+  );
+}
@@ -0,0 +1,173 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import { statusLabel, TRIAGE_STATUSES, VEX_JUSTIFICATIONS, type TriageDecision, type TriageStatus, type VexJustification } from '@/lib/triage';
+
+interface TriageEditorProps {
+  // Finding being triaged, for the dialog title
+  label: string;
+  decision?: TriageDecision;
+  expired: boolean;
+  onSave: (decision: Pick<TriageDecision, 'status' | 'justification' | 'vexJustification' | 'expiresAt'>) => void;
+  onClear: () => void;
+}
+
+const fieldClass =
+  'w-full px-2 py-1 text-xs bg-white dark:bg-zinc-900 text-zinc-700 dark:text-zinc-300 border border-zinc-200 dark:border-zinc-700 rounded focus:outline-none focus:border-zinc-400 dark:focus:border-zinc-500';
+
+const labelClass = 'block text-[11px] font-semibold uppercase tracking-wider text-zinc-500 dark:text-zinc-400';
+
+const STATUS_CLASSES: Record<TriageStatus, string> = {
+  accepted: 'text-amber-700 dark:text-amber-300 bg-amber-50 dark:bg-amber-950/30 border-amber-200 dark:border-amber-800',
+  'false-positive': 'text-zinc-700 dark:text-zinc-300 bg-zinc-100 dark:bg-zinc-800 border-zinc-300 dark:border-zinc-600',
+  'will-fix': 'text-blue-700 dark:text-blue-300 bg-blue-50 dark:bg-blue-950/30 border-blue-200 dark:border-blue-800',
+};
+
+// Row button showing a finding's triage decision, with a dialog to set or
+// clear it
+export default function TriageEditor({ label, decision, expired, onSave, onClear }: TriageEditorProps) {
+  const [position, setPosition] = useState<{ top: number; right: number } | null>(null);
+  const open = position !== null;
+  const menuRef = useRef<HTMLDivElement>(null);
+  const [status, setStatus] = useState<TriageStatus>('accepted');
+  const [justification, setJustification] = useState('');
+  const [vexJustification, setVexJustification] = useState<VexJustification | ''>('');
+  const [expiresAt, setExpiresAt] = useState('');
+
+  useEffect(() => {
+    if (!open) return;
+    const close = (event: Event) => {
+      if (event instanceof KeyboardEvent ? event.key === 'Escape' : !menuRef.current?.contains(event.target as Node)) {
+        setPosition(null);
+      }
+    };
+    document.addEventListener('mousedown', close);
+    document.addEventListener('keydown', close);
+    return () => {
+      document.removeEventListener('mousedown', close);
+      document.removeEventListener('keydown', close);
+    };
+  }, [open]);
+
+  const title = decision
+    ? `${statusLabel(decision.status)}${decision.justification ? `: ${decision.justification}` : ''}${decision.expiresAt ? ` (${expired ? 'expired' : 'until'} ${decision.expiresAt})` : ''}`
+    : 'Triage finding';
+
+  return (
+    <div ref={menuRef} className="relative" onClick={(e) => e.stopPropagation()}>
+      <button
+        onClick={(e) => {
+          const rect = e.currentTarget.getBoundingClientRect();
+          if (!open) {
+            setStatus(decision?.status ?? 'accepted');
+            setJustification(decision?.justification ?? '');
+            setVexJustification(decision?.vexJustification ?? '');
+            setExpiresAt(decision?.expiresAt ?? '');
+          }
+          setPosition(open ? null : { top: rect.bottom + 4, right: window.innerWidth - rect.right });
+        }}
+        className={
+          decision
+            ? `px-2 h-8 text-[11px] font-semibold rounded-md border whitespace-nowrap ${STATUS_CLASSES[decision.status]} ${expired ? 'line-through opacity-60' : ''}`
+            : 'flex items-center justify-center w-8 h-8 rounded-md bg-zinc-100 dark:bg-zinc-800 hover:bg-blue-100 dark:hover:bg-blue-900/30 text-zinc-600 dark:text-zinc-400 hover:text-blue-600 dark:hover:text-blue-400 transition-colors'
+        }
+        aria-haspopup="dialog"
+        aria-expanded={open}
+        aria-label={title}
+        title={title}
+      >
+        {decision ? (
+          statusLabel(decision.status)
+        ) : (
+          <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M3 21v-4m0 0V5a2 2 0 012-2h6.5l1 1H21l-3 6 3 6h-8.5l-1-1H5a2 2 0 00-2 2z" />
+          </svg>
+        )}
+      </button>
+      {open && (
+        <div
+          role="dialog"
+          aria-label={`Triage ${label}`}
+          style={position}
+          className="fixed z-30 w-80 p-3 space-y-3 bg-white dark:bg-zinc-800 rounded-md border border-zinc-200 dark:border-zinc-700 shadow-lg text-left"
+        >
+          <p className="text-xs font-semibold text-zinc-900 dark:text-zinc-100 break-all">{label}</p>
+
+          <fieldset className="space-y-1">
+            <legend className={labelClass}>Decision</legend>
+            <div className="flex flex-wrap gap-3 pt-1">
+              {TRIAGE_STATUSES.map(option => (
+                <label key={option.value} className="flex items-center gap-1.5 text-xs text-zinc-700 dark:text-zinc-300">
+                  <input type="radio" checked={status === option.value} onChange={() => setStatus(option.value)} />
+                  {option.label}
+                </label>
+              ))}
+            </div>
+          </fieldset>
+
+          <label className="block space-y-1">
+            <span className={labelClass}>Justification</span>
+            <textarea
+              value={justification}
+              onChange={(e) => setJustification(e.target.value)}
+              placeholder="Why this finding is suppressed"
+              className={`${fieldClass} h-20 resize-y`}
+            />
+          </label>
+
+          {status === 'false-positive' && (
+            <label className="block space-y-1">
+              <span className={labelClass}>VEX justification</span>
+              <select
+                value={vexJustification}
+                onChange={(e) => setVexJustification(e.target.value as VexJustification | '')}
+                className={fieldClass}
+              >
+                <option value="">None</option>
+                {VEX_JUSTIFICATIONS.map(option => (
+                  <option key={option.value} value={option.value}>
+                    {option.label}
+                  </option>
+                ))}
+              </select>
+              <span className="block text-[11px] text-zinc-400 dark:text-zinc-500">Why the package is not affected, for OpenVEX exports</span>
+            </label>
+          )}
+
+          <label className="block space-y-1">
+            <span className={labelClass}>Expires</span>
+            <input type="date" value={expiresAt} onChange={(e) => setExpiresAt(e.target.value)} className={fieldClass} />
+            <span className="block text-[11px] text-zinc-400 dark:text-zinc-500">The finding shows again after this day</span>
+          </label>
+
+          <div className="flex items-center justify-between pt-2 border-t border-zinc-200 dark:border-zinc-700">
+            <button
+              onClick={() => {
+                onClear();
+                setPosition(null);
+              }}
+              disabled={!decision}
+              className="text-xs font-medium text-zinc-600 dark:text-zinc-400 hover:text-zinc-900 dark:hover:text-zinc-100 disabled:opacity-40 disabled:pointer-events-none transition-colors"
+            >
+              Clear
+            </button>
+            <button
+              onClick={() => {
+                onSave({
+                  status,
+                  justification: justification.trim(),
+                  vexJustification: status === 'false-positive' && vexJustification ? vexJustification : undefined,
+                  expiresAt: expiresAt || undefined,
+                });
+                setPosition(null);
+              }}
+              className="px-3 py-1.5 text-xs font-medium text-white bg-blue-600 hover:bg-blue-700 rounded transition-colors"
+            >
+              Save
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,148 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import { TRIAGE_DISPLAYS, type TriageDisplay } from '@/lib/triage';
+
+export type TriageExportFormat = 'trivyignore' | 'trivyignore-yaml' | 'openvex';
+
+const EXPORTS: { value: TriageExportFormat; label: string }[] = [
+  { value: 'trivyignore', label: '.trivyignore' },
+  { value: 'trivyignore-yaml', label: '.trivyignore.yaml' },
+  { value: 'openvex', label: 'OpenVEX' },
+];
+
+interface TriageMenuProps {
+  count: number;
+  display: TriageDisplay;
+  onDisplayChange: (display: TriageDisplay) => void;
+  onExport: (format: TriageExportFormat) => void;
+  // Returns a summary of what was applied; throws when the file is not one of the formats
+  onImport: (text: string) => string;
+  onClear: () => void;
+}
+
+const labelClass = 'block text-[11px] font-semibold uppercase tracking-wider text-zinc-500 dark:text-zinc-400';
+
+const itemClass =
+  'px-2 py-1 text-xs font-medium text-zinc-700 dark:text-zinc-300 border border-zinc-200 dark:border-zinc-700 rounded hover:bg-zinc-50 dark:hover:bg-zinc-700 disabled:opacity-40 disabled:pointer-events-none transition-colors';
+
+// Triage button with a dropdown for how triaged rows show, exporting the
+// decisions and importing VEX or ignore files
+export default function TriageMenu({ count, display, onDisplayChange, onExport, onImport, onClear }: TriageMenuProps) {
+  const [position, setPosition] = useState<{ top: number; right: number } | null>(null);
+  const open = position !== null;
+  const menuRef = useRef<HTMLDivElement>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [notice, setNotice] = useState<{ text: string; error: boolean } | null>(null);
+
+  useEffect(() => {
+    if (!open) return;
+    const close = (event: Event) => {
+      if (event instanceof KeyboardEvent ? event.key === 'Escape' : !menuRef.current?.contains(event.target as Node)) {
+        setPosition(null);
+      }
+    };
+    document.addEventListener('mousedown', close);
+    document.addEventListener('keydown', close);
+    return () => {
+      document.removeEventListener('mousedown', close);
+      document.removeEventListener('keydown', close);
+    };
+  }, [open]);
+
+  const importFile = async (file: File) => {
+    try {
+      setNotice({ text: onImport(await file.text()), error: false });
+    } catch (e) {
+      setNotice({ text: `${file.name}: ${e instanceof Error ? e.message : String(e)}`, error: true });
+    }
+  };
+
+  return (
+    <div ref={menuRef} className="relative">
+      <button
+        onClick={(e) => {
+          const rect = e.currentTarget.getBoundingClientRect();
+          if (!open) setNotice(null);
+          setPosition(open ? null : { top: rect.bottom + 4, right: window.innerWidth - rect.right });
+        }}
+        className="px-3 py-1.5 text-xs font-medium text-zinc-600 dark:text-zinc-400 hover:text-zinc-900 dark:hover:text-zinc-100 transition-colors border border-zinc-200 dark:border-zinc-700 rounded hover:bg-zinc-50 dark:hover:bg-zinc-800"
+        aria-haspopup="dialog"
+        aria-expanded={open}
+        title="Triage decisions on findings"
+      >
+        Triage{count > 0 && ` (${count})`}
+      </button>
+      {open && (
+        <div
+          role="dialog"
+          aria-label="Triage"
+          style={position}
+          className="fixed z-30 w-80 p-3 space-y-3 bg-white dark:bg-zinc-800 rounded-md border border-zinc-200 dark:border-zinc-700 shadow-lg"
+        >
+          <div className="space-y-1">
+            <span className={labelClass}>Triaged findings</span>
+            <div role="radiogroup" aria-label="Triaged findings" className="flex gap-1">
+              {TRIAGE_DISPLAYS.map(option => (
+                <button
+                  key={option.value}
+                  role="radio"
+                  aria-checked={display === option.value}
+                  onClick={() => onDisplayChange(option.value)}
+                  className={`${itemClass} ${display === option.value ? 'bg-zinc-100 dark:bg-zinc-700 text-zinc-900 dark:text-zinc-100' : ''}`}
+                >
+                  {option.label}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <div className="space-y-1">
+            <span className={labelClass}>Export {count} {count === 1 ? 'decision' : 'decisions'}</span>
+            <div className="flex flex-wrap gap-1">
+              {EXPORTS.map(option => (
+                <button key={option.value} onClick={() => onExport(option.value)} disabled={count === 0} className={itemClass}>
+                  {option.label}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <div className="space-y-1">
+            <span className={labelClass}>Import</span>
+            <button onClick={() => fileInputRef.current?.click()} className={itemClass}>
+              VEX or ignore file...
+            </button>
+            <input
+              ref={fileInputRef}
+              type="file"
+              className="hidden"
+              onChange={(e) => {
+                const file = e.target.files?.[0];
+                if (file) void importFile(file);
+                e.target.value = '';
+              }}
+            />
+            <span className="block text-[11px] text-zinc-400 dark:text-zinc-500">
+              OpenVEX, CycloneDX VEX, .trivyignore or .trivyignore.yaml; its decisions replace those for the same findings
+            </span>
+          </div>
+
+          {notice && (
+            <p className={`text-[11px] ${notice.error ? 'text-red-600 dark:text-red-500' : 'text-green-700 dark:text-green-400'}`}>{notice.text}</p>
+          )}
+
+          <div className="flex justify-end pt-2 border-t border-zinc-200 dark:border-zinc-700">
+            <button
+              onClick={onClear}
+              disabled={count === 0}
+              className="text-xs font-medium text-zinc-600 dark:text-zinc-400 hover:text-zinc-900 dark:hover:text-zinc-100 disabled:opacity-40 disabled:pointer-events-none transition-colors"
+            >
+              Clear all
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,160 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import type React from 'react';
+import {
+  FetchSourceError,
+  HTTP_METHODS,
+  parseHeaderLines,
+  REFRESH_INTERVALS,
+  sourceNameFromUrl,
+  type FetchRequest,
+  type HttpMethod,
+} from '@/lib/fetch-source';
+
+interface UrlLoaderProps {
+  // Called with each response that differs from the last one loaded
+  onLoad: (text: string, sourceName: string) => void;
+}
+
+const fieldClass =
+  'px-2 py-1.5 text-xs bg-white dark:bg-zinc-900 text-zinc-900 dark:text-zinc-100 border border-zinc-200 dark:border-zinc-700 rounded focus:outline-none focus:border-zinc-400 dark:focus:border-zinc-600 transition-colors';
+
+// Request form for loading a document through the /api/fetch proxy, with
+// optional polling of the last successful request
+export default function UrlLoader({ onLoad }: UrlLoaderProps) {
+  const [url, setUrl] = useState('');
+  const [method, setMethod] = useState<HttpMethod>('GET');
+  const [headerText, setHeaderText] = useState('');
+  const [body, setBody] = useState('');
+  const [refreshSeconds, setRefreshSeconds] = useState(0);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [loadedAt, setLoadedAt] = useState<Date | null>(null);
+  // The request being polled: the last one that loaded
+  const [activeRequest, setActiveRequest] = useState<FetchRequest | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+  const lastTextRef = useRef<string | null>(null);
+
+  const load = async (request: FetchRequest) => {
+    abortRef.current?.abort();
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setLoading(true);
+    try {
+      const response = await fetch('/api/fetch', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(request),
+        signal: controller.signal,
+      });
+      if (!response.ok) {
+        const { error: message } = await response.json().catch(() => ({ error: `Request failed (${response.status})` }));
+        throw new FetchSourceError(message, response.status);
+      }
+      const text = await response.text();
+      if (text !== lastTextRef.current) {
+        lastTextRef.current = text;
+        onLoad(text, sourceNameFromUrl(request.url));
+      }
+      setActiveRequest(request);
+      setLoadedAt(new Date());
+      setError(null);
+    } catch (e) {
+      if (controller.signal.aborted) return;
+      setError(e instanceof Error ? e.message : String(e));
+    } finally {
+      if (abortRef.current === controller) {
+        abortRef.current = null;
+        setLoading(false);
+      }
+    }
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!url.trim()) return;
+    let headers: Record<string, string>;
+    try {
+      headers = parseHeaderLines(headerText);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+      return;
+    }
+    // A new request always replaces the input, even if the response matches
+    lastTextRef.current = null;
+    load({ url: url.trim(), method, headers, body: method === 'GET' ? undefined : body });
+  };
+
+  // Poll the last request that loaded; skipped while one is still in flight
+  useEffect(() => {
+    if (refreshSeconds === 0 || !activeRequest) return;
+    const timer = setInterval(() => {
+      if (!abortRef.current) load(activeRequest);
+    }, refreshSeconds * 1000);
+    return () => clearInterval(timer);
+  }, [refreshSeconds, activeRequest]);
+
+  useEffect(() => () => abortRef.current?.abort(), []);
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-2">
+      <div className="flex gap-2">
+        <select value={method} onChange={(e) => setMethod(e.target.value as HttpMethod)} aria-label="Method" className={fieldClass}>
+          {HTTP_METHODS.map(option => (
+            <option key={option} value={option}>{option}</option>
+          ))}
+        </select>
+        <input
+          type="url"
+          value={url}
+          onChange={(e) => setUrl(e.target.value)}
+          placeholder="https://example.com/report.json"
+          aria-label="URL"
+          required
+          className={`${fieldClass} flex-1 min-w-0 font-mono`}
+        />
+        <button
+          type="submit"
+          disabled={loading}
+          className="px-3 py-1.5 text-xs font-medium text-white bg-blue-600 hover:bg-blue-700 disabled:opacity-50 rounded transition-colors"
+        >
+          {loading ? 'Loading...' : 'Load'}
+        </button>
+      </div>
+      <div className={`grid gap-2 ${method === 'GET' ? '' : 'md:grid-cols-2'}`}>
+        <textarea
+          value={headerText}
+          onChange={(e) => setHeaderText(e.target.value)}
+          placeholder={'Headers, one per line\nAuthorization: Bearer <token>'}
+          aria-label="Headers"
+          className={`${fieldClass} h-20 font-mono resize-y`}
+        />
+        {method !== 'GET' && (
+          <textarea
+            value={body}
+            onChange={(e) => setBody(e.target.value)}
+            placeholder="Request body"
+            aria-label="Request body"
+            className={`${fieldClass} h-20 font-mono resize-y`}
+          />
+        )}
+      </div>
+      <div className="flex items-center gap-3 text-xs text-zinc-600 dark:text-zinc-400">
+        <label className="flex items-center gap-2">
+          Auto-refresh
+          <select value={refreshSeconds} onChange={(e) => setRefreshSeconds(Number(e.target.value))} className={fieldClass}>
+            {REFRESH_INTERVALS.map(({ value, label }) => (
+              <option key={value} value={value}>{label}</option>
+            ))}
+          </select>
+        </label>
+        {refreshSeconds > 0 && activeRequest && (
+          <span className="text-blue-600 dark:text-blue-400">Polling {sourceNameFromUrl(activeRequest.url)}</span>
+        )}
+        {loadedAt && !error && <span>Loaded at {loadedAt.toLocaleTimeString()}</span>}
+        {error && <span className="text-red-600 dark:text-red-500">{error}</span>}
+      </div>
+    </form>
+  );
+}
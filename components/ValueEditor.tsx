@@ -0,0 +1,116 @@
+'use client';
+
+import { useRef, useState } from 'react';
+import type { Primitive } from '@/lib/json-edit';
+
+type PrimitiveType = 'string' | 'number' | 'boolean' | 'null';
+
+const TYPES: PrimitiveType[] = ['string', 'number', 'boolean', 'null'];
+
+interface ValueEditorProps {
+  value: Primitive;
+  onCommit: (value: Primitive) => void;
+  onCancel: () => void;
+}
+
+const typeOf = (value: Primitive): PrimitiveType => (value === null ? 'null' : (typeof value as PrimitiveType));
+
+// Turn the draft into a value of `type`; undefined when it doesn't parse
+const parseDraft = (type: PrimitiveType, draft: string): Primitive | undefined => {
+  if (type === 'string') return draft;
+  if (type === 'null') return null;
+  if (type === 'boolean') return draft === 'true';
+  const number = Number(draft);
+  return draft.trim() !== '' && Number.isFinite(number) ? number : undefined;
+};
+
+// Inline editor for a primitive value. Enter or leaving the editor commits,
+// Escape cancels; the type can be changed along with the value.
+export default function ValueEditor({ value, onCommit, onCancel }: ValueEditorProps) {
+  const [type, setType] = useState<PrimitiveType>(typeOf(value));
+  const [draft, setDraft] = useState(value === null ? '' : String(value));
+  const containerRef = useRef<HTMLDivElement>(null);
+  // Set once the edit is settled, so the blur from unmounting doesn't commit twice
+  const doneRef = useRef(false);
+  const parsed = parseDraft(type, draft);
+
+  const finish = (next?: Primitive) => {
+    if (doneRef.current) return;
+    doneRef.current = true;
+    if (next === undefined || next === value) onCancel();
+    else onCommit(next);
+  };
+
+  const commit = () => {
+    if (parsed !== undefined) finish(parsed);
+  };
+
+  const changeType = (next: PrimitiveType) => {
+    setType(next);
+    if (next === 'boolean') setDraft(draft === 'true' ? 'true' : 'false');
+  };
+
+  const inputClass =
+    'min-w-0 flex-1 px-2 py-1 text-xs border rounded bg-white dark:bg-zinc-900 text-zinc-900 dark:text-zinc-100 focus:outline-none';
+
+  return (
+    <div
+      ref={containerRef}
+      onClick={(e) => e.stopPropagation()}
+      onDoubleClick={(e) => e.stopPropagation()}
+      onKeyDown={(e) => {
+        if (e.key === 'Enter') {
+          e.preventDefault();
+          commit();
+        } else if (e.key === 'Escape') {
+          e.preventDefault();
+          finish();
+        }
+      }}
+      onBlur={(e) => {
+        // Moving between the type select and the input keeps the editor open
+        if (!containerRef.current?.contains(e.relatedTarget as Node | null)) {
+          finish(parsed);
+        }
+      }}
+      className="flex items-center gap-1.5 min-w-[12rem]"
+    >
+      <select
+        value={type}
+        onChange={(e) => changeType(e.target.value as PrimitiveType)}
+        aria-label="Value type"
+        className="px-1 py-1 text-xs border border-zinc-200 dark:border-zinc-700 rounded bg-white dark:bg-zinc-900 text-zinc-600 dark:text-zinc-400 focus:outline-none"
+      >
+        {TYPES.map(option => (
+          <option key={option} value={option}>{option}</option>
+        ))}
+      </select>
+      {type === 'boolean' ? (
+        <select
+          autoFocus
+          value={draft}
+          onChange={(e) => setDraft(e.target.value)}
+          aria-label="Value"
+          className={`${inputClass} border-zinc-300 dark:border-zinc-600`}
+        >
+          <option value="true">true</option>
+          <option value="false">false</option>
+        </select>
+      ) : type === 'null' ? (
+        <span className="flex-1 px-2 py-1 text-xs text-zinc-400 dark:text-zinc-500">null</span>
+      ) : (
+        <input
+          autoFocus
+          type={type === 'number' ? 'number' : 'text'}
+          value={draft}
+          onChange={(e) => setDraft(e.target.value)}
+          aria-label="Value"
+          aria-invalid={parsed === undefined}
+          className={`${inputClass} ${
+            parsed === undefined ? 'border-red-400 dark:border-red-600' : 'border-zinc-300 dark:border-zinc-600'
+          }`}
+        />
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,223 @@
+'use client';
+
+import { useLayoutEffect, useRef, useState } from 'react';
+import type React from 'react';
+
+interface VirtualTableProps {
+  head: React.ReactNode;
+  rowCount: number;
+  renderRow: (index: number) => React.ReactNode;
+  colSpan: number;
+  footer?: React.ReactNode;
+  // Row count above which only the rows in view are rendered
+  threshold?: number;
+  estimatedRowHeight?: number;
+  maxHeight?: number;
+  // Row to bring into view; a new `request` scrolls to it again
+  scrollTarget?: { index: number; request: number };
+}
+
+const OVERSCAN = 10;
+// Rows moved by Page Up and Page Down
+const PAGE_ROWS = 10;
+
+// What Enter moves focus to inside a cell with no expandable value
+const FOCUSABLE = 'a[href], button, input, select, textarea, [tabindex]:not([tabindex="-1"])';
+
+// Table body that renders only the rows in view once it grows past `threshold`.
+// Rows vary in height, so the spacer sizes use an average measured from the
+// rows currently on screen.
+//
+// The table is an ARIA grid: one cell is in the tab order, arrow keys, Home,
+// End and Page Up/Down move between cells (scrolling rows into the window as
+// needed), Enter expands a nested value or steps into the cell, and Escape
+// steps back out.
+export default function VirtualTable({
+  head,
+  rowCount,
+  renderRow,
+  colSpan,
+  footer,
+  threshold = 200,
+  estimatedRowHeight = 53,
+  maxHeight = 640,
+  scrollTarget,
+}: VirtualTableProps) {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const bodyRef = useRef<HTMLTableSectionElement>(null);
+  const frameRef = useRef<number | null>(null);
+  const [scrollTop, setScrollTop] = useState(0);
+  const [rowHeight, setRowHeight] = useState(estimatedRowHeight);
+  // Cell in the tab order; the column is kept as asked for, so passing
+  // through a narrower row (e.g. a group header) doesn't lose it
+  const [activeCell, setActiveCell] = useState({ row: 0, col: 0 });
+  // Focus the active cell once it has been scrolled into the window
+  const pendingFocusRef = useRef(false);
+  const isVirtual = rowCount > threshold;
+
+  const start = isVirtual ? Math.max(0, Math.floor(scrollTop / rowHeight) - OVERSCAN) : 0;
+  const end = isVirtual ? Math.min(rowCount, Math.ceil((scrollTop + maxHeight) / rowHeight) + OVERSCAN) : rowCount;
+
+  useLayoutEffect(() => {
+    if (!isVirtual || !bodyRef.current) return;
+    const rendered = Array.from(bodyRef.current.rows).filter(row => !row.dataset.spacer);
+    if (rendered.length === 0) return;
+    const average = rendered.reduce((sum, row) => sum + row.getBoundingClientRect().height, 0) / rendered.length;
+    if (average > 0 && Math.abs(average - rowHeight) / rowHeight > 0.1) {
+      setRowHeight(average);
+    }
+  });
+
+  useLayoutEffect(() => {
+    if (!scrollTarget || !isVirtual || !containerRef.current) return;
+    const top = Math.max(0, scrollTarget.index * rowHeight - maxHeight / 2);
+    containerRef.current.scrollTop = top;
+    setScrollTop(top);
+  }, [scrollTarget?.index, scrollTarget?.request]);
+
+  // Rendered data rows, in order from `start`; spacers and the footer are left out
+  const renderedRows = (): HTMLTableRowElement[] =>
+    bodyRef.current ? Array.from(bodyRef.current.rows).filter(row => !row.dataset.spacer).slice(0, end - start) : [];
+
+  const cellAt = (row: HTMLTableRowElement, col: number): HTMLTableCellElement | undefined =>
+    row.cells[Math.max(0, Math.min(col, row.cells.length - 1))];
+
+  // Roving tab index and row positions, redone as rows scroll in and out
+  useLayoutEffect(() => {
+    const rendered = renderedRows();
+    bodyRef.current?.parentElement?.querySelector('thead tr')?.setAttribute('aria-rowindex', '1');
+    rendered.forEach((row, offset) => {
+      row.setAttribute('aria-rowindex', String(start + offset + 2));
+      Array.from(row.cells).forEach(cell => {
+        cell.tabIndex = -1;
+      });
+    });
+    const activeRow = rendered[activeCell.row - start];
+    const cell = activeRow ? cellAt(activeRow, activeCell.col) : rendered[0]?.cells[0];
+    if (!cell) return;
+    cell.tabIndex = 0;
+    if (pendingFocusRef.current && activeRow) {
+      pendingFocusRef.current = false;
+      cell.focus();
+    }
+  });
+
+  const focusCell = (row: number, col: number) => {
+    const target = Math.max(0, Math.min(row, rowCount - 1));
+    setActiveCell({ row: target, col });
+    const rendered = renderedRows()[target - start];
+    if (rendered) {
+      cellAt(rendered, col)?.focus();
+    } else if (isVirtual && containerRef.current) {
+      pendingFocusRef.current = true;
+      const top = Math.max(0, target * rowHeight - maxHeight / 2);
+      containerRef.current.scrollTop = top;
+      setScrollTop(top);
+    }
+  };
+
+  // The cell and row index of an event from this grid's own cells, not a nested grid's
+  const ownCell = (element: HTMLElement): { cell: HTMLTableCellElement; row: number } | null => {
+    const cell = element.closest('td');
+    const rowElement = cell?.parentElement as HTMLTableRowElement | undefined;
+    if (!cell || rowElement?.parentElement !== bodyRef.current) return null;
+    const offset = renderedRows().indexOf(rowElement);
+    return offset === -1 ? null : { cell, row: start + offset };
+  };
+
+  const handleKeyDown = (event: React.KeyboardEvent<HTMLTableSectionElement>) => {
+    const target = event.target as HTMLElement;
+    const own = ownCell(target);
+    if (!own) return;
+    const { cell, row } = own;
+
+    if (target !== cell) {
+      if (event.key === 'Escape') {
+        event.stopPropagation();
+        cell.focus();
+      }
+      return;
+    }
+
+    const col = cell.cellIndex;
+    const lastCol = (cell.parentElement as HTMLTableRowElement).cells.length - 1;
+    const moves: Record<string, () => [number, number]> = {
+      ArrowDown: () => [row + 1, activeCell.col],
+      ArrowUp: () => [row - 1, activeCell.col],
+      ArrowLeft: () => [row, Math.max(0, col - 1)],
+      ArrowRight: () => [row, Math.min(lastCol, col + 1)],
+      Home: () => [event.ctrlKey || event.metaKey ? 0 : row, 0],
+      End: () => (event.ctrlKey || event.metaKey ? [rowCount - 1, Number.MAX_SAFE_INTEGER] : [row, lastCol]),
+      PageDown: () => [row + PAGE_ROWS, activeCell.col],
+      PageUp: () => [row - PAGE_ROWS, activeCell.col],
+    };
+
+    if (event.key === 'Enter') {
+      event.preventDefault();
+      const toggle = cell.querySelector<HTMLElement>('[aria-expanded]');
+      if (toggle) toggle.click();
+      else cell.querySelector<HTMLElement>(FOCUSABLE)?.focus();
+      return;
+    }
+    const move = moves[event.key];
+    if (!move) return;
+    event.preventDefault();
+    focusCell(...move());
+  };
+
+  // Clicking a cell focuses it, which makes it the grid's entry point
+  const handleFocus = (event: React.FocusEvent<HTMLTableSectionElement>) => {
+    const target = event.target as HTMLElement;
+    const own = ownCell(target);
+    if (own && own.cell === target && (own.row !== activeCell.row || own.cell.cellIndex !== activeCell.col)) {
+      setActiveCell({ row: own.row, col: own.cell.cellIndex });
+    }
+  };
+
+  const handleScroll = (event: React.UIEvent<HTMLDivElement>) => {
+    if (!isVirtual) return;
+    const target = event.currentTarget;
+    if (frameRef.current !== null) cancelAnimationFrame(frameRef.current);
+    frameRef.current = requestAnimationFrame(() => {
+      frameRef.current = null;
+      setScrollTop(target.scrollTop);
+    });
+  };
+
+  const rows: React.ReactNode[] = [];
+  for (let index = start; index < end; index++) {
+    rows.push(renderRow(index));
+  }
+
+  return (
+    <div
+      ref={containerRef}
+      onScroll={handleScroll}
+      className={isVirtual ? 'overflow-auto' : 'overflow-x-auto'}
+      style={isVirtual ? { maxHeight } : undefined}
+    >
+      <table role="grid" aria-rowcount={rowCount + 1} className="w-full">
+        {head}
+        <tbody
+          ref={bodyRef}
+          onKeyDown={handleKeyDown}
+          onFocus={handleFocus}
+          className="divide-y divide-zinc-100/80 dark:divide-zinc-800/50"
+        >
+          {start > 0 && (
+            <tr data-spacer="top" aria-hidden="true">
+              <td colSpan={colSpan} style={{ height: start * rowHeight, padding: 0 }} />
+            </tr>
+          )}
+          {rows}
+          {end < rowCount && (
+            <tr data-spacer="bottom" aria-hidden="true">
+              <td colSpan={colSpan} style={{ height: (rowCount - end) * rowHeight, padding: 0 }} />
+            </tr>
+          )}
+          {footer}
+        </tbody>
+      </table>
+    </div>
+  );
+}
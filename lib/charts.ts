@@ -0,0 +1,197 @@
+import { cellText, isEmptyCell, toNumber, toTimestamp } from './table-view';
+import { SEVERITIES } from './trivy';
+
+// Chart data for a table column: counts per category, a histogram of numbers
+// or counts over time. Rendering is left to the page so the same data can be
+// drawn as SVG and exported.
+
+export type ChartKind = 'bar' | 'histogram' | 'timeseries';
+
+export const CHART_KINDS: { value: ChartKind; label: string }[] = [
+  { value: 'bar', label: 'Counts' },
+  { value: 'histogram', label: 'Histogram' },
+  { value: 'timeseries', label: 'Time series' },
+];
+
+export interface ChartBin {
+  label: string;
+  count: number;
+}
+
+export interface ChartData {
+  kind: ChartKind;
+  bins: ChartBin[];
+  // Values that went into the chart
+  plotted: number;
+  // Values left out: empty, or not a number or date for those charts
+  skipped: number;
+}
+
+// Categories shown before the rest are folded into one bar
+export const MAX_CATEGORIES = 25;
+const TARGET_HISTOGRAM_BINS = 12;
+const MAX_TIME_BUCKETS = 60;
+
+const DAY = 24 * 60 * 60 * 1000;
+
+// The chart that suits a column's values: histograms for numbers, time
+// series for ISO dates, counts for everything else
+export function suggestChartKind(values: unknown[]): ChartKind {
+  const present = values.filter(value => !isEmptyCell(value));
+  if (present.length === 0) return 'bar';
+  if (present.every(value => toTimestamp(value) !== null)) return 'timeseries';
+  // Few distinct numbers (exit codes, flags) read better as counts
+  if (present.every(value => toNumber(value) !== null) && new Set(present.map(cellText)).size > 10) return 'histogram';
+  return 'bar';
+}
+
+export function buildChart(values: unknown[], kind: ChartKind): ChartData {
+  switch (kind) {
+    case 'bar':
+      return countCategories(values);
+    case 'histogram':
+      return histogram(values);
+    case 'timeseries':
+      return timeSeries(values);
+  }
+}
+
+// Count per distinct value, most frequent first (severities in severity
+// order), with the long tail folded into "Other"
+function countCategories(values: unknown[]): ChartData {
+  const counts = new Map<string, number>();
+  let skipped = 0;
+  values.forEach(value => {
+    if (isEmptyCell(value)) {
+      skipped++;
+      return;
+    }
+    const label = cellText(value);
+    counts.set(label, (counts.get(label) ?? 0) + 1);
+  });
+
+  const labels = Array.from(counts.keys());
+  const severityOrder = labels.every(label => (SEVERITIES as string[]).includes(label.toUpperCase()));
+  const bins = Array.from(counts, ([label, count]) => ({ label, count })).sort((a, b) =>
+    severityOrder
+      ? (SEVERITIES as string[]).indexOf(a.label.toUpperCase()) - (SEVERITIES as string[]).indexOf(b.label.toUpperCase())
+      : b.count - a.count || a.label.localeCompare(b.label, undefined, { numeric: true })
+  );
+
+  if (bins.length > MAX_CATEGORIES) {
+    const rest = bins.splice(MAX_CATEGORIES - 1);
+    bins.push({ label: `Other (${rest.length})`, count: rest.reduce((sum, bin) => sum + bin.count, 0) });
+  }
+  return { kind: 'bar', bins, plotted: values.length - skipped, skipped };
+}
+
+// Smallest and largest value; spreading large columns into Math.min would
+// overflow the stack
+const extent = (numbers: number[]): [number, number] =>
+  numbers.reduce<[number, number]>(([min, max], value) => [Math.min(min, value), Math.max(max, value)], [Infinity, -Infinity]);
+
+// Round a bin width to 1, 2 or 5 times a power of ten
+const niceStep = (range: number): number => {
+  const raw = range / TARGET_HISTOGRAM_BINS;
+  const magnitude = 10 ** Math.floor(Math.log10(raw));
+  const step = [1, 2, 5, 10].find(multiple => multiple * magnitude >= raw) ?? 10;
+  return step * magnitude;
+};
+
+const formatNumber = (value: number): string => String(Number(value.toPrecision(6)));
+
+function histogram(values: unknown[]): ChartData {
+  const numbers = values.map(toNumber).filter((value): value is number => value !== null && Number.isFinite(value));
+  const skipped = values.length - numbers.length;
+  if (numbers.length === 0) return { kind: 'histogram', bins: [], plotted: 0, skipped };
+
+  const [min, max] = extent(numbers);
+  if (min === max) {
+    return { kind: 'histogram', bins: [{ label: formatNumber(min), count: numbers.length }], plotted: numbers.length, skipped };
+  }
+
+  const step = niceStep(max - min);
+  const start = Math.floor(min / step) * step;
+  const binCount = Math.floor((max - start) / step) + 1;
+  const counts = new Array<number>(binCount).fill(0);
+  numbers.forEach(value => {
+    counts[Math.min(binCount - 1, Math.floor((value - start) / step))]++;
+  });
+
+  const bins = counts.map((count, index) => ({
+    label: `${formatNumber(start + index * step)}–${formatNumber(start + (index + 1) * step)}`,
+    count,
+  }));
+  return { kind: 'histogram', bins, plotted: numbers.length, skipped };
+}
+
+type TimeUnit = 'day' | 'week' | 'month' | 'year';
+
+// Start of the UTC day, week (Monday), month or year containing a time
+const bucketStart = (time: number, unit: TimeUnit): number => {
+  const date = new Date(time);
+  switch (unit) {
+    case 'day':
+      return Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate());
+    case 'week':
+      return Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate() - ((date.getUTCDay() + 6) % 7));
+    case 'month':
+      return Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), 1);
+    case 'year':
+      return Date.UTC(date.getUTCFullYear(), 0, 1);
+  }
+};
+
+const nextBucket = (start: number, unit: TimeUnit): number => {
+  const date = new Date(start);
+  switch (unit) {
+    case 'day':
+      return start + DAY;
+    case 'week':
+      return start + 7 * DAY;
+    case 'month':
+      return Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + 1, 1);
+    case 'year':
+      return Date.UTC(date.getUTCFullYear() + 1, 0, 1);
+  }
+};
+
+const bucketLabel = (start: number, unit: TimeUnit): string => {
+  const iso = new Date(start).toISOString();
+  return unit === 'year' ? iso.slice(0, 4) : unit === 'month' ? iso.slice(0, 7) : iso.slice(0, 10);
+};
+
+// Counts per day, week, month or year, whichever is finest while keeping the
+// series short enough to read. Empty buckets are kept so gaps show.
+function timeSeries(values: unknown[]): ChartData {
+  const times = values.map(toTimestamp).filter((value): value is number => value !== null);
+  const skipped = values.length - times.length;
+  if (times.length === 0) return { kind: 'timeseries', bins: [], plotted: 0, skipped };
+
+  const [min, max] = extent(times);
+  const span = max - min;
+  const unit: TimeUnit =
+    span <= MAX_TIME_BUCKETS * DAY ? 'day'
+    : span <= MAX_TIME_BUCKETS * 7 * DAY ? 'week'
+    : span <= MAX_TIME_BUCKETS * 30 * DAY ? 'month'
+    : 'year';
+
+  const counts = new Map<number, number>();
+  times.forEach(time => {
+    const start = bucketStart(time, unit);
+    counts.set(start, (counts.get(start) ?? 0) + 1);
+  });
+
+  const bins: ChartBin[] = [];
+  for (let start = bucketStart(min, unit); start <= max; start = nextBucket(start, unit)) {
+    bins.push({ label: bucketLabel(start, unit), count: counts.get(start) ?? 0 });
+  }
+  return { kind: 'timeseries', bins, plotted: times.length, skipped };
+}
+
+// What the charts view plots; without a kind the suggested one is used
+export interface ChartSelection {
+  table: string;
+  column: string;
+  kind?: ChartKind;
+}
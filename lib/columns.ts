@@ -0,0 +1,141 @@
+import { formatPointer, parsePointer } from './json-pointer';
+
+// Which columns a table shows, in what order, pinned and at what width.
+// Saved per table path so every Vulnerabilities table of a report, and of the
+// next report, is laid out the same way.
+export interface ColumnSettings {
+  // Column order as last arranged; columns not listed follow in default order
+  order?: string[];
+  hidden: string[];
+  pinned: string[];
+  widths: Record<string, number>;
+}
+
+export const EMPTY_COLUMN_SETTINGS: ColumnSettings = { hidden: [], pinned: [], widths: {} };
+
+export interface TableColumn {
+  header: string;
+  // Position of the column in the table's rows
+  index: number;
+  pinned: boolean;
+  width?: number;
+  // Sticky offset of a pinned column
+  left?: number;
+}
+
+// Width given to pinned columns that haven't been resized, so the sticky
+// offsets of the columns after them are known
+export const DEFAULT_PINNED_WIDTH = 180;
+export const MIN_COLUMN_WIDTH = 60;
+
+// Identifying and version columns of scanner reports, in the order they lead tables
+const LEADING_COLUMNS = [
+  'vulnerabilityid',
+  'cve',
+  'id',
+  'pkgid',
+  'pkgname',
+  'package',
+  'packagename',
+  'name',
+  'installedversion',
+  'installed',
+  'version',
+  'fixedversion',
+  'fixed',
+  'fixedin',
+  'severity',
+];
+
+const normalize = (header: string) => header.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+// Leading columns first, the rest in their original order
+export function defaultColumnOrder(headers: string[]): string[] {
+  const rank = (header: string) => {
+    const index = LEADING_COLUMNS.indexOf(normalize(header));
+    return index === -1 ? LEADING_COLUMNS.length : index;
+  };
+  return headers
+    .map((header, index) => ({ header, index, rank: rank(header) }))
+    .sort((a, b) => a.rank - b.rank || a.index - b.index)
+    .map(({ header }) => header);
+}
+
+// Starting layouts for the Trivy Result sections whose records carry more
+// fields than fit on screen, by table path
+const SECTION_LAYOUTS: Record<string, ColumnSettings> = {
+  '/Results/*/Misconfigurations': {
+    ...EMPTY_COLUMN_SETTINGS,
+    order: ['ID', 'Title', 'Severity', 'Resolution', 'CauseMetadata', 'Message', 'Status'],
+    hidden: ['Type', 'AVDID', 'Description', 'Namespace', 'Query', 'References', 'Layer'],
+  },
+  '/Results/*/Secrets': {
+    ...EMPTY_COLUMN_SETTINGS,
+    order: ['RuleID', 'Category', 'Severity', 'Title', 'StartLine', 'EndLine', 'Match', 'Code'],
+    hidden: ['Layer'],
+  },
+  '/Results/*/Licenses': {
+    ...EMPTY_COLUMN_SETTINGS,
+    order: ['Name', 'Category', 'Severity', 'PkgName', 'FilePath', 'Confidence', 'Link'],
+  },
+  // Components table of the SBOM view, which has no path of its own
+  'table:sbom-components': {
+    ...EMPTY_COLUMN_SETTINGS,
+    order: ['Name', 'Version', 'Type', 'PURL', 'Licenses', 'Severity', 'Vulnerabilities', 'Dependencies', 'Hashes'],
+  },
+};
+
+// Settings for a table nobody has arranged yet
+export function defaultColumnSettings(key: string): ColumnSettings {
+  return SECTION_LAYOUTS[key] ?? EMPTY_COLUMN_SETTINGS;
+}
+
+// Every column in display order, hidden ones included
+export function orderColumns(headers: string[], settings: ColumnSettings = EMPTY_COLUMN_SETTINGS): string[] {
+  if (!settings.order) return defaultColumnOrder(headers);
+  const known = settings.order.filter(header => headers.includes(header));
+  return [...known, ...defaultColumnOrder(headers.filter(header => !known.includes(header)))];
+}
+
+// The visible columns: pinned ones first, then the rest in order
+export function resolveColumns(headers: string[], settings: ColumnSettings = EMPTY_COLUMN_SETTINGS): TableColumn[] {
+  const visible = orderColumns(headers, settings).filter(header => !settings.hidden.includes(header));
+  const pinned = visible.filter(header => settings.pinned.includes(header));
+  const unpinned = visible.filter(header => !settings.pinned.includes(header));
+
+  let left = 0;
+  return [
+    ...pinned.map(header => {
+      const width = settings.widths[header] ?? DEFAULT_PINNED_WIDTH;
+      const column = { header, index: headers.indexOf(header), pinned: true, width, left };
+      left += width;
+      return column;
+    }),
+    ...unpinned.map(header => ({ header, index: headers.indexOf(header), pinned: false, width: settings.widths[header] })),
+  ];
+}
+
+// Key for a table's settings: its pointer with array indices generalized,
+// e.g. /Results/*/Vulnerabilities
+export function tablePath(pointer: string): string {
+  return formatPointer(parsePointer(pointer).map(token => (/^\d+$/.test(token) ? '*' : token)));
+}
+
+const STORAGE_KEY = 'json-table-viewer:columns';
+
+export function loadColumnSettings(): Record<string, ColumnSettings> {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    return stored ? JSON.parse(stored) : {};
+  } catch {
+    return {};
+  }
+}
+
+export function saveColumnSettings(settings: Record<string, ColumnSettings>) {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+  } catch (err) {
+    console.error('Failed to save column settings:', err);
+  }
+}
@@ -0,0 +1,150 @@
+import {
+  detectFormat,
+  DocumentParseError,
+  INPUT_FORMATS,
+  parseDocument,
+  type FormatSelection,
+  type SourceLocation,
+} from './formats';
+import { collectDocumentTables, EXPORT_FORMATS, exportFileName, renderExport, type ExportFormat } from './export';
+import { getAtPointer } from './json-pointer';
+import { QUERY_LANGUAGES, runQuery, type QueryLanguage } from './query';
+import { getTableStructure } from './table';
+import { isTrivyReport, summarizeSeverities } from './trivy';
+import { findingsReport, importFindings } from './findings';
+import { evaluatePolicy, parsePolicy, PolicyError, type Policy, type PolicyVerdict } from './policy';
+
+// Headless conversion of a document to the page's tables and exports, and
+// policy checks, used by the API routes
+
+export type ConvertOutput = 'table' | 'summary' | ExportFormat;
+
+export const CONVERT_OUTPUTS: ConvertOutput[] = ['table', 'summary', ...EXPORT_FORMATS.map(({ value }) => value)];
+
+export interface ConvertOptions {
+  output: ConvertOutput;
+  format: FormatSelection;
+  // JSON Pointer to the part of the document to convert
+  path: string;
+  query: string;
+  queryLanguage: QueryLanguage;
+  // Export only the table with this name, e.g. Vulnerabilities
+  table: string;
+  // Base name for the exported file and document title
+  name: string;
+}
+
+export class ConvertError extends Error {
+  constructor(
+    message: string,
+    readonly status: number,
+    readonly location: SourceLocation | null = null
+  ) {
+    super(message);
+  }
+}
+
+// Form data of a multipart request; a body that can't be read as one is the
+// client's mistake, not a server error
+export async function readFormData(request: Request): Promise<FormData> {
+  try {
+    return await request.formData();
+  } catch {
+    throw new ConvertError('Malformed form data', 400);
+  }
+}
+
+export interface ConvertResult {
+  body: string | Uint8Array;
+  contentType: string;
+  // Set for file downloads
+  fileName?: string;
+}
+
+const oneOf = <T extends string>(value: string | null, allowed: readonly T[], fallback: T, label: string): T => {
+  if (value === null || value === '') return fallback;
+  if (!(allowed as readonly string[]).includes(value)) {
+    throw new ConvertError(`Unknown ${label} "${value}", expected one of: ${allowed.join(', ')}`, 400);
+  }
+  return value as T;
+};
+
+// Read options from request parameters (query string or form fields)
+export function readConvertOptions(get: (key: string) => string | null, fileName?: string): ConvertOptions {
+  const path = get('path') ?? '';
+  if (path !== '' && !path.startsWith('/')) throw new ConvertError('path must be a JSON Pointer such as /Results/0', 400);
+  return {
+    output: oneOf(get('output'), CONVERT_OUTPUTS, 'table', 'output'),
+    format: oneOf(get('format'), ['auto', ...INPUT_FORMATS.map(({ value }) => value)], 'auto', 'format'),
+    path,
+    query: get('query') ?? '',
+    queryLanguage: oneOf(get('language'), QUERY_LANGUAGES.map(({ value }) => value), 'jsonpath', 'query language'),
+    table: get('table') ?? '',
+    name: get('name') || fileName?.replace(/\.[^.]+$/, '') || 'Document',
+  };
+}
+
+function readDocument(text: string, format: FormatSelection, fileName?: string): unknown {
+  if (!text.trim()) throw new ConvertError('The document is empty', 400);
+  try {
+    return parseDocument(text, format === 'auto' ? detectFormat(text, fileName) : format);
+  } catch (e) {
+    const message = e instanceof Error ? e.message : 'Invalid input';
+    throw new ConvertError(message, 400, e instanceof DocumentParseError ? e.location : null);
+  }
+}
+
+export function convertDocument(text: string, options: ConvertOptions, fileName?: string): ConvertResult {
+  let data = readDocument(text, options.format, fileName);
+
+  if (options.path) {
+    data = getAtPointer(data, options.path);
+    if (data === undefined) throw new ConvertError(`Nothing at ${options.path}`, 422);
+  }
+  if (options.query.trim()) {
+    try {
+      data = runQuery(data, options.query, options.queryLanguage);
+    } catch (e) {
+      throw new ConvertError(`Invalid query: ${e instanceof Error ? e.message : e}`, 400);
+    }
+  }
+
+  if (options.output === 'summary') {
+    if (!isTrivyReport(data)) throw new ConvertError('A severity summary needs a Trivy JSON report', 422);
+    return { body: JSON.stringify(summarizeSeverities(data)), contentType: 'application/json' };
+  }
+  if (options.output === 'table') {
+    return { body: JSON.stringify(getTableStructure(data)), contentType: 'application/json' };
+  }
+
+  let tables = collectDocumentTables(data, options.name);
+  if (options.table) {
+    tables = tables.filter(({ name }) => name === options.table);
+    if (tables.length === 0) throw new ConvertError(`No table named "${options.table}"`, 422);
+  }
+  if (tables.length === 0) throw new ConvertError('No tables to export', 422);
+  const exportFormat = EXPORT_FORMATS.find(({ value }) => value === options.output)!;
+  return {
+    body: renderExport(tables, exportFormat.value, options.name),
+    contentType: exportFormat.mimeType,
+    fileName: exportFileName(options.name, exportFormat.value),
+  };
+}
+
+// Evaluate a policy against a Trivy report, or a report of another scanner
+// read as one, as the report view does
+export function checkPolicy(text: string, policyText: string, fileName?: string): PolicyVerdict {
+  let policy: Policy;
+  try {
+    policy = parsePolicy(policyText);
+  } catch (e) {
+    if (e instanceof PolicyError) throw new ConvertError(e.message, 400);
+    throw e;
+  }
+
+  const data = readDocument(text, 'auto', fileName);
+  if (isTrivyReport(data)) return evaluatePolicy(data, policy);
+  const imported = importFindings(data);
+  if (!imported) throw new ConvertError('A policy check needs a Trivy report or a SARIF, Grype, OSV-Scanner or npm audit report', 422);
+  return evaluatePolicy(findingsReport(imported, fileName), policy);
+}
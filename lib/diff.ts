@@ -0,0 +1,189 @@
+import { cellText } from './table-view';
+import { isTrivyReport, RESULT_TABLE_KEYS, type TrivyResult } from './trivy';
+
+export type DiffStatus = 'added' | 'removed' | 'changed' | 'unchanged';
+
+export interface RowDiff {
+  status: DiffStatus;
+  key: string;
+  before?: any;
+  after?: any;
+  // Top-level fields whose values differ between before and after
+  changedFields: string[];
+}
+
+export type DiffCounts = Record<DiffStatus, number>;
+
+// One matched pair of arrays to compare, e.g. the Vulnerabilities of one target
+export interface DiffSection {
+  id: string;
+  title: string;
+  // Table name used to look up the key spec, shared by sections of the same kind
+  tableKey: string;
+  before: any[];
+  after: any[];
+}
+
+// Default match keys for known report tables
+const DEFAULT_KEYS: Record<string, string> = {
+  Vulnerabilities: 'VulnerabilityID+PkgName',
+  Misconfigurations: 'ID',
+  Secrets: 'RuleID+StartLine',
+  Licenses: 'Name+PkgName',
+  Packages: 'Name',
+  Results: 'Target',
+  Fields: 'Key',
+};
+
+const CANDIDATE_KEYS = ['id', 'ID', 'Id', 'uuid', 'key', 'Key', 'name', 'Name'];
+
+// "VulnerabilityID+PkgName" -> ['VulnerabilityID', 'PkgName']
+export function parseKeySpec(spec: string): string[] {
+  return spec.split('+').map(part => part.trim()).filter(Boolean);
+}
+
+const isRecord = (value: unknown): value is Record<string, any> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+export function defaultKeySpec(tableKey: string, sample: any[]): string {
+  if (DEFAULT_KEYS[tableKey]) return DEFAULT_KEYS[tableKey];
+  // Arrays of primitives or mixed values are diffed as Index/Value rows
+  if (!sample.every(isRecord)) return '';
+  return CANDIDATE_KEYS.find(key => sample.length > 0 && key in sample[0]) ?? '';
+}
+
+const isArrayOfObjects = (value: unknown): value is any[] =>
+  Array.isArray(value) && value.every(item => typeof item === 'object' && item !== null);
+
+// Match key for an element; without key fields elements are matched by position.
+// Field values are JSON-encoded so they can't collide with the #index keys.
+// Repeated keys get an occurrence suffix so duplicates pair up in order.
+const keyElements = (items: Record<string, any>[], keyFields: string[]): string[] => {
+  const seen = new Map<string, number>();
+  return items.map((item, index) => {
+    const base = keyFields.length > 0
+      ? JSON.stringify(keyFields.map(field => cellText(item[field])))
+      : `#${index}`;
+    const occurrence = (seen.get(base) ?? 0) + 1;
+    seen.set(base, occurrence);
+    return occurrence > 1 ? `${base} (${occurrence})` : base;
+  });
+};
+
+const changedFieldsOf = (before: Record<string, any>, after: Record<string, any>): string[] => {
+  const fields = new Set([...Object.keys(before), ...Object.keys(after)]);
+  return Array.from(fields).filter(field => JSON.stringify(before[field]) !== JSON.stringify(after[field]));
+};
+
+// Elements as the rows of their table: arrays of primitives or mixed values get
+// the Index/Value columns of getTableStructure
+const toRecords = (before: any[], after: any[]): [Record<string, any>[], Record<string, any>[]] => {
+  if (before.every(isRecord) && after.every(isRecord)) return [before, after];
+  const asRows = (items: any[]) => items.map((Value, Index) => ({ Index, Value }));
+  return [asRows(before), asRows(after)];
+};
+
+// Match elements of two arrays by key and classify each pair.
+// Output follows the order of `after`, with removed rows placed where they were.
+export function diffArrays(beforeItems: any[], afterItems: any[], keyFields: string[]): RowDiff[] {
+  const [before, after] = toRecords(beforeItems, afterItems);
+  const beforeKeys = keyElements(before, keyFields);
+  const afterKeys = keyElements(after, keyFields);
+  const afterIndex = new Map(afterKeys.map((key, index) => [key, index]));
+  const beforeIndex = new Map(beforeKeys.map((key, index) => [key, index]));
+
+  const rows: RowDiff[] = [];
+  let beforePosition = 0;
+  const flushRemoved = (until: number) => {
+    for (; beforePosition < until; beforePosition++) {
+      const key = beforeKeys[beforePosition];
+      if (!afterIndex.has(key)) {
+        rows.push({ status: 'removed', key, before: before[beforePosition], changedFields: [] });
+      }
+    }
+  };
+
+  afterKeys.forEach((key, index) => {
+    const matched = beforeIndex.get(key);
+    if (matched === undefined) {
+      rows.push({ status: 'added', key, after: after[index], changedFields: [] });
+      return;
+    }
+    flushRemoved(matched);
+    const changedFields = changedFieldsOf(before[matched], after[index]);
+    rows.push({
+      status: changedFields.length > 0 ? 'changed' : 'unchanged',
+      key,
+      before: before[matched],
+      after: after[index],
+      changedFields,
+    });
+  });
+  flushRemoved(before.length);
+
+  return rows;
+}
+
+export function countDiff(rows: RowDiff[]): DiffCounts {
+  const counts: DiffCounts = { added: 0, removed: 0, changed: 0, unchanged: 0 };
+  rows.forEach(row => {
+    counts[row.status]++;
+  });
+  return counts;
+}
+
+// Key/value rows so the plain fields of two objects can be diffed like a table
+const toFieldRows = (value: Record<string, any>, exclude: Set<string>): { Key: string; Value: any }[] =>
+  Object.entries(value)
+    .filter(([key]) => !exclude.has(key))
+    .map(([Key, Value]) => ({ Key, Value }));
+
+// Pair up the arrays of two documents. Trivy reports are matched target by
+// target; other documents compare top-level arrays and the remaining fields.
+export function collectDiffSections(before: unknown, after: unknown): DiffSection[] {
+  if (isTrivyReport(before) && isTrivyReport(after)) {
+    const beforeTargets = new Map(before.Results.map(result => [result.Target, result]));
+    const afterTargets = new Map(after.Results.map(result => [result.Target, result]));
+    const targets = Array.from(new Set([...beforeTargets.keys(), ...afterTargets.keys()]));
+
+    return targets.flatMap(target => {
+      const beforeResult: Partial<TrivyResult> = beforeTargets.get(target) ?? {};
+      const afterResult: Partial<TrivyResult> = afterTargets.get(target) ?? {};
+      return RESULT_TABLE_KEYS
+        .filter(key => (beforeResult[key]?.length ?? 0) > 0 || (afterResult[key]?.length ?? 0) > 0)
+        .map(key => ({
+          id: `diff-${target}-${key}`,
+          title: `${target} › ${key}`,
+          tableKey: key,
+          before: beforeResult[key] ?? [],
+          after: afterResult[key] ?? [],
+        }));
+    });
+  }
+
+  if (Array.isArray(before) && Array.isArray(after)) {
+    return [{ id: 'diff-root', title: 'Array', tableKey: 'Array', before, after }];
+  }
+
+  if (isRecord(before) && isRecord(after)) {
+    const keys = Array.from(new Set([...Object.keys(before), ...Object.keys(after)]));
+    const tableKeys = keys.filter(key => {
+      const beforeValue = before[key] ?? [];
+      const afterValue = after[key] ?? [];
+      return isArrayOfObjects(beforeValue) && isArrayOfObjects(afterValue) && (beforeValue.length > 0 || afterValue.length > 0);
+    });
+    const exclude = new Set(tableKeys);
+    const fields = { before: toFieldRows(before, exclude), after: toFieldRows(after, exclude) };
+
+    const sections: DiffSection[] = [];
+    if (fields.before.length > 0 || fields.after.length > 0) {
+      sections.push({ id: 'diff-fields', title: 'Fields', tableKey: 'Fields', ...fields });
+    }
+    tableKeys.forEach(key => {
+      sections.push({ id: `diff-${key}`, title: key, tableKey: key, before: before[key] ?? [], after: after[key] ?? [] });
+    });
+    return sections;
+  }
+
+  return [{ id: 'diff-value', title: 'Value', tableKey: 'Fields', before: [{ Key: 'Value', Value: before }], after: [{ Key: 'Value', Value: after }] }];
+}
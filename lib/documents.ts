@@ -0,0 +1,95 @@
+import { unzipSync, strFromU8 } from 'fflate';
+import { detectFormat, parseDocument, SUPPORTED_EXTENSIONS } from './formats';
+
+// Opening several documents at once: files dropped or picked together, and
+// the .zip archives among them
+
+export interface OpenedFile {
+  name: string;
+  text: string;
+}
+
+// Column added to combined rows, naming the document each came from
+export const SOURCE_COLUMN = 'Source';
+
+// Table of each document's top-level fields in the combined view
+export const DOCUMENTS_KEY = 'Documents';
+
+// Key for documents whose root is itself an array
+export const ITEMS_KEY = 'Items';
+
+export const isSupportedFile = (name: string): boolean => {
+  const lowerName = name.toLowerCase();
+  return SUPPORTED_EXTENSIONS.some(ext => lowerName.endsWith(ext));
+};
+
+const isZip = (file: File) => file.name.toLowerCase().endsWith('.zip') || file.type === 'application/zip';
+
+// Read files as text, expanding .zip archives into the supported files they
+// contain. Unsupported files are returned by name so they can be reported.
+export async function readFiles(files: File[]): Promise<{ opened: OpenedFile[]; skipped: string[] }> {
+  const opened: OpenedFile[] = [];
+  const skipped: string[] = [];
+
+  for (const file of files) {
+    if (isZip(file)) {
+      const entries = unzipSync(new Uint8Array(await file.arrayBuffer()), {
+        // Skip folders and the resource forks macOS adds to archives
+        filter: entry => !entry.name.endsWith('/') && !entry.name.startsWith('__MACOSX/'),
+      });
+      Object.entries(entries).forEach(([path, content]) => {
+        if (isSupportedFile(path)) opened.push({ name: path, text: strFromU8(content) });
+        else skipped.push(`${file.name}/${path}`);
+      });
+    } else if (isSupportedFile(file.name) || /json|yaml|csv|text\//.test(file.type)) {
+      opened.push({ name: file.name, text: await file.text() });
+    } else {
+      skipped.push(file.name);
+    }
+  }
+
+  return { opened, skipped };
+}
+
+const asRecord = (item: unknown): Record<string, unknown> =>
+  typeof item === 'object' && item !== null && !Array.isArray(item) ? (item as Record<string, unknown>) : { Value: item };
+
+// One document out of many: top-level arrays with the same key are
+// concatenated (e.g. every Results entry across Trivy reports), each row
+// naming the file it came from in the Source column, which wins over a field
+// of the same name. The remaining top-level fields of every document become a
+// row of the Documents table. Documents that fail to parse are listed in
+// `failed`. The page runs this in the parse worker (combineDocumentsInWorker).
+export function combineDocuments(files: OpenedFile[]): { data: Record<string, unknown[]>; failed: string[] } {
+  const data: Record<string, unknown[]> = {};
+  const failed: string[] = [];
+  const append = (key: string, rows: unknown[]) => {
+    (data[key] ??= []).push(...rows);
+  };
+
+  files.forEach(({ name, text }) => {
+    let parsed: unknown;
+    try {
+      parsed = parseDocument(text, detectFormat(text, name));
+    } catch {
+      failed.push(name);
+      return;
+    }
+
+    if (Array.isArray(parsed)) {
+      append(ITEMS_KEY, parsed.map(item => ({ ...asRecord(item), [SOURCE_COLUMN]: name })));
+      return;
+    }
+
+    const fields: Record<string, unknown> = {};
+    Object.entries(asRecord(parsed)).forEach(([key, value]) => {
+      if (Array.isArray(value)) append(key, value.map(item => ({ ...asRecord(item), [SOURCE_COLUMN]: name })));
+      else fields[key] = value;
+    });
+    append(DOCUMENTS_KEY, [{ ...fields, [SOURCE_COLUMN]: name }]);
+  });
+
+  // Documents table first, then the combined arrays
+  const { [DOCUMENTS_KEY]: documents, ...arrays } = data;
+  return { data: documents ? { [DOCUMENTS_KEY]: documents, ...arrays } : arrays, failed };
+}
@@ -0,0 +1,374 @@
+import { strToU8, zipSync } from 'fflate';
+
+export type ExportFormat = 'csv' | 'tsv' | 'xlsx' | 'markdown' | 'html';
+
+export const EXPORT_FORMATS: { value: ExportFormat; label: string; extension: string; mimeType: string; multiTable: boolean }[] = [
+  { value: 'csv', label: 'CSV', extension: 'csv', mimeType: 'text/csv;charset=utf-8;', multiTable: false },
+  { value: 'tsv', label: 'TSV', extension: 'tsv', mimeType: 'text/tab-separated-values;charset=utf-8;', multiTable: false },
+  {
+    value: 'xlsx',
+    label: 'Excel (XLSX)',
+    extension: 'xlsx',
+    mimeType: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+    multiTable: true,
+  },
+  { value: 'markdown', label: 'Markdown', extension: 'md', mimeType: 'text/markdown;charset=utf-8;', multiTable: true },
+  { value: 'html', label: 'HTML', extension: 'html', mimeType: 'text/html;charset=utf-8;', multiTable: true },
+];
+
+export type ExportCell = string | number | boolean;
+
+export interface ExportTable {
+  name: string;
+  headers: string[];
+  rows: ExportCell[][];
+}
+
+const isArrayOfObjects = (value: unknown): value is Record<string, any>[] =>
+  Array.isArray(value) && value.length > 0 && value.every(item => typeof item === 'object' && item !== null && !Array.isArray(item));
+
+const IDENTIFYING_KEYS = ['Target', 'Name', 'name', 'VulnerabilityID', 'ID', 'id'];
+
+// Label linking a nested row back to its parent, e.g. the Target of a Result
+const parentLabel = (record: Record<string, any>, index: number): ExportCell => {
+  const key = IDENTIFYING_KEYS.find(k => typeof record[k] === 'string' || typeof record[k] === 'number');
+  return key ? record[key] : `#${index + 1}`;
+};
+
+// Flatten nested objects to dotted keys. Arrays of primitives are joined with
+// semicolons; arrays of objects go to `onNested` when given (their cell then
+// holds a row count), otherwise they are kept as JSON strings.
+export function flattenRecord(
+  record: Record<string, any>,
+  prefix = '',
+  onNested?: (key: string, items: Record<string, any>[]) => void
+): Record<string, ExportCell> {
+  const flattened: Record<string, ExportCell> = {};
+
+  for (const [key, value] of Object.entries(record)) {
+    const newKey = prefix ? `${prefix}.${key}` : key;
+
+    if (value === null || value === undefined) {
+      flattened[newKey] = '';
+    } else if (Array.isArray(value)) {
+      if (value.length === 0) {
+        flattened[newKey] = '[]';
+      } else if (isArrayOfObjects(value)) {
+        if (onNested) {
+          onNested(newKey, value);
+          flattened[newKey] = `${value.length} ${value.length === 1 ? 'item' : 'items'}`;
+        } else {
+          flattened[newKey] = JSON.stringify(value);
+        }
+      } else {
+        flattened[newKey] = value.map(v => (typeof v === 'object' ? JSON.stringify(v) : String(v))).join('; ');
+      }
+    } else if (typeof value === 'object') {
+      Object.assign(flattened, flattenRecord(value, newKey, onNested));
+    } else {
+      flattened[newKey] = value;
+    }
+  }
+
+  return flattened;
+}
+
+// Turn table records into export tables. `headers` picks and orders the
+// top-level columns. With `extractNested`, arrays of objects become tables of
+// their own (one per key, rows from every parent concatenated) that start with
+// a column pointing back at the parent row.
+export function buildExportTables(
+  name: string,
+  records: Record<string, any>[],
+  headers: string[],
+  extractNested: boolean
+): ExportTable[] {
+  const columns = new Set<string>();
+  const nested = new Map<string, { parents: ExportCell[]; items: Record<string, any>[] }>();
+
+  const flattenedRows = records.map((record, index) => {
+    const picked = Object.fromEntries(headers.filter(header => header in record).map(header => [header, record[header]]));
+    const flattened = flattenRecord(picked, '', extractNested
+      ? (key, items) => {
+          const entry = nested.get(key) ?? { parents: [], items: [] };
+          items.forEach(item => {
+            entry.parents.push(parentLabel(record, index));
+            entry.items.push(item);
+          });
+          nested.set(key, entry);
+        }
+      : undefined);
+    Object.keys(flattened).forEach(column => columns.add(column));
+    return flattened;
+  });
+
+  const orderedColumns = Array.from(columns);
+  const tables: ExportTable[] = [{
+    name,
+    headers: orderedColumns,
+    rows: flattenedRows.map(row => orderedColumns.map(column => row[column] ?? '')),
+  }];
+
+  nested.forEach(({ parents, items }, key) => {
+    const childHeaders = Array.from(new Set(items.flatMap(item => Object.keys(item))));
+    const [child, ...grandchildren] = buildExportTables(key.split('.').pop() ?? key, items, childHeaders, true);
+    tables.push(
+      { name: child.name, headers: [name, ...child.headers], rows: child.rows.map((row, i) => [parents[i], ...row]) },
+      ...grandchildren
+    );
+  });
+
+  return tables;
+}
+
+// Every table in a document: its plain fields as a key/value table, then one
+// table per array of objects (with nested arrays extracted recursively)
+export function collectDocumentTables(data: unknown, rootName = 'Document'): ExportTable[] {
+  if (isArrayOfObjects(data)) {
+    const headers = Array.from(new Set(data.flatMap(item => Object.keys(item))));
+    return buildExportTables(rootName, data, headers, true);
+  }
+  if (typeof data !== 'object' || data === null || Array.isArray(data)) {
+    return [{ name: rootName, headers: ['Value'], rows: [[typeof data === 'object' ? JSON.stringify(data) : String(data)]] }];
+  }
+
+  const entries = Object.entries(data);
+  const tableEntries = entries.filter(([, value]) => isArrayOfObjects(value));
+  const fieldEntries = entries.filter(([, value]) => !isArrayOfObjects(value));
+  const tables: ExportTable[] = [];
+
+  if (fieldEntries.length > 0) {
+    const fields = flattenRecord(Object.fromEntries(fieldEntries));
+    tables.push({ name: rootName, headers: ['Key', 'Value'], rows: Object.entries(fields) });
+  }
+  tableEntries.forEach(([key, value]) => {
+    const headers = Array.from(new Set((value as Record<string, any>[]).flatMap(item => Object.keys(item))));
+    tables.push(...buildExportTables(key, value as Record<string, any>[], headers, true));
+  });
+
+  return tables;
+}
+
+// Merge tables that share a name (e.g. Vulnerabilities from several exports)
+const mergeTables = (tables: ExportTable[]): ExportTable[] => {
+  const merged = new Map<string, ExportTable>();
+  tables.forEach(table => {
+    const existing = merged.get(table.name);
+    if (!existing) {
+      merged.set(table.name, { ...table, headers: [...table.headers], rows: [...table.rows] });
+      return;
+    }
+    table.headers.forEach(header => {
+      if (!existing.headers.includes(header)) existing.headers.push(header);
+    });
+    // Rows merged before the new columns were added get empty cells for them
+    existing.rows = existing.rows.map(row =>
+      row.length < existing.headers.length ? [...row, ...Array<ExportCell>(existing.headers.length - row.length).fill('')] : row
+    );
+    table.rows.forEach(row => {
+      existing.rows.push(existing.headers.map(header => {
+        const index = table.headers.indexOf(header);
+        return index === -1 ? '' : row[index];
+      }));
+    });
+  });
+  return Array.from(merged.values());
+};
+
+export function toDelimited(table: ExportTable, delimiter: string): string {
+  const escape = (cell: ExportCell): string => {
+    const text = String(cell);
+    if (delimiter === '\t') return text.replace(/[\t\r\n]+/g, ' ');
+    const escaped = text.replace(/"/g, '""');
+    return /[",\n\r]/.test(escaped) || escaped.includes(delimiter) ? `"${escaped}"` : escaped;
+  };
+  return [table.headers, ...table.rows].map(row => row.map(escape).join(delimiter)).join('\n');
+}
+
+export function toMarkdown(tables: ExportTable[], title: string): string {
+  const escape = (cell: ExportCell) => String(cell).replace(/\|/g, '\\|').replace(/\r?\n/g, '<br>');
+  const sections = tables.map(table => [
+    `## ${table.name}`,
+    '',
+    `| ${table.headers.map(escape).join(' | ')} |`,
+    `| ${table.headers.map(() => '---').join(' | ')} |`,
+    ...table.rows.map(row => `| ${row.map(escape).join(' | ')} |`),
+  ].join('\n'));
+  return [`# ${title}`, ...sections].join('\n\n') + '\n';
+}
+
+const escapeHtml = (text: string): string =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+export function toHtml(tables: ExportTable[], title: string): string {
+  const sections = tables.map(table => `
+  <section>
+    <h2>${escapeHtml(table.name)} <small>${table.rows.length} rows</small></h2>
+    <table>
+      <thead><tr>${table.headers.map(header => `<th>${escapeHtml(header)}</th>`).join('')}</tr></thead>
+      <tbody>
+${table.rows.map(row => `        <tr>${row.map(cell => `<td>${escapeHtml(String(cell))}</td>`).join('')}</tr>`).join('\n')}
+      </tbody>
+    </table>
+  </section>`).join('\n');
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="utf-8">
+  <title>${escapeHtml(title)}</title>
+  <style>
+    body { font-family: system-ui, sans-serif; margin: 2rem; color: #18181b; }
+    h2 small { font-weight: normal; color: #71717a; font-size: 0.75rem; }
+    table { border-collapse: collapse; width: 100%; margin-bottom: 2rem; font-size: 0.8125rem; }
+    th, td { border: 1px solid #e4e4e7; padding: 0.375rem 0.625rem; text-align: left; vertical-align: top; }
+    th { background: #f4f4f5; position: sticky; top: 0; }
+    tr:nth-child(even) td { background: #fafafa; }
+  </style>
+</head>
+<body>
+  <h1>${escapeHtml(title)}</h1>
+${sections}
+</body>
+</html>
+`;
+}
+
+// Minimal SpreadsheetML writer: one worksheet per table, inline strings,
+// bold frozen header row
+const XLSX_MAX_CELL_LENGTH = 32767;
+
+const escapeXml = (text: string): string =>
+  escapeHtml(text).replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F]/g, '');
+
+const columnName = (index: number): string => {
+  let name = '';
+  for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+    name = String.fromCharCode(65 + ((n - 1) % 26)) + name;
+  }
+  return name;
+};
+
+const sheetNames = (tables: ExportTable[]): string[] => {
+  const used = new Set<string>();
+  return tables.map(table => {
+    const base = table.name.replace(/[[\]:*?/\\]/g, '_').slice(0, 31) || 'Sheet';
+    let name = base;
+    for (let n = 2; used.has(name.toLowerCase()); n++) {
+      const suffix = ` (${n})`;
+      name = base.slice(0, 31 - suffix.length) + suffix;
+    }
+    used.add(name.toLowerCase());
+    return name;
+  });
+};
+
+const worksheetXml = (table: ExportTable): string => {
+  const cellXml = (cell: ExportCell, ref: string, style: string): string => {
+    if (typeof cell === 'number' && Number.isFinite(cell)) return `<c r="${ref}"${style}><v>${cell}</v></c>`;
+    if (typeof cell === 'boolean') return `<c r="${ref}"${style} t="b"><v>${cell ? 1 : 0}</v></c>`;
+    const text = escapeXml(String(cell).slice(0, XLSX_MAX_CELL_LENGTH));
+    return `<c r="${ref}"${style} t="inlineStr"><is><t xml:space="preserve">${text}</t></is></c>`;
+  };
+  const rowXml = (cells: ExportCell[], rowIndex: number, style = '') =>
+    `<row r="${rowIndex + 1}">${cells.map((cell, col) => cellXml(cell, `${columnName(col)}${rowIndex + 1}`, style)).join('')}</row>`;
+
+  return '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+    '<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">' +
+    '<sheetViews><sheetView workbookViewId="0"><pane ySplit="1" topLeftCell="A2" activePane="bottomLeft" state="frozen"/></sheetView></sheetViews>' +
+    `<sheetData>${rowXml(table.headers, 0, ' s="1"')}${table.rows.map((row, i) => rowXml(row, i + 1)).join('')}</sheetData>` +
+    '</worksheet>';
+};
+
+export function toXlsx(tables: ExportTable[]): Uint8Array {
+  const names = sheetNames(tables);
+  const files: Record<string, Uint8Array> = {
+    '[Content_Types].xml': strToU8(
+      '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+      '<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">' +
+      '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>' +
+      '<Default Extension="xml" ContentType="application/xml"/>' +
+      '<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>' +
+      '<Override PartName="/xl/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.styles+xml"/>' +
+      tables.map((_, i) => `<Override PartName="/xl/worksheets/sheet${i + 1}.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>`).join('') +
+      '</Types>'
+    ),
+    '_rels/.rels': strToU8(
+      '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+      '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+      '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/>' +
+      '</Relationships>'
+    ),
+    'xl/workbook.xml': strToU8(
+      '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+      '<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships">' +
+      `<sheets>${names.map((name, i) => `<sheet name="${escapeXml(name)}" sheetId="${i + 1}" r:id="rId${i + 1}"/>`).join('')}</sheets>` +
+      '</workbook>'
+    ),
+    'xl/_rels/workbook.xml.rels': strToU8(
+      '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+      '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+      tables.map((_, i) => `<Relationship Id="rId${i + 1}" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet${i + 1}.xml"/>`).join('') +
+      `<Relationship Id="rId${tables.length + 1}" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles" Target="styles.xml"/>` +
+      '</Relationships>'
+    ),
+    'xl/styles.xml': strToU8(
+      '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+      '<styleSheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">' +
+      '<fonts count="2"><font><sz val="11"/><name val="Calibri"/></font><font><b/><sz val="11"/><name val="Calibri"/></font></fonts>' +
+      '<fills count="2"><fill><patternFill patternType="none"/></fill><fill><patternFill patternType="gray125"/></fill></fills>' +
+      '<borders count="1"><border><left/><right/><top/><bottom/><diagonal/></border></borders>' +
+      '<cellStyleXfs count="1"><xf numFmtId="0" fontId="0" fillId="0" borderId="0"/></cellStyleXfs>' +
+      '<cellXfs count="2"><xf numFmtId="0" fontId="0" fillId="0" borderId="0" xfId="0"/><xf numFmtId="0" fontId="1" fillId="0" borderId="0" xfId="0" applyFont="1"/></cellXfs>' +
+      '</styleSheet>'
+    ),
+  };
+  tables.forEach((table, i) => {
+    files[`xl/worksheets/sheet${i + 1}.xml`] = strToU8(worksheetXml(table));
+  });
+  return zipSync(files);
+}
+
+// Serialize tables in the given format. Single-table formats use the first table.
+// There must be at least one: a CSV needs a header row and a workbook a sheet.
+export function renderExport(tables: ExportTable[], format: ExportFormat, title: string): Uint8Array | string {
+  const merged = mergeTables(tables);
+  if (merged.length === 0) throw new Error('No tables to export');
+  switch (format) {
+    case 'csv':
+      return toDelimited(merged[0], ',');
+    case 'tsv':
+      return toDelimited(merged[0], '\t');
+    case 'xlsx':
+      return toXlsx(merged);
+    case 'markdown':
+      return toMarkdown(merged, title);
+    case 'html':
+      return toHtml(merged, title);
+  }
+}
+
+export function exportFileName(name: string, format: ExportFormat): string {
+  const extension = EXPORT_FORMATS.find(({ value }) => value === format)?.extension ?? format;
+  return `${name}_${new Date().toISOString().split('T')[0]}.${extension}`;
+}
+
+export function downloadExport(tables: ExportTable[], format: ExportFormat, name: string) {
+  if (tables.length === 0) return;
+  const content = renderExport(tables, format, name);
+  const mimeType = EXPORT_FORMATS.find(({ value }) => value === format)?.mimeType ?? 'application/octet-stream';
+  downloadBlob(new Blob([content as BlobPart], { type: mimeType }), exportFileName(name, format));
+}
+
+export function downloadBlob(blob: Blob, fileName: string) {
+  const link = document.createElement('a');
+  const url = URL.createObjectURL(blob);
+
+  link.setAttribute('href', url);
+  link.setAttribute('download', fileName);
+  link.style.visibility = 'hidden';
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+}
@@ -0,0 +1,95 @@
+// Loading documents from a URL through the /api/fetch proxy. Shared by the
+// route and the page so both agree on the request shape and limits.
+
+export const HTTP_METHODS = ['GET', 'POST', 'PUT', 'PATCH', 'DELETE'] as const;
+
+export type HttpMethod = (typeof HTTP_METHODS)[number];
+
+export interface FetchRequest {
+  url: string;
+  method: HttpMethod;
+  headers: Record<string, string>;
+  // Sent for methods other than GET
+  body?: string;
+}
+
+export const FETCH_TIMEOUT_MS = 30_000;
+export const MAX_FETCH_BYTES = 50 * 1024 * 1024;
+
+// Choices for polling an endpoint, in seconds; 0 turns polling off
+export const REFRESH_INTERVALS: { value: number; label: string }[] = [
+  { value: 0, label: 'Off' },
+  { value: 5, label: '5s' },
+  { value: 15, label: '15s' },
+  { value: 30, label: '30s' },
+  { value: 60, label: '1 min' },
+  { value: 300, label: '5 min' },
+];
+
+// Headers the proxy sets itself or that would break forwarding
+const FORBIDDEN_HEADERS = ['host', 'content-length', 'connection', 'transfer-encoding'];
+
+export class FetchSourceError extends Error {
+  constructor(
+    message: string,
+    readonly status: number
+  ) {
+    super(message);
+  }
+}
+
+// Parse "Name: value" lines, as typed into the headers box
+export function parseHeaderLines(text: string): Record<string, string> {
+  const headers: Record<string, string> = {};
+  text.split('\n').forEach((line, index) => {
+    if (!line.trim()) return;
+    const separator = line.indexOf(':');
+    if (separator <= 0) throw new FetchSourceError(`Header line ${index + 1} should look like "Name: value"`, 400);
+    headers[line.slice(0, separator).trim()] = line.slice(separator + 1).trim();
+  });
+  return headers;
+}
+
+// Check a request body posted to the proxy
+export function readFetchRequest(input: unknown): FetchRequest {
+  if (typeof input !== 'object' || input === null) throw new FetchSourceError('Expected a JSON request object', 400);
+  const { url, method = 'GET', headers = {}, body } = input as Record<string, unknown>;
+
+  if (typeof url !== 'string' || !url.trim()) throw new FetchSourceError('A URL is required', 400);
+  let parsed: URL;
+  try {
+    parsed = new URL(url.trim());
+  } catch {
+    throw new FetchSourceError(`Invalid URL "${url}"`, 400);
+  }
+  if (parsed.protocol !== 'http:' && parsed.protocol !== 'https:') {
+    throw new FetchSourceError('Only http and https URLs can be loaded', 400);
+  }
+
+  if (typeof method !== 'string' || !(HTTP_METHODS as readonly string[]).includes(method.toUpperCase())) {
+    throw new FetchSourceError(`Unsupported method "${method}", expected one of: ${HTTP_METHODS.join(', ')}`, 400);
+  }
+  if (typeof headers !== 'object' || headers === null || Object.values(headers).some(value => typeof value !== 'string')) {
+    throw new FetchSourceError('headers must be an object of strings', 400);
+  }
+  if (body !== undefined && typeof body !== 'string') throw new FetchSourceError('body must be a string', 400);
+
+  return {
+    url: parsed.toString(),
+    method: method.toUpperCase() as HttpMethod,
+    headers: Object.fromEntries(
+      Object.entries(headers as Record<string, string>).filter(([name]) => !FORBIDDEN_HEADERS.includes(name.toLowerCase()))
+    ),
+    body: method.toUpperCase() === 'GET' ? undefined : body,
+  };
+}
+
+// File name for a loaded URL: the last path segment, or the host
+export function sourceNameFromUrl(url: string): string {
+  try {
+    const { hostname, pathname } = new URL(url);
+    return decodeURIComponent(pathname.split('/').filter(Boolean).pop() ?? '') || hostname;
+  } catch {
+    return url;
+  }
+}
@@ -0,0 +1,263 @@
+import { normalizeSeverity, type Severity, type TrivyReport, type TrivyResult, type TrivyVulnerability } from './trivy';
+
+// Reports from scanners other than Trivy, read into one findings model and
+// shown through the Trivy report view
+
+export type FindingsFormat = 'sarif' | 'grype' | 'osv-scanner' | 'npm-audit';
+
+export const FINDINGS_FORMATS: { value: FindingsFormat; label: string }[] = [
+  { value: 'sarif', label: 'SARIF' },
+  { value: 'grype', label: 'Grype' },
+  { value: 'osv-scanner', label: 'OSV-Scanner' },
+  { value: 'npm-audit', label: 'npm audit' },
+];
+
+export interface Finding {
+  id: string;
+  package: string;
+  installedVersion?: string;
+  fixedVersion?: string;
+  severity: Severity;
+  // File, manifest or image the finding was reported against
+  location: string;
+  // Scanner that reported it
+  tool: string;
+  title?: string;
+  url?: string;
+  // Other IDs for the same vulnerability, e.g. the CVE behind a GHSA
+  aliases?: string[];
+}
+
+export interface ImportedFindings {
+  format: FindingsFormat;
+  tool: string;
+  // What was scanned, when the report says
+  target?: string;
+  createdAt?: string;
+  findings: Finding[];
+}
+
+type JsonObject = Record<string, any>;
+
+const isObject = (value: unknown): value is JsonObject => typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const asArray = (value: unknown): any[] => (Array.isArray(value) ? value : []);
+
+const asString = (value: unknown): string | undefined => (typeof value === 'string' && value ? value : undefined);
+
+// CVSS score bands, as used by NVD
+export function severityFromScore(score: number): Severity {
+  if (score >= 9) return 'CRITICAL';
+  if (score >= 7) return 'HIGH';
+  if (score >= 4) return 'MEDIUM';
+  if (score > 0) return 'LOW';
+  return 'UNKNOWN';
+}
+
+// Severity names scanners use beyond Trivy's five
+const severityFromName = (value: unknown): Severity => {
+  const name = typeof value === 'string' ? value.toUpperCase() : '';
+  if (name === 'MODERATE') return 'MEDIUM';
+  if (name === 'NEGLIGIBLE' || name === 'INFO') return 'LOW';
+  return normalizeSeverity(name);
+};
+
+// SARIF 2.1 (https://docs.oasis-open.org/sarif/sarif/v2.1.0/). Package details
+// aren't part of the format; Trivy and Grype write them into the message as
+// "Package: …" lines, which are picked up when present.
+
+const isSarif = (data: JsonObject) =>
+  Array.isArray(data.runs) && (String(data.version ?? '').startsWith('2.1') || String(data.$schema ?? '').includes('sarif'));
+
+const messageField = (message: string, label: string): string | undefined =>
+  message.match(new RegExp(`^\\s*${label}:\\s*(.+)$`, 'im'))?.[1].trim();
+
+const SARIF_LEVELS: Record<string, Severity> = { error: 'HIGH', warning: 'MEDIUM', note: 'LOW', none: 'UNKNOWN' };
+
+function importSarif(data: JsonObject): ImportedFindings {
+  const tools = new Set<string>();
+  const findings = asArray(data.runs).flatMap((run: JsonObject) => {
+    const driver = run?.tool?.driver ?? {};
+    const tool = asString(driver.name) ?? 'SARIF';
+    tools.add(tool);
+    const rules = asArray(driver.rules);
+    return asArray(run?.results).map((result: JsonObject): Finding => {
+      const rule: JsonObject =
+        rules.find(candidate => candidate?.id === result.ruleId) ?? (typeof result.ruleIndex === 'number' ? rules[result.ruleIndex] : undefined) ?? {};
+      const message = asString(result.message?.text) ?? '';
+      const uri = asString(result.locations?.[0]?.physicalLocation?.artifactLocation?.uri);
+      const score = Number(rule.properties?.['security-severity'] ?? result.properties?.['security-severity']);
+      return {
+        id: asString(result.ruleId) ?? asString(rule.id) ?? '-',
+        package: messageField(message, 'Package') ?? '',
+        installedVersion: messageField(message, 'Installed Version'),
+        fixedVersion: messageField(message, 'Fixed Version'),
+        severity: Number.isFinite(score) && score > 0 ? severityFromScore(score) : SARIF_LEVELS[result.level ?? rule.defaultConfiguration?.level ?? 'warning'] ?? 'UNKNOWN',
+        location: uri ?? '-',
+        tool,
+        title: asString(rule.shortDescription?.text) ?? (message.split('\n')[0] || undefined),
+        url: asString(rule.helpUri),
+      };
+    });
+  });
+  return { format: 'sarif', tool: Array.from(tools).join(', ') || 'SARIF', findings };
+}
+
+// Grype JSON (`grype -o json`)
+
+const isGrype = (data: JsonObject) =>
+  Array.isArray(data.matches) && (data.descriptor?.name === 'grype' || data.matches.some((match: unknown) => isObject(match) && 'vulnerability' in match && 'artifact' in match));
+
+function importGrype(data: JsonObject): ImportedFindings {
+  const target = asString(data.source?.target?.userInput) ?? asString(data.source?.target);
+  const findings = asArray(data.matches).map((match: JsonObject): Finding => {
+    const { vulnerability = {}, artifact = {} } = match;
+    const fixVersions = asArray(vulnerability.fix?.versions);
+    return {
+      id: asString(vulnerability.id) ?? '-',
+      package: asString(artifact.name) ?? '',
+      installedVersion: asString(artifact.version),
+      fixedVersion: fixVersions.length > 0 ? fixVersions.join(', ') : undefined,
+      severity: severityFromName(vulnerability.severity),
+      location: asString(artifact.locations?.[0]?.path) ?? target ?? '-',
+      tool: 'grype',
+      title: asString(vulnerability.description),
+      url: asString(vulnerability.dataSource) ?? asString(asArray(vulnerability.urls)[0]),
+      aliases: asArray(match.relatedVulnerabilities).map(related => related?.id).filter(Boolean),
+    };
+  });
+  return { format: 'grype', tool: 'grype', target, createdAt: asString(data.descriptor?.timestamp), findings };
+}
+
+// OSV-Scanner JSON (`osv-scanner --format json`). Vulnerabilities that are
+// aliases of each other come grouped, and each group is reported once.
+
+const isOsvScanner = (data: JsonObject) =>
+  Array.isArray(data.results) && data.results.length > 0 && data.results.every((result: unknown) => isObject(result) && isObject(result.source) && Array.isArray(result.packages));
+
+const osvFixedVersions = (vulnerability: JsonObject, name: string): string[] =>
+  asArray(vulnerability.affected)
+    .filter(affected => !affected?.package?.name || affected.package.name === name)
+    .flatMap(affected => asArray(affected?.ranges).flatMap(range => asArray(range?.events).map(event => event?.fixed)))
+    .filter((version): version is string => typeof version === 'string');
+
+function importOsvScanner(data: JsonObject): ImportedFindings {
+  const findings = asArray(data.results).flatMap((result: JsonObject) =>
+    asArray(result.packages).flatMap((entry: JsonObject) => {
+      const name = asString(entry.package?.name) ?? '';
+      const vulnerabilities = asArray(entry.vulnerabilities);
+      const groups: { ids: string[]; max_severity?: string }[] =
+        asArray(entry.groups).length > 0 ? entry.groups : vulnerabilities.map(vulnerability => ({ ids: [vulnerability.id] }));
+      return groups.map((group): Finding => {
+        const members = vulnerabilities.filter(vulnerability => group.ids.includes(vulnerability.id));
+        const primary = members[0] ?? {};
+        const score = Number(group.max_severity);
+        return {
+          id: group.ids[0] ?? '-',
+          package: name,
+          installedVersion: asString(entry.package?.version),
+          fixedVersion: Array.from(new Set(members.flatMap(member => osvFixedVersions(member, name)))).join(', ') || undefined,
+          severity: Number.isFinite(score) && score > 0 ? severityFromScore(score) : severityFromName(primary.database_specific?.severity),
+          location: asString(result.source.path) ?? '-',
+          tool: 'osv-scanner',
+          title: asString(primary.summary),
+          url: group.ids[0] ? `https://osv.dev/vulnerability/${group.ids[0]}` : undefined,
+          aliases: Array.from(new Set([...group.ids.slice(1), ...members.flatMap(member => asArray(member.aliases))])),
+        };
+      });
+    })
+  );
+  return { format: 'osv-scanner', tool: 'osv-scanner', findings };
+}
+
+// npm audit --json: the v2 report of npm 7+, and the v1 report with its
+// advisories map. Only v1 says which version is installed.
+
+const isNpmAudit = (data: JsonObject) =>
+  (data.auditReportVersion === 2 && isObject(data.vulnerabilities)) || (isObject(data.advisories) && isObject(data.metadata));
+
+const advisoryId = (url: string | undefined, fallback: string): string => url?.match(/GHSA(-[a-z0-9]{4}){3}/i)?.[0] ?? fallback;
+
+function importNpmAudit(data: JsonObject): ImportedFindings {
+  if (isObject(data.advisories)) {
+    const findings = Object.values(data.advisories as Record<string, JsonObject>).flatMap(advisory =>
+      asArray(advisory.findings).map((found: JsonObject): Finding => ({
+        id: advisoryId(asString(advisory.url), asArray(advisory.cves)[0] ?? `npm-${advisory.id}`),
+        package: asString(advisory.module_name) ?? '',
+        installedVersion: asString(found.version),
+        fixedVersion: asString(advisory.patched_versions),
+        severity: severityFromName(advisory.severity),
+        location: asString(asArray(found.paths)[0]) ?? '-',
+        tool: 'npm audit',
+        title: asString(advisory.title),
+        url: asString(advisory.url),
+        aliases: asArray(advisory.cves),
+      }))
+    );
+    return { format: 'npm-audit', tool: 'npm audit', findings };
+  }
+
+  // Entries whose `via` names only other packages are vulnerable through
+  // them; the advisories are reported on those packages
+  const findings = Object.values(data.vulnerabilities as Record<string, JsonObject>).flatMap(entry => {
+    const fix = entry.fixAvailable;
+    const fixedVersion = isObject(fix) ? (fix.name === entry.name ? fix.version : `${fix.name}@${fix.version}`) : undefined;
+    return asArray(entry.via)
+      .filter(isObject)
+      .map((via): Finding => ({
+        id: advisoryId(asString(via.url), `npm-${via.source}`),
+        package: asString(via.name) ?? asString(entry.name) ?? '',
+        fixedVersion,
+        severity: severityFromName(via.severity ?? entry.severity),
+        location: asString(asArray(entry.nodes)[0]) ?? '-',
+        tool: 'npm audit',
+        title: asString(via.title),
+        url: asString(via.url),
+      }));
+  });
+  return { format: 'npm-audit', tool: 'npm audit', findings };
+}
+
+// Read a document as one of the supported reports; null when it is none of them
+export function importFindings(data: unknown): ImportedFindings | null {
+  if (!isObject(data)) return null;
+  if (isSarif(data)) return importSarif(data);
+  if (isGrype(data)) return importGrype(data);
+  if (isOsvScanner(data)) return importOsvScanner(data);
+  if (isNpmAudit(data)) return importNpmAudit(data);
+  return null;
+}
+
+// The findings as a Trivy report, one Result per location, so they get the
+// severity dashboard and vulnerability tables
+export function findingsReport(imported: ImportedFindings, name?: string): TrivyReport {
+  const results = new Map<string, TrivyResult>();
+  imported.findings.forEach(finding => {
+    let result = results.get(finding.location);
+    if (!result) {
+      result = { Target: finding.location, Type: finding.tool, Vulnerabilities: [] };
+      results.set(finding.location, result);
+    }
+    const vulnerability: TrivyVulnerability = {
+      VulnerabilityID: finding.id,
+      PkgName: finding.package,
+      InstalledVersion: finding.installedVersion ?? '',
+      FixedVersion: finding.fixedVersion,
+      Severity: finding.severity,
+      Title: finding.title,
+      PrimaryURL: finding.url,
+      Aliases: finding.aliases && finding.aliases.length > 0 ? finding.aliases : undefined,
+    };
+    result.Vulnerabilities!.push(
+      Object.fromEntries(Object.entries(vulnerability).filter(([, value]) => value !== undefined)) as TrivyVulnerability
+    );
+  });
+
+  const label = FINDINGS_FORMATS.find(({ value }) => value === imported.format)?.label ?? imported.format;
+  return {
+    ArtifactName: imported.target ?? name,
+    ArtifactType: imported.tool.toLowerCase() === label.toLowerCase() ? label : `${label} (${imported.tool})`,
+    CreatedAt: imported.createdAt,
+    Results: Array.from(results.values()),
+  };
+}
@@ -0,0 +1,271 @@
+import JSON5 from 'json5';
+import { parseAllDocuments } from 'yaml';
+
+// Text formats the viewer can load; all of them normalize to plain JSON values
+export type InputFormat = 'json' | 'ndjson' | 'json5' | 'yaml' | 'csv';
+
+export type FormatSelection = InputFormat | 'auto';
+
+export const INPUT_FORMATS: { value: InputFormat; label: string; extensions: string[] }[] = [
+  { value: 'json', label: 'JSON', extensions: ['.json'] },
+  { value: 'ndjson', label: 'NDJSON', extensions: ['.ndjson', '.jsonl'] },
+  { value: 'json5', label: 'JSON5 / JSONC', extensions: ['.json5', '.jsonc'] },
+  { value: 'yaml', label: 'YAML', extensions: ['.yaml', '.yml'] },
+  { value: 'csv', label: 'CSV / TSV', extensions: ['.csv', '.tsv'] },
+];
+
+export const SUPPORTED_EXTENSIONS = INPUT_FORMATS.flatMap(format => format.extensions);
+
+// Position in the input text; line and column are 1-based
+export interface SourceLocation {
+  line: number;
+  column: number;
+  offset: number;
+}
+
+// Parse failure with the position it happened at, when the parser reports one
+export class DocumentParseError extends Error {
+  constructor(message: string, readonly location: SourceLocation | null) {
+    super(message);
+    this.name = 'DocumentParseError';
+  }
+}
+
+export function locationFromOffset(text: string, offset: number): SourceLocation {
+  const clamped = Math.max(0, Math.min(offset, text.length));
+  let line = 1;
+  let lineStart = 0;
+  for (let index = text.indexOf('\n'); index !== -1 && index < clamped; index = text.indexOf('\n', index + 1)) {
+    line++;
+    lineStart = index + 1;
+  }
+  return { line, column: clamped - lineStart + 1, offset: clamped };
+}
+
+export function locationFromLineColumn(text: string, line: number, column: number): SourceLocation {
+  let lineStart = 0;
+  for (let current = 1; current < line; current++) {
+    const next = text.indexOf('\n', lineStart);
+    if (next === -1) break;
+    lineStart = next + 1;
+  }
+  return locationFromOffset(text, lineStart + column - 1);
+}
+
+// Work out where a parser error points to. JSON.parse only reports an offset
+// in some engines; without one, JSON5 (a superset of JSON) usually finds the spot.
+const locateError = (error: unknown, text: string, format: InputFormat): SourceLocation | null => {
+  if (error instanceof DocumentParseError) return error.location;
+  if (typeof error !== 'object' || error === null) return null;
+
+  const { lineNumber, columnNumber, linePos } = error as {
+    lineNumber?: number;
+    columnNumber?: number;
+    linePos?: { line: number; col: number }[];
+  };
+  if (typeof lineNumber === 'number' && typeof columnNumber === 'number') {
+    return locationFromLineColumn(text, lineNumber, columnNumber);
+  }
+  if (linePos?.[0]) return locationFromLineColumn(text, linePos[0].line, linePos[0].col);
+  if (format !== 'json') return null;
+
+  const message = error instanceof Error ? error.message : '';
+  const lineColumn = /line (\d+) column (\d+)/.exec(message);
+  if (lineColumn) return locationFromLineColumn(text, Number(lineColumn[1]), Number(lineColumn[2]));
+  const position = /at position (\d+)/.exec(message);
+  if (position) return locationFromOffset(text, Number(position[1]));
+  if (/end of JSON input/.test(message)) return locationFromOffset(text, text.trimEnd().length);
+  try {
+    JSON5.parse(text);
+  } catch (e) {
+    return locateError(e, text, 'json5');
+  }
+  return null;
+};
+
+export const formatLabel = (format: InputFormat): string =>
+  INPUT_FORMATS.find(({ value }) => value === format)?.label ?? format;
+
+const formatFromFileName = (fileName: string): InputFormat | null => {
+  const lower = fileName.toLowerCase();
+  return INPUT_FORMATS.find(format => format.extensions.some(ext => lower.endsWith(ext)))?.value ?? null;
+};
+
+const firstLines = (text: string, count: number): string[] => {
+  const lines: string[] = [];
+  let position = 0;
+  while (lines.length < count && position < text.length) {
+    const end = text.indexOf('\n', position);
+    const line = text.slice(position, end === -1 ? text.length : end).trim();
+    if (line) lines.push(line);
+    position = end === -1 ? text.length : end + 1;
+  }
+  return lines;
+};
+
+const isJsonLine = (line: string): boolean => {
+  try {
+    JSON.parse(line);
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+// Delimiters outside double quotes, so quoted fields containing one don't count
+const countDelimiters = (line: string, delimiter: string): number => {
+  let count = 0;
+  let inQuotes = false;
+  for (const char of line) {
+    if (char === '"') inQuotes = !inQuotes;
+    else if (char === delimiter && !inQuotes) count++;
+  }
+  return count;
+};
+
+const detectDelimiter = (lines: string[]): string | null => {
+  for (const delimiter of ['\t', ',', ';']) {
+    const counts = lines.map(line => countDelimiters(line, delimiter));
+    if (counts[0] > 0 && counts.every(count => count === counts[0])) return delimiter;
+  }
+  return null;
+};
+
+// Guess the format from the file extension, then from the first lines of text.
+// Only a small prefix is inspected so detection stays cheap for large inputs.
+export function detectFormat(text: string, fileName?: string): InputFormat {
+  const fromName = fileName ? formatFromFileName(fileName) : null;
+  if (fromName) return fromName;
+
+  const trimmed = text.trimStart();
+  if (trimmed.startsWith('//') || trimmed.startsWith('/*')) return 'json5';
+
+  if (trimmed.startsWith('{') || trimmed.startsWith('[')) {
+    const lines = firstLines(trimmed, 2);
+    if (lines.length > 1 && trimmed.startsWith('{') && isJsonLine(lines[0]) && isJsonLine(lines[1])) {
+      return 'ndjson';
+    }
+    const sample = trimmed.slice(0, 64 * 1024);
+    if (/^\s*(\/\/|\/\*)/m.test(sample) || /,\s*[}\]]/.test(sample)) return 'json5';
+    return 'json';
+  }
+
+  const lines = firstLines(trimmed, 5);
+  if (lines.length === 0) return 'json';
+  if (lines[0] === '---' || lines[0].startsWith('- ') || /^[\w"'.-][^,\t]*:(\s|$)/.test(lines[0])) return 'yaml';
+  if (detectDelimiter(lines)) return 'csv';
+  return 'json';
+}
+
+// Receives how many characters of the text have been parsed so far
+export type ParseProgressCallback = (loaded: number) => void;
+
+// Parse newline-delimited JSON into an array, reporting the failing line
+export function parseNdjson(text: string, onProgress?: ParseProgressCallback): unknown[] {
+  const records: unknown[] = [];
+  let lineStart = 0;
+  text.split('\n').forEach((line, index) => {
+    if (line.trim()) {
+      try {
+        records.push(JSON.parse(line));
+      } catch (e) {
+        const location = locateError(e, line, 'json');
+        throw new DocumentParseError(
+          `Line ${index + 1}: ${e instanceof Error ? e.message : 'Invalid JSON'}`,
+          location ? { line: index + 1, column: location.column, offset: lineStart + location.offset } : locationFromOffset(text, lineStart)
+        );
+      }
+    }
+    lineStart += line.length + 1;
+    onProgress?.(Math.min(lineStart, text.length));
+  });
+  return records;
+}
+
+// Parse YAML; multi-document streams (e.g. Kubernetes manifests) become an array
+export function parseYaml(text: string): unknown {
+  const documents = parseAllDocuments(text);
+  const values = documents.map(document => {
+    const [first] = document.errors;
+    if (first) throw first;
+    return document.toJSON();
+  });
+  return values.length === 1 ? values[0] : values.filter(value => value !== null);
+}
+
+// RFC 4180 CSV (or TSV) into an array of objects keyed by the header row
+export function parseCsv(text: string, onProgress?: ParseProgressCallback): Record<string, string>[] {
+  const delimiter = detectDelimiter(firstLines(text, 5)) ?? ',';
+  const records: string[][] = [];
+  let record: string[] = [];
+  let field = '';
+  let inQuotes = false;
+  let quoteStart = 0;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"' && field === '') {
+      inQuotes = true;
+      quoteStart = i;
+    } else if (char === delimiter) {
+      record.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      record.push(field);
+      records.push(record);
+      record = [];
+      field = '';
+      onProgress?.(i + 1);
+    } else {
+      field += char;
+    }
+  }
+  if (inQuotes) throw new DocumentParseError('Unterminated quoted field', locationFromOffset(text, quoteStart));
+  if (field !== '' || record.length > 0) {
+    record.push(field);
+    records.push(record);
+  }
+
+  const [headers = [], ...rows] = records.filter(row => row.some(cell => cell !== ''));
+  return rows.map(row =>
+    Object.fromEntries(headers.map((header, index) => [header || `Column ${index + 1}`, row[index] ?? '']))
+  );
+}
+
+const parseAs = (text: string, format: InputFormat, onProgress?: ParseProgressCallback): unknown => {
+  switch (format) {
+    case 'ndjson':
+      return parseNdjson(text, onProgress);
+    case 'json5':
+      return JSON5.parse(text);
+    case 'yaml':
+      return parseYaml(text);
+    case 'csv':
+      return parseCsv(text, onProgress);
+    default:
+      return JSON.parse(text);
+  }
+};
+
+// Whether parsing the format reports progress; the others parse in one call
+export const reportsParseProgress = (format: InputFormat): boolean => format === 'ndjson' || format === 'csv';
+
+// Parse text in the given format. Failures are rethrown as DocumentParseError
+// carrying the line and column of the problem where it can be determined.
+export function parseDocument(text: string, format: InputFormat, onProgress?: ParseProgressCallback): unknown {
+  try {
+    return parseAs(text, format, onProgress);
+  } catch (e) {
+    throw new DocumentParseError(e instanceof Error ? e.message : 'Invalid input', locateError(e, text, format));
+  }
+}
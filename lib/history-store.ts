@@ -0,0 +1,113 @@
+import type { ViewSnapshot } from './session';
+import { randomUuid } from './uuid';
+
+// Loaded documents kept in IndexedDB. Metadata and document text live in
+// separate stores so the history list can be read without loading every document.
+
+export interface HistoryEntry {
+  id: string;
+  name: string;
+  sourceName?: string;
+  // Size of the document text in bytes
+  size: number;
+  createdAt: number;
+  updatedAt: number;
+  view: ViewSnapshot;
+}
+
+export interface HistoryDocument {
+  entry: HistoryEntry;
+  text: string;
+}
+
+const DB_NAME = 'json-table-viewer';
+const DB_VERSION = 1;
+const ENTRIES = 'entries';
+const DOCUMENTS = 'documents';
+
+// Oldest entries beyond this are dropped when a new document is saved
+export const MAX_HISTORY_ENTRIES = 50;
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = (): Promise<IDBDatabase> => {
+  if (typeof indexedDB === 'undefined') return Promise.reject(new Error('IndexedDB is not available'));
+  dbPromise ??= new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(ENTRIES)) {
+        db.createObjectStore(ENTRIES, { keyPath: 'id' });
+      }
+      if (!db.objectStoreNames.contains(DOCUMENTS)) {
+        db.createObjectStore(DOCUMENTS);
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => {
+      dbPromise = null;
+      reject(request.error);
+    };
+  });
+  return dbPromise;
+};
+
+const promisify = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const transactionDone = (transaction: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+
+export const createHistoryId = (): string => randomUuid();
+
+// Most recently used first
+export async function listHistory(): Promise<HistoryEntry[]> {
+  const db = await openDb();
+  const entries = await promisify<HistoryEntry[]>(db.transaction(ENTRIES).objectStore(ENTRIES).getAll());
+  return entries.sort((a, b) => b.updatedAt - a.updatedAt);
+}
+
+export async function loadHistoryDocument(id: string): Promise<HistoryDocument | null> {
+  const db = await openDb();
+  const transaction = db.transaction([ENTRIES, DOCUMENTS]);
+  const [entry, text] = await Promise.all([
+    promisify<HistoryEntry | undefined>(transaction.objectStore(ENTRIES).get(id)),
+    promisify<string | undefined>(transaction.objectStore(DOCUMENTS).get(id)),
+  ]);
+  return entry && text !== undefined ? { entry, text } : null;
+}
+
+// Insert or replace an entry. `text` can be left out when only the view changed.
+export async function saveHistory(entry: HistoryEntry, text?: string): Promise<void> {
+  const db = await openDb();
+  const transaction = db.transaction([ENTRIES, DOCUMENTS], 'readwrite');
+  transaction.objectStore(ENTRIES).put(entry);
+  if (text !== undefined) transaction.objectStore(DOCUMENTS).put(text, entry.id);
+  await transactionDone(transaction);
+
+  const entries = await listHistory();
+  await Promise.all(entries.slice(MAX_HISTORY_ENTRIES).map(stale => deleteHistory(stale.id)));
+}
+
+export async function deleteHistory(id: string): Promise<void> {
+  const db = await openDb();
+  const transaction = db.transaction([ENTRIES, DOCUMENTS], 'readwrite');
+  transaction.objectStore(ENTRIES).delete(id);
+  transaction.objectStore(DOCUMENTS).delete(id);
+  await transactionDone(transaction);
+}
+
+export async function clearHistory(): Promise<void> {
+  const db = await openDb();
+  const transaction = db.transaction([ENTRIES, DOCUMENTS], 'readwrite');
+  transaction.objectStore(ENTRIES).clear();
+  transaction.objectStore(DOCUMENTS).clear();
+  await transactionDone(transaction);
+}
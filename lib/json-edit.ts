@@ -0,0 +1,115 @@
+import { childPointer, formatPointer, parsePointer } from './json-pointer';
+import { locateItems, locatePointer } from './json-source';
+
+// Structural edits to JSON text that touch only the affected value, so the
+// rest of the document keeps its formatting. Each edit is a single splice,
+// which also makes it cheap to keep for undo.
+
+export interface TextEdit {
+  from: number;
+  to: number;
+  insert: string;
+}
+
+export class JsonEditError extends Error {}
+
+export type Primitive = string | number | boolean | null;
+
+export function applyTextEdit(text: string, edit: TextEdit): string {
+  return text.slice(0, edit.from) + edit.insert + text.slice(edit.to);
+}
+
+// The edit that undoes `edit` once it has been applied to `text`
+export function invertTextEdit(text: string, edit: TextEdit): TextEdit {
+  return { from: edit.from, to: edit.from + edit.insert.length, insert: text.slice(edit.from, edit.to) };
+}
+
+// Leading whitespace of the line holding `pos`
+const lineIndent = (text: string, pos: number): string => {
+  const lineStart = text.lastIndexOf('\n', pos - 1) + 1;
+  return /^[ \t]*/.exec(text.slice(lineStart, pos))![0];
+};
+
+// One level of indentation, judged from the first indented line
+const indentUnit = (text: string): string => /\n([ \t]+)\S/.exec(text)?.[1] ?? '  ';
+
+// Serialize `value` for a position indented by `indent`
+const serialize = (value: unknown, indent: string, unit: string, multiline: boolean): string =>
+  multiline ? JSON.stringify(value, null, unit).replace(/\n/g, `\n${indent}`) : JSON.stringify(value);
+
+const requireLocation = <T>(location: T | null, pointer: string): T => {
+  if (location === null) throw new JsonEditError(`Cannot find ${pointer || 'the document root'} in the input`);
+  return location;
+};
+
+export function setValue(text: string, pointer: string, value: unknown): TextEdit {
+  const { value: range } = requireLocation(locatePointer(text, pointer), pointer);
+  const multiline = text.slice(range.from, range.to).includes('\n');
+  return { ...range, insert: serialize(value, lineIndent(text, range.from), indentUnit(text), multiline) };
+}
+
+// Append `value` to the array at `pointer`, or add it under `key` to the object there
+export function insertValue(text: string, pointer: string, value: unknown, key?: string): TextEdit {
+  const { value: container } = requireLocation(locatePointer(text, pointer), pointer);
+  const items = requireLocation(locateItems(text, pointer), pointer);
+  const isObject = text[container.from] === '{';
+  if (isObject && key === undefined) throw new JsonEditError('A key is required to add to an object');
+  if (isObject && locatePointer(text, childPointer(pointer, key!)!) !== null) {
+    throw new JsonEditError(`Key "${key}" already exists`);
+  }
+
+  const unit = indentUnit(text);
+  const last = items[items.length - 1];
+  if (!last) {
+    // Open up an empty container the way the rest of the document is laid out
+    const multiline = text.includes('\n');
+    const outer = lineIndent(text, container.from);
+    const indent = outer + unit;
+    const entry = (isObject ? `${JSON.stringify(key)}: ` : '') + serialize(value, indent, unit, multiline);
+    return { from: container.from + 1, to: container.to - 1, insert: multiline ? `\n${indent}${entry}\n${outer}` : entry };
+  }
+
+  // Copy the spacing around the existing items
+  const gap = items.length > 1
+    ? text.slice(items[items.length - 2].item.to, last.item.from).replace(/^\s*,/, '')
+    : text.slice(container.from + 1, last.item.from);
+  const multiline = gap.includes('\n');
+  const indent = lineIndent(text, last.item.from);
+  let separator = '';
+  if (isObject) {
+    const head = text.slice(last.item.from, last.value.from);
+    separator = head.slice(head.lastIndexOf('"') + 1);
+  }
+  // Objects and arrays go on one line when their siblings do
+  const expand = multiline && text.slice(last.value.from, last.value.to).includes('\n');
+  const entry = (isObject ? JSON.stringify(key) + separator : '') + serialize(value, indent, unit, expand);
+  return { from: last.item.to, to: last.item.to, insert: `,${gap}${entry}` };
+}
+
+export function removeValue(text: string, pointer: string): TextEdit {
+  const tokens = parsePointer(pointer);
+  if (tokens.length === 0) throw new JsonEditError('The document root cannot be removed');
+  const parentPointer = formatPointer(tokens.slice(0, -1));
+  const { item } = requireLocation(locatePointer(text, pointer), pointer);
+  const { value: container } = requireLocation(locatePointer(text, parentPointer), parentPointer);
+  const items = requireLocation(locateItems(text, parentPointer), parentPointer);
+  const index = items.findIndex(location => location.item.from === item.from);
+
+  if (items.length === 1) return { from: container.from + 1, to: container.to - 1, insert: '' };
+  // Take the following separator with the item, or the preceding one for the last item
+  if (index < items.length - 1) return { from: item.from, to: items[index + 1].item.from, insert: '' };
+  return { from: items[index - 1].item.to, to: item.to, insert: '' };
+}
+
+// A blank value shaped like `value`, used as the template for new rows
+export function emptyLike(value: unknown): unknown {
+  if (Array.isArray(value)) return [];
+  if (value === null || value === undefined) return null;
+  if (typeof value === 'object') {
+    return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, emptyLike(item)]));
+  }
+  if (typeof value === 'string') return '';
+  if (typeof value === 'number') return 0;
+  if (typeof value === 'boolean') return false;
+  return null;
+}
@@ -0,0 +1,56 @@
+// RFC 6901 JSON Pointers, the common way to address a value in a document
+// across validation errors, table cells and the raw text
+
+const escapeToken = (token: string | number): string =>
+  String(token).replace(/~/g, '~0').replace(/\//g, '~1');
+
+const unescapeToken = (token: string): string => token.replace(/~1/g, '/').replace(/~0/g, '~');
+
+// Pointer to a child of `parent`; stays undefined when the parent has no pointer
+// (e.g. values that came out of a query rather than the document itself)
+export function childPointer(parent: string | undefined, token: string | number): string | undefined {
+  return parent === undefined ? undefined : `${parent}/${escapeToken(token)}`;
+}
+
+export function parsePointer(pointer: string): string[] {
+  if (pointer === '') return [];
+  return pointer.replace(/^\//, '').split('/').map(unescapeToken);
+}
+
+export function formatPointer(tokens: (string | number)[]): string {
+  return tokens.map(token => `/${escapeToken(token)}`).join('');
+}
+
+// Whether `pointer` addresses `ancestor` itself or something inside it
+export function isWithinPointer(pointer: string, ancestor: string): boolean {
+  return pointer === ancestor || pointer.startsWith(`${ancestor}/`);
+}
+
+// The pointer itself followed by each of its ancestors, up to the root ('')
+export function pointerAncestors(pointer: string): string[] {
+  const ancestors = [pointer];
+  for (let end = pointer.lastIndexOf('/'); end > 0; end = pointer.lastIndexOf('/', end - 1)) {
+    ancestors.push(pointer.slice(0, end));
+  }
+  if (pointer !== '') ancestors.push('');
+  return ancestors;
+}
+
+// Array index tokens are plain decimals without leading zeros (RFC 6901 section 4)
+const ARRAY_INDEX_PATTERN = /^(0|[1-9]\d*)$/;
+
+// Only the document's own entries resolve, so tokens such as "constructor" or
+// "__proto__" don't reach into the prototype chain
+export function getAtPointer(data: unknown, pointer: string): unknown {
+  let current: any = data;
+  for (const token of parsePointer(pointer)) {
+    if (typeof current !== 'object' || current === null) return undefined;
+    if (Array.isArray(current)) {
+      if (!ARRAY_INDEX_PATTERN.test(token) || Number(token) >= current.length) return undefined;
+    } else if (!Object.prototype.hasOwnProperty.call(current, token)) {
+      return undefined;
+    }
+    current = current[token];
+  }
+  return current;
+}
@@ -0,0 +1,200 @@
+import { formatPointer, parsePointer } from './json-pointer';
+
+// Maps between JSON Pointers and positions in JSON text, without building a
+// tree: each lookup is a single forward scan that stops as soon as it can.
+// Only strict JSON is understood; other input yields null.
+
+export interface SourceRange {
+  from: number;
+  to: number;
+}
+
+class ScanError extends Error {}
+
+const isWhitespace = (char: string) => char === ' ' || char === '\n' || char === '\r' || char === '\t';
+
+const skipWhitespace = (text: string, pos: number): number => {
+  while (pos < text.length && isWhitespace(text[pos])) pos++;
+  return pos;
+};
+
+const expect = (text: string, pos: number, char: string): number => {
+  if (text[pos] !== char) throw new ScanError(`Expected ${char} at ${pos}`);
+  return pos + 1;
+};
+
+// End of the string literal starting at `pos`
+const skipString = (text: string, pos: number): number => {
+  pos = expect(text, pos, '"');
+  while (pos < text.length) {
+    const char = text[pos];
+    if (char === '\\') pos += 2;
+    else if (char === '"') return pos + 1;
+    else pos++;
+  }
+  throw new ScanError('Unterminated string');
+};
+
+const readKey = (text: string, pos: number): { key: string; end: number } => {
+  const end = skipString(text, pos);
+  return { key: JSON.parse(text.slice(pos, end)), end };
+};
+
+// End of the value starting at `pos`
+const skipValue = (text: string, pos: number): number => {
+  const char = text[pos];
+  if (char === '"') return skipString(text, pos);
+  if (char === '{' || char === '[') {
+    let depth = 0;
+    while (pos < text.length) {
+      const current = text[pos];
+      if (current === '"') {
+        pos = skipString(text, pos);
+        continue;
+      }
+      if (current === '{' || current === '[') depth++;
+      else if (current === '}' || current === ']') {
+        depth--;
+        if (depth === 0) return pos + 1;
+      }
+      pos++;
+    }
+    throw new ScanError('Unterminated container');
+  }
+  const start = pos;
+  while (pos < text.length && !isWhitespace(text[pos]) && text[pos] !== ',' && text[pos] !== '}' && text[pos] !== ']') pos++;
+  if (pos === start) throw new ScanError(`Unexpected ${char ?? 'end of input'} at ${pos}`);
+  return pos;
+};
+
+// Step past the separator after a member or element; true when the container ends
+const afterItem = (text: string, pos: number, close: string): { pos: number; closed: boolean } => {
+  pos = skipWhitespace(text, pos);
+  if (text[pos] === ',') return { pos: skipWhitespace(text, pos + 1), closed: false };
+  return { pos: expect(text, pos, close), closed: true };
+};
+
+export interface PointerLocation {
+  // The value itself
+  value: SourceRange;
+  // The whole member or element, including an object key
+  item: SourceRange;
+}
+
+// Where the value at `pointer` sits in `text`
+export function locatePointer(text: string, pointer: string): PointerLocation | null {
+  try {
+    let pos = skipWhitespace(text, 0);
+    let itemStart = pos;
+    for (const token of parsePointer(pointer)) {
+      const open = text[pos];
+      if (open !== '{' && open !== '[') return null;
+      const close = open === '{' ? '}' : ']';
+      pos = skipWhitespace(text, pos + 1);
+      if (text[pos] === close) return null;
+
+      for (let index = 0; ; index++) {
+        itemStart = pos;
+        let matches: boolean;
+        if (open === '{') {
+          const { key, end } = readKey(text, pos);
+          pos = skipWhitespace(text, expect(text, skipWhitespace(text, end), ':'));
+          matches = key === token;
+        } else {
+          matches = String(index) === token;
+        }
+        if (matches) break;
+        const next = afterItem(text, skipValue(text, pos), close);
+        if (next.closed) return null;
+        pos = next.pos;
+      }
+    }
+    const end = skipValue(text, pos);
+    return { value: { from: pos, to: end }, item: { from: itemStart, to: end } };
+  } catch (e) {
+    if (e instanceof ScanError || e instanceof SyntaxError) return null;
+    throw e;
+  }
+}
+
+// Where each direct child of the object or array at `pointer` sits, in
+// document order
+export function locateItems(text: string, pointer: string): PointerLocation[] | null {
+  const container = locatePointer(text, pointer);
+  if (!container) return null;
+  try {
+    let pos = container.value.from;
+    const open = text[pos];
+    if (open !== '{' && open !== '[') return null;
+    const close = open === '{' ? '}' : ']';
+    pos = skipWhitespace(text, pos + 1);
+    const items: PointerLocation[] = [];
+    if (text[pos] === close) return items;
+
+    for (;;) {
+      const itemStart = pos;
+      if (open === '{') pos = skipWhitespace(text, expect(text, skipWhitespace(text, skipString(text, pos)), ':'));
+      const end = skipValue(text, pos);
+      items.push({ value: { from: pos, to: end }, item: { from: itemStart, to: end } });
+      const next = afterItem(text, end, close);
+      if (next.closed) return items;
+      pos = next.pos;
+    }
+  } catch (e) {
+    if (e instanceof ScanError) return null;
+    throw e;
+  }
+}
+
+// Pointer of the innermost value at `offset`. A position on an object key
+// belongs to that member's value; whitespace between items to the container.
+export function pointerAtOffset(text: string, offset: number): string | null {
+  const path: (string | number)[] = [];
+  let found: string | null = null;
+
+  // Scan the value at `pos`, returning its end; sets `found` once resolved
+  const walk = (pos: number): number => {
+    const open = text[pos];
+    if (open !== '{' && open !== '[') return skipValue(text, pos);
+    const close = open === '{' ? '}' : ']';
+    pos = skipWhitespace(text, pos + 1);
+    if (text[pos] === close) return pos + 1;
+
+    for (let index = 0; ; index++) {
+      const itemStart = pos;
+      if (offset < itemStart) {
+        found = formatPointer(path);
+        return pos;
+      }
+      let token: string | number = index;
+      if (open === '{') {
+        const { key, end } = readKey(text, pos);
+        token = key;
+        pos = skipWhitespace(text, expect(text, skipWhitespace(text, end), ':'));
+        if (offset < pos) {
+          found = formatPointer([...path, key]);
+          return pos;
+        }
+      }
+      path.push(token);
+      const end = walk(pos);
+      if (found === null && offset < end) found = formatPointer(path);
+      path.pop();
+      if (found !== null) return end;
+
+      const next = afterItem(text, end, close);
+      if (next.closed) return next.pos;
+      pos = next.pos;
+    }
+  };
+
+  try {
+    const start = skipWhitespace(text, 0);
+    const end = walk(start);
+    if (found === null && offset >= start && offset <= end) found = '';
+    return found;
+  } catch (e) {
+    if (e instanceof ScanError || e instanceof SyntaxError) return null;
+    throw e;
+  }
+}
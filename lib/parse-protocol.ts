@@ -0,0 +1,36 @@
+// Messages exchanged between the page and the parse worker
+
+import type { OpenedFile } from './documents';
+import type { FormatSelection, InputFormat, SourceLocation } from './formats';
+
+export interface ParseRequest {
+  id: number;
+  type: 'parse';
+  text: string;
+  format: FormatSelection;
+  fileName?: string;
+}
+
+// Combine several documents into one, as combineDocuments does
+export interface CombineRequest {
+  id: number;
+  type: 'combine';
+  files: OpenedFile[];
+}
+
+export type WorkerRequest = ParseRequest | CombineRequest;
+
+export type ParsePhase = 'reading' | 'parsing';
+
+export type ParseResponse =
+  // `loaded` is null while parsing formats that can't report how far they got
+  | { id: number; type: 'progress'; phase: ParsePhase; loaded: number | null; total: number; format: InputFormat }
+  | { id: number; type: 'result'; data: unknown; format: InputFormat }
+  | { id: number; type: 'error'; message: string; location: SourceLocation | null; format: InputFormat };
+
+export interface CombineResponse {
+  id: number;
+  type: 'combined';
+  data: Record<string, unknown[]>;
+  failed: string[];
+}
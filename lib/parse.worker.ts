@@ -0,0 +1,42 @@
+// Parses documents off the main thread so large inputs don't freeze the page
+
+import { combineDocuments } from './documents';
+import { detectFormat, DocumentParseError, parseDocument, reportsParseProgress } from './formats';
+import type { CombineResponse, ParseRequest, ParseResponse, WorkerRequest } from './parse-protocol';
+
+// Progress messages per parse, at most
+const PROGRESS_STEPS = 100;
+
+const post = (message: ParseResponse | CombineResponse) => self.postMessage(message);
+
+self.onmessage = (event: MessageEvent<WorkerRequest>) => {
+  if (event.data.type === 'combine') {
+    post({ id: event.data.id, type: 'combined', ...combineDocuments(event.data.files) });
+    return;
+  }
+  parse(event.data);
+};
+
+function parse(request: ParseRequest) {
+  const { id, text, fileName } = request;
+  const format = request.format === 'auto' ? detectFormat(text, fileName) : request.format;
+  const total = text.length;
+  const tracked = reportsParseProgress(format);
+  post({ id, type: 'progress', phase: 'parsing', loaded: tracked ? 0 : null, total, format });
+
+  const step = Math.max(1, Math.ceil(total / PROGRESS_STEPS));
+  let reported = 0;
+  const onProgress = (loaded: number) => {
+    if (loaded - reported < step) return;
+    reported = loaded;
+    post({ id, type: 'progress', phase: 'parsing', loaded, total, format });
+  };
+
+  try {
+    const data = parseDocument(text, format, tracked ? onProgress : undefined);
+    post({ id, type: 'result', data, format });
+  } catch (e) {
+    const location = e instanceof DocumentParseError ? e.location : null;
+    post({ id, type: 'error', message: e instanceof Error ? e.message : 'Invalid input', location, format });
+  }
+}
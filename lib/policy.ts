@@ -0,0 +1,189 @@
+import { parseYaml } from './formats';
+import { normalizeSeverity, RESULT_TABLE_KEYS, SEVERITIES, type Severity, type TrivyReport } from './trivy';
+
+// Policy gate over a Trivy report: rules that each select rows of one result
+// table and fail when more rows match than allowed. Used by the report view
+// and the /api/policy route, so CI and the viewer give the same verdict.
+//
+// A policy is JSON or YAML:
+//   rules:
+//     - name: No fixable criticals
+//       table: Vulnerabilities
+//       severity: CRITICAL
+//       fixable: true
+//     - name: No old highs
+//       table: Vulnerabilities
+//       severity: HIGH
+//       olderThanDays: 30
+//     - name: No GPL licenses
+//       table: Licenses
+//       match: { Name: "GPL*" }
+//     - name: No secrets
+//       table: Secrets
+
+export type PolicyTable = (typeof RESULT_TABLE_KEYS)[number];
+
+export interface PolicyRule {
+  name: string;
+  table: PolicyTable;
+  // Severities that count; any when unset
+  severity?: Severity[];
+  // Only rows with (true) or without (false) a FixedVersion
+  fixable?: boolean;
+  // Only rows published more than this many days ago
+  olderThanDays?: number;
+  // Column patterns that must all match, with * for any text; for lists,
+  // any item may match
+  match?: Record<string, string>;
+  // Matching rows allowed before the rule fails
+  max: number;
+}
+
+export interface Policy {
+  rules: PolicyRule[];
+}
+
+export interface PolicyViolation {
+  // JSON Pointer of the row within the report
+  pointer: string;
+  target: string;
+  severity?: Severity;
+  label: string;
+}
+
+export interface RuleVerdict {
+  rule: PolicyRule;
+  passed: boolean;
+  violations: PolicyViolation[];
+}
+
+export interface PolicyVerdict {
+  passed: boolean;
+  rules: RuleVerdict[];
+}
+
+export class PolicyError extends Error {}
+
+type JsonObject = Record<string, any>;
+
+const isObject = (value: unknown): value is JsonObject => typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const RULE_KEYS = ['name', 'table', 'severity', 'fixable', 'olderThanDays', 'match', 'max'];
+
+function readRule(value: unknown, index: number): PolicyRule {
+  const at = `Rule ${index + 1}`;
+  if (!isObject(value)) throw new PolicyError(`${at} should be an object`);
+  const unknownKey = Object.keys(value).find(key => !RULE_KEYS.includes(key));
+  if (unknownKey) throw new PolicyError(`${at}: unknown setting "${unknownKey}", expected one of: ${RULE_KEYS.join(', ')}`);
+  if (!(RESULT_TABLE_KEYS as readonly string[]).includes(value.table)) {
+    throw new PolicyError(`${at}: table should be one of: ${RESULT_TABLE_KEYS.join(', ')}`);
+  }
+
+  const severities = value.severity === undefined ? undefined : (Array.isArray(value.severity) ? value.severity : [value.severity]).map(String);
+  const unknownSeverity = severities?.find(severity => !(SEVERITIES as string[]).includes(severity.toUpperCase()));
+  if (unknownSeverity) throw new PolicyError(`${at}: unknown severity "${unknownSeverity}", expected one of: ${SEVERITIES.join(', ')}`);
+  if (value.fixable !== undefined && typeof value.fixable !== 'boolean') throw new PolicyError(`${at}: fixable should be true or false`);
+  if (value.olderThanDays !== undefined && !(typeof value.olderThanDays === 'number' && value.olderThanDays >= 0)) {
+    throw new PolicyError(`${at}: olderThanDays should be a number of days`);
+  }
+  if (value.match !== undefined && !(isObject(value.match) && Object.values(value.match).every(pattern => typeof pattern === 'string'))) {
+    throw new PolicyError(`${at}: match should map column names to patterns`);
+  }
+  if (value.max !== undefined && !(Number.isInteger(value.max) && value.max >= 0)) throw new PolicyError(`${at}: max should be a whole number`);
+
+  return {
+    name: typeof value.name === 'string' && value.name.trim() ? value.name.trim() : `${at} (${value.table})`,
+    table: value.table,
+    severity: severities?.map(normalizeSeverity),
+    fixable: value.fixable,
+    olderThanDays: value.olderThanDays,
+    match: value.match,
+    max: value.max ?? 0,
+  };
+}
+
+// Read a policy from JSON or YAML: an object with a rules list, or the list itself
+export function parsePolicy(text: string): Policy {
+  let data: unknown;
+  try {
+    data = parseYaml(text);
+  } catch (e) {
+    throw new PolicyError(`Invalid policy: ${e instanceof Error ? e.message : e}`);
+  }
+  const rules = Array.isArray(data) ? data : isObject(data) ? data.rules : undefined;
+  if (!Array.isArray(rules)) throw new PolicyError('A policy needs a "rules" list');
+  return { rules: rules.map(readRule) };
+}
+
+const DAY = 24 * 60 * 60 * 1000;
+
+const wildcard = (pattern: string): RegExp =>
+  new RegExp(`^${pattern.split('*').map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&')).join('.*')}$`, 'i');
+
+const matchesPattern = (value: unknown, pattern: RegExp): boolean =>
+  Array.isArray(value) ? value.some(item => matchesPattern(item, pattern)) : value !== undefined && value !== null && pattern.test(String(value));
+
+// Short description of a row, by table
+const rowLabel = (table: PolicyTable, row: JsonObject): string => {
+  switch (table) {
+    case 'Vulnerabilities':
+      return [row.VulnerabilityID, row.PkgName && `in ${[row.PkgName, row.InstalledVersion].filter(Boolean).join('@')}`].filter(Boolean).join(' ');
+    case 'Misconfigurations':
+      return [row.ID ?? row.AVDID, row.Title].filter(Boolean).join(': ');
+    case 'Secrets':
+      return [row.RuleID, row.StartLine !== undefined && `line ${row.StartLine}`].filter(Boolean).join(', ');
+    case 'Licenses':
+      return [row.Name, row.PkgName ?? row.FilePath].filter(Boolean).join(' in ');
+    case 'Packages':
+      return [row.Name, row.Version].filter(Boolean).join('@');
+  }
+};
+
+function ruleMatches(rule: PolicyRule, row: JsonObject, patterns: [string, RegExp][], now: number): boolean {
+  if (rule.severity && !rule.severity.includes(normalizeSeverity(row.Severity))) return false;
+  if (rule.fixable !== undefined && Boolean(row.FixedVersion) !== rule.fixable) return false;
+  if (rule.olderThanDays !== undefined) {
+    const published = typeof row.PublishedDate === 'string' ? Date.parse(row.PublishedDate) : NaN;
+    if (Number.isNaN(published) || now - published <= rule.olderThanDays * DAY) return false;
+  }
+  return patterns.every(([column, pattern]) => matchesPattern(row[column], pattern));
+}
+
+export function evaluatePolicy(report: TrivyReport, policy: Policy, now = Date.now()): PolicyVerdict {
+  const rules = policy.rules.map((rule): RuleVerdict => {
+    const patterns = Object.entries(rule.match ?? {}).map(([column, pattern]): [string, RegExp] => [column, wildcard(pattern)]);
+    const violations = report.Results.flatMap((result, resultIndex) =>
+      ((result[rule.table] ?? []) as JsonObject[]).flatMap((row, rowIndex) =>
+        isObject(row) && ruleMatches(rule, row, patterns, now)
+          ? [{
+              pointer: `/Results/${resultIndex}/${rule.table}/${rowIndex}`,
+              target: result.Target,
+              severity: row.Severity === undefined ? undefined : normalizeSeverity(row.Severity),
+              label: rowLabel(rule.table, row) || `#${rowIndex + 1}`,
+            }]
+          : []
+      )
+    );
+    return { rule, passed: violations.length <= rule.max, violations };
+  });
+  return { passed: rules.every(rule => rule.passed), rules };
+}
+
+const STORAGE_KEY = 'json-table-viewer:policy';
+
+export function loadPolicyText(): string {
+  try {
+    return localStorage.getItem(STORAGE_KEY) ?? '';
+  } catch {
+    return '';
+  }
+}
+
+export function savePolicyText(text: string) {
+  try {
+    if (text.trim()) localStorage.setItem(STORAGE_KEY, text);
+    else localStorage.removeItem(STORAGE_KEY);
+  } catch (err) {
+    console.error('Failed to save policy:', err);
+  }
+}
@@ -0,0 +1,21 @@
+import { search as jmespathSearch } from 'jmespath';
+import { JSONPath } from 'jsonpath-plus';
+
+export type QueryLanguage = 'jsonpath' | 'jmespath';
+
+export const QUERY_LANGUAGES: { value: QueryLanguage; label: string; placeholder: string }[] = [
+  { value: 'jsonpath', label: 'JSONPath', placeholder: "$.Results[*].Vulnerabilities[?(@.Severity=='CRITICAL')]" },
+  { value: 'jmespath', label: 'JMESPath', placeholder: "Results[].Vulnerabilities[?Severity=='CRITICAL'][]" },
+];
+
+// Evaluate a query against a parsed document. JSONPath always yields a list of
+// matches; a single match is unwrapped so it renders as that value's own table.
+export function runQuery(data: unknown, expression: string, language: QueryLanguage): unknown {
+  if (language === 'jmespath') {
+    return jmespathSearch(data as Parameters<typeof jmespathSearch>[0], expression);
+  }
+
+  const result = JSONPath({ path: expression, json: data as object, wrap: true, eval: 'safe' });
+  const matches: unknown[] = Array.isArray(result) ? result : [];
+  return matches.length === 1 ? matches[0] : matches;
+}
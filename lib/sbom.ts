@@ -0,0 +1,308 @@
+import { isTrivyReport, normalizeSeverity, SEVERITIES, type Severity } from './trivy';
+
+// Software bills of materials: CycloneDX JSON, SPDX JSON, and the package
+// lists of Trivy reports. Each is read into components plus the dependency
+// graph between them.
+
+export type SbomFormat = 'cyclonedx' | 'spdx' | 'trivy';
+
+export const SBOM_FORMATS: { value: SbomFormat; label: string }[] = [
+  { value: 'cyclonedx', label: 'CycloneDX' },
+  { value: 'spdx', label: 'SPDX' },
+  { value: 'trivy', label: 'Trivy' },
+];
+
+export interface SbomComponent {
+  // bom-ref, SPDXID or Trivy package ID; what dependencies refer to
+  ref: string;
+  name: string;
+  version?: string;
+  type?: string;
+  purl?: string;
+  licenses: string[];
+  // "ALG:value"
+  hashes: string[];
+}
+
+export interface SbomVulnerability {
+  ids: string[];
+  // Most severe of them
+  severity: Severity;
+}
+
+export interface Sbom {
+  format: SbomFormat;
+  specVersion?: string;
+  name?: string;
+  createdAt?: string;
+  components: SbomComponent[];
+  // Direct dependencies of each component
+  dependencies: Record<string, string[]>;
+  // Where the graph starts: the described application, or else every
+  // component nothing depends on
+  roots: string[];
+  // The application the document describes, when it names one; its direct
+  // dependencies are the top-level ones
+  application?: string;
+  // Known vulnerabilities by component
+  vulnerable: Record<string, SbomVulnerability>;
+}
+
+type JsonObject = Record<string, any>;
+
+const isObject = (value: unknown): value is JsonObject => typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const asArray = (value: unknown): any[] => (Array.isArray(value) ? value : []);
+
+const asString = (value: unknown): string | undefined => (typeof value === 'string' && value ? value : undefined);
+
+const addDependency = (dependencies: Record<string, string[]>, from: string, to: string) => {
+  const list = (dependencies[from] ??= []);
+  if (!list.includes(to)) list.push(to);
+};
+
+const addVulnerability = (vulnerable: Record<string, SbomVulnerability>, ref: string, id: string, severity: Severity) => {
+  const entry = (vulnerable[ref] ??= { ids: [], severity: 'UNKNOWN' });
+  if (!entry.ids.includes(id)) entry.ids.push(id);
+  if (SEVERITIES.indexOf(severity) < SEVERITIES.indexOf(entry.severity)) entry.severity = severity;
+};
+
+// Components no other component depends on
+const topLevel = (components: SbomComponent[], dependencies: Record<string, string[]>): string[] => {
+  const dependedOn = new Set(Object.values(dependencies).flat());
+  return components.map(({ ref }) => ref).filter(ref => !dependedOn.has(ref));
+};
+
+// CycloneDX 1.x (https://cyclonedx.org/docs/1.6/json/), including Trivy's
+// --format cyclonedx output
+
+const cycloneLicenses = (licenses: unknown): string[] =>
+  asArray(licenses)
+    .map(entry => asString(entry?.expression) ?? asString(entry?.license?.id) ?? asString(entry?.license?.name))
+    .filter((license): license is string => license !== undefined);
+
+function readCycloneDx(data: JsonObject): Sbom {
+  const components: SbomComponent[] = [];
+  // Components can nest, e.g. the files of a package
+  const collect = (entries: unknown) =>
+    asArray(entries).forEach((entry: JsonObject) => {
+      if (!isObject(entry)) return;
+      components.push({
+        ref: asString(entry['bom-ref']) ?? asString(entry.purl) ?? `${entry.name}@${entry.version ?? ''}`,
+        name: asString(entry.group) ? `${entry.group}/${entry.name}` : String(entry.name ?? ''),
+        version: asString(entry.version),
+        type: asString(entry.type),
+        purl: asString(entry.purl),
+        licenses: cycloneLicenses(entry.licenses),
+        hashes: asArray(entry.hashes).map(hash => `${hash?.alg}:${hash?.content}`),
+      });
+      collect(entry.components);
+    });
+
+  const root = data.metadata?.component;
+  if (isObject(root)) collect([root]);
+  collect(data.components);
+
+  const dependencies: Record<string, string[]> = {};
+  asArray(data.dependencies).forEach(entry => {
+    const ref = asString(entry?.ref);
+    if (ref) asArray(entry.dependsOn).forEach(dependency => addDependency(dependencies, ref, String(dependency)));
+  });
+
+  const vulnerable: Record<string, SbomVulnerability> = {};
+  asArray(data.vulnerabilities).forEach(vulnerability => {
+    const severity = asArray(vulnerability?.ratings)
+      .map(rating => normalizeSeverity(rating?.severity))
+      .reduce<Severity>((worst, severity) => (SEVERITIES.indexOf(severity) < SEVERITIES.indexOf(worst) ? severity : worst), 'UNKNOWN');
+    asArray(vulnerability?.affects).forEach(affected => {
+      const ref = asString(affected?.ref);
+      if (ref) addVulnerability(vulnerable, ref, String(vulnerability.id ?? '-'), severity);
+    });
+  });
+
+  const rootRef = isObject(root) && dependencies[components[0].ref] ? components[0].ref : undefined;
+  return {
+    format: 'cyclonedx',
+    specVersion: asString(data.specVersion),
+    name: asString(root?.name),
+    createdAt: asString(data.metadata?.timestamp),
+    components,
+    dependencies,
+    roots: rootRef ? [rootRef] : topLevel(components, dependencies),
+    application: rootRef,
+    vulnerable,
+  };
+}
+
+// SPDX 2.x JSON (https://spdx.github.io/spdx-spec/v2.3/)
+
+// Relationships that mean the first element needs the second, and those that
+// say the reverse
+const SPDX_DEPENDS = ['DEPENDS_ON', 'CONTAINS', 'DYNAMIC_LINK', 'STATIC_LINK', 'HAS_PREREQUISITE'];
+const SPDX_DEPENDED_ON = ['DEPENDENCY_OF', 'CONTAINED_BY', 'PREREQUISITE_FOR', 'RUNTIME_DEPENDENCY_OF', 'DEV_DEPENDENCY_OF', 'BUILD_DEPENDENCY_OF'];
+
+const spdxLicense = (value: unknown): string | undefined => {
+  const license = asString(value);
+  return license && license !== 'NOASSERTION' && license !== 'NONE' ? license : undefined;
+};
+
+function readSpdx(data: JsonObject): Sbom {
+  const components = asArray(data.packages).filter(isObject).map((entry): SbomComponent => ({
+    ref: String(entry.SPDXID ?? entry.name),
+    name: String(entry.name ?? ''),
+    version: asString(entry.versionInfo),
+    type: asString(entry.primaryPackagePurpose)?.toLowerCase(),
+    purl: asString(asArray(entry.externalRefs).find(ref => ref?.referenceType === 'purl')?.referenceLocator),
+    licenses: Array.from(new Set([spdxLicense(entry.licenseConcluded), spdxLicense(entry.licenseDeclared)].filter((license): license is string => !!license))),
+    hashes: asArray(entry.checksums).map(checksum => `${checksum?.algorithm}:${checksum?.checksumValue}`),
+  }));
+  const known = new Set(components.map(({ ref }) => ref));
+
+  const dependencies: Record<string, string[]> = {};
+  const described: string[] = asArray(data.documentDescribes).map(String);
+  asArray(data.relationships).forEach(relationship => {
+    const from = asString(relationship?.spdxElementId);
+    const to = asString(relationship?.relatedSpdxElement);
+    const type = asString(relationship?.relationshipType);
+    if (!from || !to || !type) return;
+    if (type === 'DESCRIBES' && !described.includes(to)) described.push(to);
+    if (!known.has(from) || !known.has(to)) return;
+    if (SPDX_DEPENDS.includes(type)) addDependency(dependencies, from, to);
+    else if (SPDX_DEPENDED_ON.includes(type)) addDependency(dependencies, to, from);
+  });
+
+  const roots = described.filter(ref => known.has(ref));
+  return {
+    format: 'spdx',
+    specVersion: asString(data.spdxVersion),
+    name: asString(data.name),
+    createdAt: asString(data.creationInfo?.created),
+    components,
+    dependencies,
+    roots: roots.length > 0 ? roots : topLevel(components, dependencies),
+    application: roots.length === 1 ? roots[0] : undefined,
+    vulnerable: {},
+  };
+}
+
+// Trivy JSON reports list packages per Result, with DependsOn when the
+// scanner resolved the dependency tree (e.g. lock files)
+
+function readTrivyPackages(data: JsonObject): Sbom | null {
+  const components: SbomComponent[] = [];
+  const dependencies: Record<string, string[]> = {};
+  const vulnerable: Record<string, SbomVulnerability> = {};
+  let hasGraph = false;
+
+  asArray(data.Results).forEach(result => {
+    asArray(result?.Packages).forEach(entry => {
+      if (!isObject(entry)) return;
+      const ref = asString(entry.ID) ?? `${entry.Name}@${entry.Version ?? ''}`;
+      components.push({
+        ref,
+        name: String(entry.Name ?? ''),
+        version: asString(entry.Version),
+        type: asString(result.Type),
+        purl: asString(entry.Identifier?.PURL),
+        licenses: asArray(entry.Licenses).map(String),
+        hashes: asString(entry.Digest) ? [entry.Digest] : [],
+      });
+      const dependsOn = asArray(entry.DependsOn);
+      if (dependsOn.length > 0) hasGraph = true;
+      dependsOn.forEach(dependency => addDependency(dependencies, ref, String(dependency)));
+    });
+    asArray(result?.Vulnerabilities).forEach(vulnerability => {
+      const ref = asString(vulnerability?.PkgID) ?? `${vulnerability?.PkgName}@${vulnerability?.InstalledVersion ?? ''}`;
+      addVulnerability(vulnerable, ref, String(vulnerability?.VulnerabilityID ?? '-'), normalizeSeverity(vulnerability?.Severity));
+    });
+  });
+
+  if (!hasGraph) return null;
+  return {
+    format: 'trivy',
+    name: asString(data.ArtifactName),
+    createdAt: asString(data.CreatedAt),
+    components,
+    dependencies,
+    roots: topLevel(components, dependencies),
+    vulnerable,
+  };
+}
+
+// Read a document as an SBOM; null when it is none. Trivy reports count only
+// when their packages carry a dependency graph.
+export function readSbom(data: unknown): Sbom | null {
+  if (!isObject(data)) return null;
+  if (data.bomFormat === 'CycloneDX') return readCycloneDx(data);
+  if (typeof data.spdxVersion === 'string' && data.spdxVersion.startsWith('SPDX-')) return readSpdx(data);
+  if (isTrivyReport(data)) return readTrivyPackages(data);
+  return null;
+}
+
+// Rows of the components table
+export function componentRows(sbom: Sbom): Record<string, unknown>[] {
+  return sbom.components.map(component => {
+    const vulnerability = sbom.vulnerable[component.ref];
+    return {
+      Name: component.name,
+      Version: component.version ?? '',
+      Type: component.type ?? '',
+      PURL: component.purl ?? '',
+      Licenses: component.licenses,
+      Hashes: component.hashes,
+      Severity: vulnerability?.severity ?? '',
+      Vulnerabilities: vulnerability?.ids ?? [],
+      Dependencies: sbom.dependencies[component.ref]?.length ?? 0,
+    };
+  });
+}
+
+// Chains looked at before giving up on finding more
+const MAX_PATH_STEPS = 10_000;
+
+// Every chain of dependencies from a root down to `ref`, shortest first, so
+// the top-level dependency that pulls it in is the first link. Stops after
+// `limit` chains since large graphs can have a great many.
+export function dependencyPaths(sbom: Sbom, ref: string, limit = 20): string[][] {
+  let steps = 0;
+  const parents: Record<string, string[]> = {};
+  Object.entries(sbom.dependencies).forEach(([from, list]) => list.forEach(to => (parents[to] ??= []).push(from)));
+  const roots = new Set(sbom.roots);
+
+  const paths: string[][] = [];
+  // Breadth-first up the parents, so shorter chains come out first
+  const queue: string[][] = [[ref]];
+  while (queue.length > 0 && paths.length < limit && steps++ < MAX_PATH_STEPS) {
+    const path = queue.shift()!;
+    const head = path[0];
+    const up = (parents[head] ?? []).filter(parent => !path.includes(parent));
+    if (roots.has(head) || up.length === 0) {
+      if (path.length > 1 || roots.has(head)) paths.push(path);
+      continue;
+    }
+    up.forEach(parent => queue.push([parent, ...path]));
+  }
+  return paths;
+}
+
+// Components that are vulnerable or depend, directly or not, on one that is
+export function vulnerableBranches(sbom: Sbom): Set<string> {
+  const marked = new Set<string>();
+  const checked = new Set<string>();
+  const visiting = new Set<string>();
+  const visit = (ref: string): boolean => {
+    if (checked.has(ref)) return marked.has(ref);
+    if (visiting.has(ref)) return false;
+    visiting.add(ref);
+    let found = ref in sbom.vulnerable;
+    (sbom.dependencies[ref] ?? []).forEach(child => {
+      if (visit(child)) found = true;
+    });
+    visiting.delete(ref);
+    checked.add(ref);
+    if (found) marked.add(ref);
+    return found;
+  };
+  sbom.components.forEach(({ ref }) => visit(ref));
+  return marked;
+}
@@ -0,0 +1,59 @@
+import Ajv, { type ErrorObject, type ValidateFunction } from 'ajv';
+import Ajv2019 from 'ajv/dist/2019';
+import Ajv2020 from 'ajv/dist/2020';
+import addFormats from 'ajv-formats';
+import { childPointer } from './json-pointer';
+import trivyReportSchema from './schemas/trivy-report.schema.json';
+
+export interface SchemaIssue {
+  // JSON Pointer to the offending value; for a missing or unexpected property
+  // it points at the property itself rather than the object holding it
+  pointer: string;
+  message: string;
+  keyword: string;
+}
+
+export const BUILTIN_SCHEMAS: { value: string; label: string; schema: object }[] = [
+  { value: 'trivy-report', label: 'Trivy report', schema: trivyReportSchema },
+];
+
+// Cap on reported issues; a wrong schema can otherwise flag every row
+export const MAX_SCHEMA_ISSUES = 500;
+
+// Pick the validator for the draft the schema declares; draft-07 otherwise
+const createValidator = (schema: Record<string, unknown>): Ajv => {
+  const draft = typeof schema.$schema === 'string' ? schema.$schema : '';
+  const options = { allErrors: true, strict: false };
+  const ajv = draft.includes('2020-12') ? new Ajv2020(options) : draft.includes('2019-09') ? new Ajv2019(options) : new Ajv(options);
+  addFormats(ajv);
+  return ajv;
+};
+
+const compiled = new WeakMap<object, ValidateFunction>();
+
+// Compile a schema once per schema object. Throws when the schema itself is invalid.
+export function compileSchema(schema: unknown): ValidateFunction {
+  if (typeof schema !== 'object' || schema === null || Array.isArray(schema)) {
+    throw new Error('Schema must be a JSON object');
+  }
+  const cached = compiled.get(schema);
+  if (cached) return cached;
+  const validate = createValidator(schema as Record<string, unknown>).compile(schema);
+  compiled.set(schema, validate);
+  return validate;
+}
+
+const toIssue = (error: ErrorObject): SchemaIssue => {
+  const property = error.params.missingProperty ?? error.params.additionalProperty ?? error.params.unevaluatedProperty;
+  return {
+    pointer: typeof property === 'string' ? childPointer(error.instancePath, property)! : error.instancePath,
+    message: error.message ?? error.keyword,
+    keyword: error.keyword,
+  };
+};
+
+export function validateWithSchema(data: unknown, schema: unknown): SchemaIssue[] {
+  const validate = compileSchema(schema);
+  if (validate(data)) return [];
+  return (validate.errors ?? []).slice(0, MAX_SCHEMA_ISSUES).map(toIssue);
+}
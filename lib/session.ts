@@ -0,0 +1,143 @@
+import { deflateSync, inflateSync, strFromU8, strToU8 } from 'fflate';
+import { INPUT_FORMATS, type FormatSelection } from './formats';
+import { CHART_KINDS, type ChartSelection } from './charts';
+import { QUERY_LANGUAGES, type QueryLanguage } from './query';
+import { AGGREGATE_FUNCTIONS, type Aggregate, type TableViewState } from './table-view';
+
+export type OutputView = 'table' | 'tree' | 'raw' | 'chart';
+
+const OUTPUT_VIEW_VALUES: OutputView[] = ['table', 'tree', 'raw', 'chart'];
+
+// Everything about how a document is being looked at, in a form that can be
+// stored in IndexedDB or a URL
+export interface ViewSnapshot {
+  collapsedTables: string[];
+  tableViews: Record<string, TableViewState>;
+  searchQuery: string;
+  query: string;
+  queryLanguage: QueryLanguage;
+  inputFormat: FormatSelection;
+  // Missing from snapshots saved before the tree and raw views existed
+  outputView?: OutputView;
+  chart?: ChartSelection;
+}
+
+export const EMPTY_VIEW_SNAPSHOT: ViewSnapshot = {
+  collapsedTables: [],
+  tableViews: {},
+  searchQuery: '',
+  query: '',
+  queryLanguage: 'jsonpath',
+  inputFormat: 'auto',
+  outputView: 'table',
+};
+
+export interface SharedSession {
+  view: ViewSnapshot;
+  // Name of the loaded file, so the recipient knows what to open when the
+  // document itself was too large to embed
+  sourceName?: string;
+  text?: string;
+}
+
+// Documents above this size (compressed) are left out of share links so the
+// URL stays within what browsers and chat tools accept
+export const MAX_SHARED_DOCUMENT_BYTES = 32 * 1024;
+
+// Larger inputs can't plausibly compress that far, so don't spend time trying
+const MAX_SHARED_TEXT_LENGTH = 1024 * 1024;
+
+const SHARE_PARAM = 'share';
+
+const toBase64Url = (bytes: Uint8Array): string => {
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+};
+
+const fromBase64Url = (text: string): Uint8Array => {
+  const binary = atob(text.replace(/-/g, '+').replace(/_/g, '/'));
+  return Uint8Array.from(binary, char => char.charCodeAt(0));
+};
+
+const compress = (value: unknown): Uint8Array => deflateSync(strToU8(JSON.stringify(value)), { level: 9 });
+
+// URL fragment (without '#') for a session. The document is embedded only
+// when it compresses below MAX_SHARED_DOCUMENT_BYTES; `embedded` tells whether it was.
+export function encodeShareFragment(session: SharedSession): { fragment: string; embedded: boolean } {
+  const withDocument = session.text && session.text.length <= MAX_SHARED_TEXT_LENGTH ? compress(session) : null;
+  const embedded = withDocument !== null && withDocument.length <= MAX_SHARED_DOCUMENT_BYTES;
+  const payload = embedded ? withDocument : compress({ ...session, text: undefined });
+  return { fragment: `${SHARE_PARAM}=${toBase64Url(payload)}`, embedded };
+}
+
+type JsonObject = Record<string, unknown>;
+
+const isObject = (value: unknown): value is JsonObject => typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isOneOf = <T extends string>(value: unknown, options: { value: T }[]): value is T =>
+  options.some(option => option.value === value);
+
+const asStrings = (value: unknown): string[] => (Array.isArray(value) ? value.filter((item): item is string => typeof item === 'string') : []);
+
+function readTableView(value: JsonObject): TableViewState {
+  const { sort, filters, groupBy, aggregates } = value;
+  return {
+    sort: isObject(sort) && typeof sort.column === 'string' && (sort.direction === 'asc' || sort.direction === 'desc')
+      ? { column: sort.column, direction: sort.direction }
+      : undefined,
+    filters: isObject(filters)
+      ? Object.fromEntries(Object.entries(filters).filter((entry): entry is [string, string] => typeof entry[1] === 'string'))
+      : {},
+    groupBy: groupBy === undefined ? undefined : asStrings(groupBy),
+    aggregates: Array.isArray(aggregates)
+      ? aggregates.filter((aggregate): aggregate is Aggregate =>
+          isObject(aggregate) && typeof aggregate.column === 'string' && isOneOf(aggregate.fn, AGGREGATE_FUNCTIONS)
+        )
+      : undefined,
+  };
+}
+
+// A view snapshot from an untrusted source such as a shared link: fields of
+// the wrong shape fall back to their defaults, so a crafted link can't break
+// the page
+function readViewSnapshot(value: unknown): ViewSnapshot {
+  if (!isObject(value)) return EMPTY_VIEW_SNAPSHOT;
+  const { collapsedTables, tableViews, searchQuery, query, queryLanguage, inputFormat, outputView, chart } = value;
+  return {
+    collapsedTables: asStrings(collapsedTables),
+    tableViews: isObject(tableViews)
+      ? Object.fromEntries(
+          Object.entries(tableViews).flatMap(([tableId, view]) => (isObject(view) ? [[tableId, readTableView(view)]] : []))
+        )
+      : {},
+    searchQuery: typeof searchQuery === 'string' ? searchQuery : '',
+    query: typeof query === 'string' ? query : '',
+    queryLanguage: isOneOf(queryLanguage, QUERY_LANGUAGES) ? queryLanguage : EMPTY_VIEW_SNAPSHOT.queryLanguage,
+    inputFormat: inputFormat === 'auto' || isOneOf(inputFormat, INPUT_FORMATS) ? inputFormat : EMPTY_VIEW_SNAPSHOT.inputFormat,
+    outputView: OUTPUT_VIEW_VALUES.includes(outputView as OutputView) ? (outputView as OutputView) : EMPTY_VIEW_SNAPSHOT.outputView,
+    chart: isObject(chart) && typeof chart.table === 'string' && typeof chart.column === 'string'
+      ? { table: chart.table, column: chart.column, kind: isOneOf(chart.kind, CHART_KINDS) ? chart.kind : undefined }
+      : undefined,
+  };
+}
+
+// Read a session back from a URL fragment; null when there is none or it is corrupt
+export function decodeShareFragment(hash: string): SharedSession | null {
+  const params = new URLSearchParams(hash.replace(/^#/, ''));
+  const encoded = params.get(SHARE_PARAM);
+  if (!encoded) return null;
+  try {
+    const session = JSON.parse(strFromU8(inflateSync(fromBase64Url(encoded))));
+    if (typeof session !== 'object' || session === null) return null;
+    return {
+      view: readViewSnapshot(session.view),
+      sourceName: typeof session.sourceName === 'string' ? session.sourceName : undefined,
+      text: typeof session.text === 'string' ? session.text : undefined,
+    };
+  } catch {
+    return null;
+  }
+}
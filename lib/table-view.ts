@@ -0,0 +1,245 @@
+import { SEVERITIES } from './trivy';
+
+export type SortDirection = 'asc' | 'desc';
+
+export type AggregateFunction = 'count' | 'distinct' | 'min' | 'max' | 'sum';
+
+export const AGGREGATE_FUNCTIONS: { value: AggregateFunction; label: string }[] = [
+  { value: 'count', label: 'Count' },
+  { value: 'distinct', label: 'Distinct' },
+  { value: 'min', label: 'Min' },
+  { value: 'max', label: 'Max' },
+  { value: 'sum', label: 'Sum' },
+];
+
+export interface Aggregate {
+  column: string;
+  fn: AggregateFunction;
+}
+
+// Per-table view state, keyed by table id in the page
+export interface TableViewState {
+  sort?: { column: string; direction: SortDirection };
+  filters: Record<string, string>;
+  // Columns rows are grouped by, outermost first
+  groupBy?: string[];
+  // Values computed for every group
+  aggregates?: Aggregate[];
+}
+
+export const EMPTY_TABLE_VIEW: TableViewState = { filters: {} };
+
+const ISO_DATE_PATTERN = /^\d{4}-\d{2}-\d{2}([T ][\d:.]+(Z|[+-]\d{2}:?\d{2})?)?$/;
+const NUMERIC_PATTERN = /^-?\d+(\.\d+)?([eE][+-]?\d+)?$/;
+
+// Text used for searching and filtering; nested values are matched on their JSON
+export function cellText(value: unknown): string {
+  if (value === null || value === undefined) return '';
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+}
+
+export function matchesQuery(value: unknown, query: string): boolean {
+  if (!query) return true;
+  return cellText(value).toLowerCase().includes(query.toLowerCase());
+}
+
+const severityRank = (value: unknown): number =>
+  typeof value === 'string' ? (SEVERITIES as string[]).indexOf(value.toUpperCase()) : -1;
+
+export const toNumber = (value: unknown): number | null => {
+  if (typeof value === 'number') return value;
+  if (typeof value === 'string' && NUMERIC_PATTERN.test(value.trim())) return Number(value);
+  return null;
+};
+
+export const toTimestamp = (value: unknown): number | null => {
+  if (typeof value !== 'string' || !ISO_DATE_PATTERN.test(value)) return null;
+  const time = Date.parse(value);
+  return Number.isNaN(time) ? null : time;
+};
+
+export const isEmptyCell = (value: unknown): boolean => value === null || value === undefined || value === '';
+
+// Ascending comparison that understands severities, numbers and ISO dates.
+// Empty values always sort last regardless of direction, so callers flip
+// only the non-empty result.
+export function compareCells(a: unknown, b: unknown): number {
+  const aEmpty = isEmptyCell(a);
+  const bEmpty = isEmptyCell(b);
+  if (aEmpty || bEmpty) return aEmpty === bEmpty ? 0 : aEmpty ? 1 : -1;
+
+  // Severities sort from least to most severe so descending puts CRITICAL first
+  const aSeverity = severityRank(a);
+  const bSeverity = severityRank(b);
+  if (aSeverity !== -1 && bSeverity !== -1) return bSeverity - aSeverity;
+
+  const aNumber = toNumber(a);
+  const bNumber = toNumber(b);
+  if (aNumber !== null && bNumber !== null) return aNumber - bNumber;
+
+  const aTime = toTimestamp(a);
+  const bTime = toTimestamp(b);
+  if (aTime !== null && bTime !== null) return aTime - bTime;
+
+  if (typeof a === 'boolean' && typeof b === 'boolean') return Number(a) - Number(b);
+
+  return cellText(a).localeCompare(cellText(b), undefined, { numeric: true, sensitivity: 'base' });
+}
+
+// Indices of the rows to display after column filters, global search and sorting
+export function getVisibleRowIndices(
+  headers: string[],
+  rows: unknown[][],
+  view: TableViewState = EMPTY_TABLE_VIEW,
+  search = ''
+): number[] {
+  const activeFilters = Object.entries(view.filters)
+    .filter(([, query]) => query.trim() !== '')
+    .map(([column, query]) => [headers.indexOf(column), query.trim()] as const)
+    .filter(([columnIndex]) => columnIndex !== -1);
+  const searchQuery = search.trim();
+
+  const indices = rows
+    .map((_, rowIndex) => rowIndex)
+    .filter(rowIndex => {
+      const row = rows[rowIndex];
+      if (!activeFilters.every(([columnIndex, query]) => matchesQuery(row[columnIndex], query))) return false;
+      return !searchQuery || row.some(cell => matchesQuery(cell, searchQuery));
+    });
+
+  const sortIndex = view.sort ? headers.indexOf(view.sort.column) : -1;
+  if (view.sort && sortIndex !== -1) {
+    const direction = view.sort.direction === 'asc' ? 1 : -1;
+    indices.sort((a, b) => {
+      const aValue = rows[a][sortIndex];
+      const bValue = rows[b][sortIndex];
+      const result = compareCells(aValue, bValue);
+      const bothPresent = !isEmptyCell(aValue) && !isEmptyCell(bValue);
+      return (bothPresent ? result * direction : result) || a - b;
+    });
+  }
+
+  return indices;
+}
+
+// Split text around case-insensitive matches of the query, for highlighting
+export function splitMatches(text: string, query: string): { text: string; match: boolean }[] {
+  const needle = query.trim().toLowerCase();
+  if (!needle) return [{ text, match: false }];
+
+  const parts: { text: string; match: boolean }[] = [];
+  const haystack = text.toLowerCase();
+  let position = 0;
+  let found = haystack.indexOf(needle);
+  while (found !== -1) {
+    if (found > position) parts.push({ text: text.slice(position, found), match: false });
+    parts.push({ text: text.slice(found, found + needle.length), match: true });
+    position = found + needle.length;
+    found = haystack.indexOf(needle, position);
+  }
+  if (position < text.length) parts.push({ text: text.slice(position), match: false });
+  return parts;
+}
+
+export interface RowGroup {
+  // Unique within the table, e.g. Severity=HIGH/PkgName=openssl
+  id: string;
+  column: string;
+  value: unknown;
+  depth: number;
+  // Every row in the group, in display order
+  rowIndices: number[];
+  // Subgroups; empty at the innermost level
+  children: RowGroup[];
+}
+
+// Group values in display order: severities most severe first, everything
+// else ascending with empty values last
+const compareGroupValues = (a: unknown, b: unknown): number => {
+  const aSeverity = severityRank(a);
+  const bSeverity = severityRank(b);
+  if (aSeverity !== -1 && bSeverity !== -1) return aSeverity - bSeverity;
+  return compareCells(a, b);
+};
+
+// Nest the given rows into groups by each of `groupBy` in turn. Rows keep
+// their order within a group.
+export function groupRows(
+  headers: string[],
+  rows: unknown[][],
+  indices: number[],
+  groupBy: string[],
+  parentId = '',
+  depth = 0
+): RowGroup[] {
+  const [column, ...rest] = groupBy;
+  const columnIndex = headers.indexOf(column);
+  if (columnIndex === -1) return [];
+
+  const groups = new Map<string, { value: unknown; indices: number[] }>();
+  indices.forEach(rowIndex => {
+    const value = rows[rowIndex][columnIndex];
+    const key = cellText(value);
+    const group = groups.get(key) ?? { value, indices: [] };
+    group.indices.push(rowIndex);
+    groups.set(key, group);
+  });
+
+  return Array.from(groups.entries())
+    .sort(([, a], [, b]) => compareGroupValues(a.value, b.value))
+    .map(([key, { value, indices: rowIndices }]) => {
+      const id = `${parentId ? `${parentId}/` : ''}${column}=${key}`;
+      return {
+        id,
+        column,
+        value,
+        depth,
+        rowIndices,
+        children: rest.length > 0 ? groupRows(headers, rows, rowIndices, rest, id, depth + 1) : [],
+      };
+    });
+}
+
+// Aggregate a column over some rows. Count and sum skip empty cells; min and
+// max compare the way sorting does, so they work for numbers, dates and
+// severities. Null when there is nothing to aggregate.
+export function aggregateRows(rows: unknown[][], rowIndices: number[], columnIndex: number, fn: AggregateFunction): unknown {
+  const values = rowIndices.map(rowIndex => rows[rowIndex][columnIndex]).filter(value => !isEmptyCell(value));
+  switch (fn) {
+    case 'count':
+      return values.length;
+    case 'distinct':
+      return new Set(values.map(cellText)).size;
+    case 'sum': {
+      const numbers = values.map(toNumber).filter((value): value is number => value !== null);
+      return numbers.length > 0 ? numbers.reduce((sum, value) => sum + value, 0) : null;
+    }
+    case 'min':
+    case 'max': {
+      if (values.length === 0) return null;
+      const sign = fn === 'min' ? 1 : -1;
+      return values.reduce((best, value) => (compareCells(value, best) * sign < 0 ? value : best));
+    }
+  }
+}
+
+// A row of a grouped table: a group header or one of the table's rows
+export type DisplayRow = { type: 'group'; group: RowGroup } | { type: 'row'; rowIndex: number };
+
+// Groups and their rows in display order, skipping the contents of collapsed groups
+export function flattenGroups(groups: RowGroup[], isCollapsed: (group: RowGroup) => boolean): DisplayRow[] {
+  return groups.flatMap((group): DisplayRow[] => {
+    if (isCollapsed(group)) return [{ type: 'group', group }];
+    const contents: DisplayRow[] =
+      group.children.length > 0
+        ? flattenGroups(group.children, isCollapsed)
+        : group.rowIndices.map(rowIndex => ({ type: 'row', rowIndex }));
+    return [{ type: 'group', group }, ...contents];
+  });
+}
+
+// Every group id, for collapsing a whole table at once
+export function allGroupIds(groups: RowGroup[]): string[] {
+  return groups.flatMap(group => [group.id, ...allGroupIds(group.children)]);
+}
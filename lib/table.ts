@@ -0,0 +1,64 @@
+// How documents are laid out as tables. Shared by the page and the API routes
+// so both see the same columns and rows.
+
+export interface TableStructure {
+  headers: string[];
+  rows: any[][];
+}
+
+export function canDisplayAsTable(data: unknown): boolean {
+  if (!data) return false;
+  // Arrays show as tables, objects as key-value tables
+  return typeof data === 'object';
+}
+
+// Headers and rows for a value: arrays of objects get one column per key
+// (sorted), other arrays an Index/Value pair, objects a Key/Value pair
+export function getTableStructure(data: any, excludeKeys: string[] = []): TableStructure {
+  if (Array.isArray(data)) {
+    if (data.length === 0) {
+      return { headers: ['Index', 'Value'], rows: [] };
+    }
+
+    // Array of objects
+    if (data.every(item => typeof item === 'object' && item !== null && !Array.isArray(item))) {
+      const allKeys = new Set<string>();
+      data.forEach(item => {
+        Object.keys(item).forEach(key => {
+          if (!excludeKeys.includes(key)) {
+            allKeys.add(key);
+          }
+        });
+      });
+      const headers = Array.from(allKeys).sort();
+      const rows = data.map(item =>
+        headers.map(header => item[header])
+      );
+      return { headers, rows };
+    }
+
+    // Array of primitives or mixed
+    const headers = ['Index', 'Value'];
+    const rows = data.map((item, index) => [index, item]);
+    return { headers, rows };
+  }
+
+  // Single object - show as key-value table
+  if (typeof data === 'object' && data !== null) {
+    const headers = ['Key', 'Value'];
+    const rows = Object.entries(data)
+      .filter(([key]) => !excludeKeys.includes(key))
+      .map(([key, value]) => [key, value]);
+    return { headers, rows };
+  }
+
+  return { headers: ['Value'], rows: [[data]] };
+}
+
+// Whether a value is displayed as a table of its own rather than inline
+export function isNestedStructure(value: unknown): boolean {
+  if (Array.isArray(value)) {
+    return value.length > 0 && value.every(item => typeof item === 'object' && item !== null);
+  }
+  return typeof value === 'object' && value !== null && Object.keys(value).length > 0;
+}
@@ -0,0 +1,345 @@
+import { parse, stringify } from 'yaml';
+import { randomUuid } from './uuid';
+
+// Triage decisions on vulnerability findings, kept per artifact and written
+// out as Trivy ignore files or an OpenVEX document
+
+export type TriageStatus = 'accepted' | 'false-positive' | 'will-fix';
+
+export const TRIAGE_STATUSES: { value: TriageStatus; label: string }[] = [
+  { value: 'accepted', label: 'Accepted risk' },
+  { value: 'false-positive', label: 'False positive' },
+  { value: 'will-fix', label: 'Will fix' },
+];
+
+// Reasons OpenVEX accepts for a not_affected statement
+export type VexJustification =
+  | 'component_not_present'
+  | 'vulnerable_code_not_present'
+  | 'vulnerable_code_not_in_execute_path'
+  | 'vulnerable_code_cannot_be_controlled_by_adversary'
+  | 'inline_mitigations_already_exist';
+
+export const VEX_JUSTIFICATIONS: { value: VexJustification; label: string }[] = [
+  { value: 'component_not_present', label: 'Component not present' },
+  { value: 'vulnerable_code_not_present', label: 'Vulnerable code not present' },
+  { value: 'vulnerable_code_not_in_execute_path', label: 'Vulnerable code not in execute path' },
+  { value: 'vulnerable_code_cannot_be_controlled_by_adversary', label: 'Vulnerable code cannot be controlled by adversary' },
+  { value: 'inline_mitigations_already_exist', label: 'Inline mitigations already exist' },
+];
+
+const isVexJustification = (value: unknown): value is VexJustification =>
+  VEX_JUSTIFICATIONS.some(option => option.value === value);
+
+export interface TriageDecision {
+  vulnerabilityId: string;
+  // Package the decision is scoped to; unset applies to every package with
+  // the vulnerability, as a plain .trivyignore entry does
+  pkgName?: string;
+  purl?: string;
+  status: TriageStatus;
+  justification: string;
+  // Why a false positive doesn't affect the package, for OpenVEX; left out
+  // of the document when unset
+  vexJustification?: VexJustification;
+  // Last day the decision holds (yyyy-mm-dd), as Trivy's exp: and expired_at
+  expiresAt?: string;
+  decidedAt: string;
+}
+
+// Decisions of one artifact by triageKey
+export type TriageDecisions = Record<string, TriageDecision>;
+
+// What the tables do with rows that have a decision in force
+export type TriageDisplay = 'show' | 'dim' | 'hide';
+
+export const TRIAGE_DISPLAYS: { value: TriageDisplay; label: string }[] = [
+  { value: 'show', label: 'Show' },
+  { value: 'dim', label: 'Dim' },
+  { value: 'hide', label: 'Hide' },
+];
+
+export const triageKey = (vulnerabilityId: string, pkgName?: string): string => `${vulnerabilityId}|${pkgName ?? '*'}`;
+
+export const statusLabel = (status: TriageStatus): string => TRIAGE_STATUSES.find(({ value }) => value === status)?.label ?? status;
+
+// The decision for a finding: the one for its package, else one for any package
+export function findDecision(decisions: TriageDecisions, vulnerabilityId: unknown, pkgName: unknown): TriageDecision | undefined {
+  if (typeof vulnerabilityId !== 'string') return undefined;
+  return (typeof pkgName === 'string' ? decisions[triageKey(vulnerabilityId, pkgName)] : undefined) ?? decisions[triageKey(vulnerabilityId)];
+}
+
+const DAY = 24 * 60 * 60 * 1000;
+
+export function isExpired(decision: TriageDecision, now = Date.now()): boolean {
+  if (!decision.expiresAt) return false;
+  const end = Date.parse(decision.expiresAt);
+  return !Number.isNaN(end) && end + DAY <= now;
+}
+
+export function mergeDecisions(decisions: TriageDecisions, incoming: TriageDecision[]): TriageDecisions {
+  const merged = { ...decisions };
+  incoming.forEach(decision => {
+    merged[triageKey(decision.vulnerabilityId, decision.pkgName)] = decision;
+  });
+  return merged;
+}
+
+// Package name of a purl as Trivy reports it, e.g. "@scope/name" for npm and
+// "group:artifact" for Maven
+export function purlName(purl: string): string | undefined {
+  const match = purl.match(/^pkg:([^/]+)\/([^@?#]+)/);
+  if (!match) return undefined;
+  const segments = match[2].split('/').filter(Boolean).map(segment => decodeURIComponent(segment));
+  const name = segments.pop();
+  if (!name) return undefined;
+  const type = match[1].toLowerCase();
+  if (segments.length === 0) return name;
+  if (type === 'maven') return `${segments.join('.')}:${name}`;
+  if (type === 'npm' || type === 'golang' || type === 'composer') return [...segments, name].join('/');
+  return name;
+}
+
+// Justifications are written as "<status label>: <text>" so the status
+// survives formats that only carry free text
+const statementText = (decision: TriageDecision): string =>
+  `${statusLabel(decision.status)}: ${decision.justification.replace(/\s+/g, ' ').trim()}`.replace(/:\s*$/, '');
+
+function parseStatement(text: string | undefined, fallback: TriageStatus): { status: TriageStatus; justification: string } {
+  const trimmed = (text ?? '').trim();
+  for (const { value, label } of TRIAGE_STATUSES) {
+    const match = trimmed.match(new RegExp(`^${label}(\\s*\\([^)]*\\))?\\s*(:|$)`, 'i'));
+    if (match) return { status: value, justification: trimmed.slice(match[0].length).trim() };
+  }
+  return { status: fallback, justification: trimmed };
+}
+
+// Decisions that silence a finding: accepted risks and false positives.
+// Planned fixes stay out of ignore files so CI keeps reporting them.
+const isSuppressed = (decision: TriageDecision): boolean => decision.status === 'accepted' || decision.status === 'false-positive';
+
+// .trivyignore: one ID per line with an optional exp: date. The format has
+// no package scope, so an ID ignored for one package is ignored for all.
+export function toTrivyIgnore(decisions: TriageDecision[]): string {
+  const byId = new Map<string, TriageDecision[]>();
+  decisions.filter(isSuppressed).forEach(decision => byId.set(decision.vulnerabilityId, [...(byId.get(decision.vulnerabilityId) ?? []), decision]));
+  return Array.from(byId, ([id, group]) => {
+    const comments = group.map(decision =>
+      `# ${statusLabel(decision.status)}${decision.pkgName ? ` (${decision.pkgName})` : ''}: ${decision.justification.replace(/\s+/g, ' ').trim()}`.replace(/:\s*$/, '')
+    );
+    // The entry holds as long as the longest-lived decision behind it
+    const expiries = group.map(decision => decision.expiresAt);
+    const expiresAt = expiries.every(Boolean) ? expiries.sort().at(-1) : undefined;
+    return [...comments, expiresAt ? `${id} exp:${expiresAt}` : id].join('\n');
+  }).join('\n\n') + '\n';
+}
+
+// .trivyignore.yaml, scoped to the package's purl when it is known
+export function toTrivyIgnoreYaml(decisions: TriageDecision[]): string {
+  const vulnerabilities = decisions.filter(isSuppressed).map(decision => ({
+    id: decision.vulnerabilityId,
+    ...(decision.purl ? { purls: [decision.purl] } : {}),
+    statement: statementText(decision),
+    ...(decision.expiresAt ? { expired_at: decision.expiresAt } : {}),
+  }));
+  return stringify({ vulnerabilities });
+}
+
+// OpenVEX (https://openvex.dev/ns/v0.2.0). False positives are not_affected,
+// with the note as impact statement and the justification picked for them;
+// accepted risks and planned fixes are affected, with the decision as the
+// action statement, so tools honouring VEX keep reporting them.
+export function toOpenVex(decisions: TriageDecision[], artifact: string, author = 'Unknown Author'): Record<string, unknown> {
+  const timestamp = new Date().toISOString();
+  const statements = decisions
+    .filter(decision => !isExpired(decision))
+    .map(decision => ({
+      vulnerability: { name: decision.vulnerabilityId },
+      // Without a purl the package is named as a subcomponent of the artifact,
+      // so the statement stays scoped to it; unscoped decisions cover the artifact
+      products: [
+        decision.purl
+          ? { '@id': decision.purl }
+          : decision.pkgName
+            ? { '@id': artifact, subcomponents: [{ '@id': decision.pkgName }] }
+            : { '@id': artifact },
+      ],
+      ...(decision.status === 'false-positive'
+        ? { status: 'not_affected', justification: decision.vexJustification, impact_statement: decision.justification || statusLabel(decision.status) }
+        : { status: 'affected', action_statement: statementText(decision) }),
+      timestamp: decision.decidedAt,
+    }));
+  return {
+    '@context': 'https://openvex.dev/ns/v0.2.0',
+    '@id': `urn:uuid:${randomUuid()}`,
+    author,
+    timestamp,
+    version: 1,
+    statements,
+  };
+}
+
+type JsonObject = Record<string, any>;
+
+const isObject = (value: unknown): value is JsonObject => typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const asArray = (value: unknown): any[] => (Array.isArray(value) ? value : []);
+
+const asString = (value: unknown): string | undefined => (typeof value === 'string' && value ? value : undefined);
+
+// YAML may read an unquoted date as a Date
+const asDate = (value: unknown): string | undefined =>
+  value instanceof Date ? value.toISOString().slice(0, 10) : asString(value)?.slice(0, 10);
+
+// One decision per purl, or one for every package when there are none
+const scoped = (purls: string[], decision: Omit<TriageDecision, 'pkgName' | 'purl'>): TriageDecision[] =>
+  purls.length === 0 ? [decision] : purls.map(purl => ({ ...decision, pkgName: purlName(purl), purl }));
+
+function fromOpenVex(data: JsonObject): TriageDecision[] {
+  return asArray(data.statements).flatMap((statement: JsonObject) => {
+    const id = asString(statement.vulnerability?.name) ?? asString(statement.vulnerability);
+    if (!id || (statement.status !== 'not_affected' && statement.status !== 'fixed' && statement.status !== 'affected')) return [];
+    // Packages by purl, or by name when exported without one
+    const purls: string[] = [];
+    const pkgNames: string[] = [];
+    asArray(statement.products).forEach(product => {
+      const subcomponents = asArray(product?.subcomponents)
+        .map(sub => asString(sub?.['@id']) ?? asString(sub))
+        .filter((sub): sub is string => sub !== undefined);
+      if (subcomponents.length === 0) {
+        const id = asString(product?.['@id']) ?? asString(product);
+        if (id?.startsWith('pkg:')) purls.push(id);
+      }
+      subcomponents.forEach(sub => (sub.startsWith('pkg:') ? purls : pkgNames).push(sub));
+    });
+    const { status, justification } =
+      statement.status === 'affected'
+        ? parseStatement(asString(statement.action_statement), 'will-fix')
+        : { status: 'false-positive' as const, justification: asString(statement.impact_statement) ?? asString(statement.status_notes) ?? asString(statement.justification) ?? statement.status };
+    const decision = {
+      vulnerabilityId: id,
+      status,
+      justification,
+      vexJustification: statement.status === 'not_affected' && isVexJustification(statement.justification) ? statement.justification : undefined,
+      decidedAt: asString(statement.timestamp) ?? asString(data.timestamp) ?? new Date().toISOString(),
+    };
+    if (pkgNames.length === 0) return scoped(purls, decision);
+    return [...(purls.length > 0 ? scoped(purls, decision) : []), ...pkgNames.map(pkgName => ({ ...decision, pkgName }))];
+  });
+}
+
+// CycloneDX VEX: the analysis of each vulnerability, against the purls of
+// the components it affects
+function fromCycloneDx(data: JsonObject): TriageDecision[] {
+  const purls = new Map<string, string>();
+  const collect = (components: unknown) =>
+    asArray(components).forEach(component => {
+      if (asString(component?.['bom-ref']) && asString(component?.purl)) purls.set(component['bom-ref'], component.purl);
+      collect(component?.components);
+    });
+  collect(data.components);
+
+  return asArray(data.vulnerabilities).flatMap((vulnerability: JsonObject) => {
+    const id = asString(vulnerability.id);
+    const analysis = vulnerability.analysis ?? {};
+    const responses = asArray(analysis.response);
+    const status: TriageStatus | undefined =
+      analysis.state === 'not_affected' || analysis.state === 'false_positive' || analysis.state === 'resolved' ? 'false-positive'
+      : analysis.state === 'exploitable' ? (responses.includes('will_not_fix') ? 'accepted' : 'will-fix')
+      : undefined;
+    if (!id || !status) return [];
+    const refs = asArray(vulnerability.affects).map(affect => asString(affect?.ref)).filter((ref): ref is string => !!ref);
+    return scoped(refs.map(ref => purls.get(ref) ?? ref).filter(ref => ref.startsWith('pkg:')), {
+      vulnerabilityId: id,
+      status,
+      justification: asString(analysis.detail) ?? asString(analysis.justification) ?? analysis.state,
+      decidedAt: asString(analysis.lastUpdated) ?? asString(data.metadata?.timestamp) ?? new Date().toISOString(),
+    });
+  });
+}
+
+function fromTrivyIgnoreYaml(data: JsonObject): TriageDecision[] {
+  return asArray(data.vulnerabilities).flatMap((entry: JsonObject) => {
+    const id = asString(entry.id);
+    if (!id) return [];
+    return scoped(asArray(entry.purls).filter((purl): purl is string => typeof purl === 'string'), {
+      vulnerabilityId: id,
+      ...parseStatement(asString(entry.statement), 'accepted'),
+      expiresAt: asDate(entry.expired_at),
+      decidedAt: new Date().toISOString(),
+    });
+  });
+}
+
+// Comment lines above an entry are taken as its justification
+function fromTrivyIgnore(text: string): TriageDecision[] {
+  const decisions: TriageDecision[] = [];
+  let comments: string[] = [];
+  text.split(/\r?\n/).forEach(line => {
+    const trimmed = line.trim();
+    if (!trimmed) {
+      comments = [];
+    } else if (trimmed.startsWith('#')) {
+      comments.push(trimmed.replace(/^#+\s*/, ''));
+    } else {
+      const [id, ...options] = trimmed.split(/\s+/);
+      const expiry = options.find(option => option.startsWith('exp:'))?.slice(4);
+      decisions.push({
+        vulnerabilityId: id,
+        ...parseStatement(comments[0], 'accepted'),
+        expiresAt: expiry && /^\d{4}-\d{2}-\d{2}$/.test(expiry) ? expiry : undefined,
+        decidedAt: new Date().toISOString(),
+      });
+      comments = [];
+    }
+  });
+  return decisions;
+}
+
+// Decisions from an OpenVEX or CycloneDX VEX document, a .trivyignore.yaml or
+// a plain .trivyignore
+export function importTriage(text: string): TriageDecision[] {
+  let data: unknown;
+  try {
+    data = parse(text);
+  } catch {
+    data = undefined;
+  }
+  if (isObject(data)) {
+    if (Array.isArray(data.statements)) return fromOpenVex(data);
+    if (data.bomFormat === 'CycloneDX') return fromCycloneDx(data);
+    if (Array.isArray(data.vulnerabilities)) return fromTrivyIgnoreYaml(data);
+    throw new Error('Not a VEX document or Trivy ignore file');
+  }
+  const decisions = fromTrivyIgnore(text);
+  if (decisions.length === 0) throw new Error('No vulnerability IDs found');
+  return decisions;
+}
+
+const STORAGE_KEY = 'json-table-viewer:triage';
+
+type StoredTriage = Record<string, TriageDecisions>;
+
+const loadStored = (): StoredTriage => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    return stored ? JSON.parse(stored) : {};
+  } catch {
+    return {};
+  }
+};
+
+export function loadTriage(artifact: string): TriageDecisions {
+  return loadStored()[artifact] ?? {};
+}
+
+export function saveTriage(artifact: string, decisions: TriageDecisions) {
+  try {
+    const stored = loadStored();
+    if (Object.keys(decisions).length > 0) stored[artifact] = decisions;
+    else delete stored[artifact];
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(stored));
+  } catch (err) {
+    console.error('Failed to save triage decisions:', err);
+  }
+}
@@ -0,0 +1,231 @@
+// Trivy JSON report model (`trivy image --format json` and friends)
+
+export type Severity = 'CRITICAL' | 'HIGH' | 'MEDIUM' | 'LOW' | 'UNKNOWN';
+
+export interface TrivyCVSS {
+  V2Vector?: string;
+  V3Vector?: string;
+  V40Vector?: string;
+  V2Score?: number;
+  V3Score?: number;
+  V40Score?: number;
+}
+
+export interface TrivyLayer {
+  Digest?: string;
+  DiffID?: string;
+}
+
+export interface TrivyPackageIdentifier {
+  PURL?: string;
+  UID?: string;
+}
+
+export interface TrivyVulnerability {
+  VulnerabilityID: string;
+  PkgID?: string;
+  PkgName: string;
+  PkgPath?: string;
+  PkgIdentifier?: TrivyPackageIdentifier;
+  InstalledVersion: string;
+  FixedVersion?: string;
+  Status?: string;
+  Layer?: TrivyLayer;
+  SeveritySource?: string;
+  PrimaryURL?: string;
+  DataSource?: { ID?: string; Name?: string; URL?: string };
+  Title?: string;
+  Description?: string;
+  Severity: Severity | string;
+  CweIDs?: string[];
+  VendorSeverity?: Record<string, number>;
+  CVSS?: Record<string, TrivyCVSS>;
+  References?: string[];
+  PublishedDate?: string;
+  LastModifiedDate?: string;
+  [key: string]: unknown;
+}
+
+export interface TrivyPackage {
+  ID?: string;
+  Name: string;
+  Identifier?: TrivyPackageIdentifier;
+  Version?: string;
+  Release?: string;
+  Arch?: string;
+  SrcName?: string;
+  SrcVersion?: string;
+  Licenses?: string[];
+  DependsOn?: string[];
+  Layer?: TrivyLayer;
+  FilePath?: string;
+  Indirect?: boolean;
+  Relationship?: string;
+  [key: string]: unknown;
+}
+
+// Source lines around a misconfiguration or secret, with the offending ones
+// marked as the cause
+export interface TrivyCodeLine {
+  Number: number;
+  Content: string;
+  IsCause?: boolean;
+  Annotation?: string;
+  Truncated?: boolean;
+  FirstCause?: boolean;
+  LastCause?: boolean;
+  [key: string]: unknown;
+}
+
+export interface TrivyCauseMetadata {
+  Resource?: string;
+  Provider?: string;
+  Service?: string;
+  StartLine?: number;
+  EndLine?: number;
+  Code?: { Lines?: TrivyCodeLine[] | null };
+  [key: string]: unknown;
+}
+
+export interface TrivyMisconfiguration {
+  Type?: string;
+  ID: string;
+  AVDID?: string;
+  Title?: string;
+  Description?: string;
+  Message?: string;
+  Namespace?: string;
+  Query?: string;
+  Resolution?: string;
+  Severity: Severity | string;
+  PrimaryURL?: string;
+  References?: string[];
+  Status?: string;
+  Layer?: TrivyLayer;
+  CauseMetadata?: TrivyCauseMetadata;
+  [key: string]: unknown;
+}
+
+export interface TrivySecret {
+  RuleID: string;
+  Category?: string;
+  Severity: Severity | string;
+  Title?: string;
+  StartLine?: number;
+  EndLine?: number;
+  Code?: { Lines?: TrivyCodeLine[] | null };
+  Match?: string;
+  Layer?: TrivyLayer;
+  [key: string]: unknown;
+}
+
+export interface TrivyLicense {
+  Severity: Severity | string;
+  Category?: string;
+  PkgName?: string;
+  FilePath?: string;
+  Name: string;
+  Confidence?: number;
+  Link?: string;
+  [key: string]: unknown;
+}
+
+export interface TrivyResult {
+  Target: string;
+  Class?: string;
+  Type?: string;
+  Packages?: TrivyPackage[];
+  Vulnerabilities?: TrivyVulnerability[];
+  Misconfigurations?: TrivyMisconfiguration[];
+  Secrets?: TrivySecret[];
+  Licenses?: TrivyLicense[];
+  [key: string]: unknown;
+}
+
+export interface TrivyMetadata {
+  Size?: number;
+  OS?: { Family?: string; Name?: string; EOSL?: boolean };
+  ImageID?: string;
+  DiffIDs?: string[];
+  RepoTags?: string[];
+  RepoDigests?: string[];
+  ImageConfig?: Record<string, unknown>;
+  [key: string]: unknown;
+}
+
+export interface TrivyReport {
+  SchemaVersion?: number;
+  CreatedAt?: string;
+  ArtifactName?: string;
+  ArtifactType?: string;
+  Metadata?: TrivyMetadata;
+  Results: TrivyResult[];
+  [key: string]: unknown;
+}
+
+// Keys of a Result that get dedicated tables in the report view
+export const RESULT_TABLE_KEYS = ['Vulnerabilities', 'Misconfigurations', 'Secrets', 'Licenses', 'Packages'] as const;
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// A report is recognized by its top-level Results array of target entries,
+// plus at least one of the report-level fields Trivy always writes
+export function isTrivyReport(data: unknown): data is TrivyReport {
+  if (!isPlainObject(data) || !Array.isArray(data.Results)) return false;
+  if (!('SchemaVersion' in data) && !('ArtifactName' in data)) return false;
+
+  return data.Results.every(result =>
+    isPlainObject(result) &&
+    typeof result.Target === 'string' &&
+    RESULT_TABLE_KEYS.every(key => result[key] === undefined || Array.isArray(result[key]))
+  );
+}
+
+// Severity levels in Trivy's order, most severe first
+export const SEVERITIES: Severity[] = ['CRITICAL', 'HIGH', 'MEDIUM', 'LOW', 'UNKNOWN'];
+
+export type SeverityCounts = Record<Severity, number>;
+
+export function normalizeSeverity(value: unknown): Severity {
+  const upper = typeof value === 'string' ? value.toUpperCase() : '';
+  return (SEVERITIES as string[]).includes(upper) ? (upper as Severity) : 'UNKNOWN';
+}
+
+export function countSeverities(vulnerabilities: TrivyVulnerability[] = []): SeverityCounts {
+  const counts: SeverityCounts = { CRITICAL: 0, HIGH: 0, MEDIUM: 0, LOW: 0, UNKNOWN: 0 };
+  vulnerabilities.forEach(vuln => {
+    counts[normalizeSeverity(vuln.Severity)]++;
+  });
+  return counts;
+}
+
+export interface SeveritySummary {
+  total: SeverityCounts;
+  targets: { target: string; counts: SeverityCounts }[];
+}
+
+// Severity counts for the whole artifact and for each Result target
+export function summarizeSeverities(report: TrivyReport): SeveritySummary {
+  const targets = report.Results.map(result => ({
+    target: result.Target,
+    counts: countSeverities(result.Vulnerabilities),
+  }));
+  const total = countSeverities([]);
+  targets.forEach(({ counts }) => {
+    SEVERITIES.forEach(severity => {
+      total[severity] += counts[severity];
+    });
+  });
+  return { total, targets };
+}
+
+export function hasVulnerabilities(report: TrivyReport): boolean {
+  return report.Results.some(result => (result.Vulnerabilities?.length ?? 0) > 0);
+}
+
+// Secret text as shown until revealed: everything past the first few
+// characters hidden, so rows can still be told apart
+export function maskSecret(text: string, visible = 4): string {
+  return text.slice(0, visible) + text.slice(visible).replace(/\S/g, '•');
+}
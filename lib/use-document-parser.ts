@@ -0,0 +1,175 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { detectFormat, DocumentParseError, parseDocument, type FormatSelection, type InputFormat, type SourceLocation } from './formats';
+import { combineDocuments, type OpenedFile } from './documents';
+import type { CombineRequest, CombineResponse, ParsePhase, ParseRequest, ParseResponse } from './parse-protocol';
+
+export type ParseStatus = 'idle' | 'pending' | 'parsing' | 'done' | 'error' | 'cancelled';
+
+export interface ParseProgress {
+  phase: ParsePhase;
+  // Null when the progress of the phase is unknown
+  loaded: number | null;
+  total: number;
+}
+
+interface ParseState {
+  // Parsed documents are arbitrary JSON, consumed by the untyped table renderers
+  data: any;
+  error: string | null;
+  // Where in the text the parse failed, when known
+  errorLocation: SourceLocation | null;
+  status: ParseStatus;
+  progress: ParseProgress | null;
+  // Format the text was parsed as, after auto-detection
+  format: InputFormat | null;
+}
+
+const IDLE_STATE: ParseState = { data: null, error: null, errorLocation: null, status: 'idle', progress: null, format: null };
+
+interface CachedParse {
+  format: FormatSelection;
+  fileName?: string;
+  state: ParseState;
+}
+
+// Parses `text` in a Web Worker once it has been stable for `delay` ms.
+// A newer text supersedes a parse still in flight, and `cancel` abandons it.
+// `fileName` only serves as a format hint when `format` is 'auto'. The last
+// `cacheSize` results are kept, so switching back to a text shows it at once.
+export function useDocumentParser(
+  text: string,
+  format: FormatSelection = 'auto',
+  fileName?: string,
+  delay: number = 300,
+  cacheSize: number = 0
+) {
+  const [state, setState] = useState<ParseState>(IDLE_STATE);
+  const workerRef = useRef<Worker | null>(null);
+  const busyRef = useRef(false);
+  const requestIdRef = useRef(0);
+  // The request in flight, to cache its result under
+  const pendingRef = useRef<{ id: number; text: string; format: FormatSelection; fileName?: string } | null>(null);
+  const cacheRef = useRef(new Map<string, CachedParse>());
+
+  const remember = (text: string, format: FormatSelection, fileName: string | undefined, result: ParseState) => {
+    if (cacheSize === 0) return;
+    const cache = cacheRef.current;
+    cache.delete(text);
+    cache.set(text, { format, fileName, state: result });
+    // Maps iterate in insertion order, so the first key is the least recent
+    while (cache.size > cacheSize) cache.delete(cache.keys().next().value!);
+  };
+
+  const stopWorker = () => {
+    workerRef.current?.terminate();
+    workerRef.current = null;
+    busyRef.current = false;
+  };
+
+  const getWorker = (): Worker => {
+    // A busy worker can't be interrupted mid-parse, so replace it
+    if (busyRef.current) stopWorker();
+    if (!workerRef.current) {
+      const worker = new Worker(new URL('./parse.worker.ts', import.meta.url));
+      worker.onmessage = (event: MessageEvent<ParseResponse>) => {
+        const message = event.data;
+        if (message.id !== requestIdRef.current) return;
+
+        if (message.type === 'progress') {
+          const { phase, loaded, total } = message;
+          setState(prev => ({ ...prev, status: 'parsing', progress: { phase, loaded, total }, format: message.format }));
+          return;
+        }
+        busyRef.current = false;
+        if (message.type === 'result') {
+          const result: ParseState = { data: message.data, error: null, errorLocation: null, status: 'done', progress: null, format: message.format };
+          const pending = pendingRef.current;
+          if (pending?.id === message.id) remember(pending.text, pending.format, pending.fileName, result);
+          setState(result);
+        } else {
+          setState({
+            data: null,
+            error: message.message,
+            errorLocation: message.location,
+            status: 'error',
+            progress: null,
+            format: message.format,
+          });
+        }
+      };
+      worker.onerror = (event) => {
+        busyRef.current = false;
+        setState(prev => ({ ...prev, data: null, error: event.message || 'Parser failed', errorLocation: null, status: 'error', progress: null }));
+      };
+      workerRef.current = worker;
+    }
+    return workerRef.current;
+  };
+
+  const cancel = useCallback(() => {
+    requestIdRef.current++;
+    stopWorker();
+    setState(prev => ({ ...prev, status: 'cancelled', progress: null }));
+  }, []);
+
+  useEffect(() => {
+    const id = ++requestIdRef.current;
+    if (!text.trim()) {
+      setState(IDLE_STATE);
+      return;
+    }
+
+    const cached = cacheRef.current.get(text);
+    if (cached && cached.format === format && cached.fileName === fileName) {
+      remember(text, format, fileName, cached.state);
+      setState(cached.state);
+      return;
+    }
+
+    setState(prev => ({ ...prev, status: 'pending' }));
+    const timer = setTimeout(() => {
+      if (typeof Worker === 'undefined') {
+        const resolved = format === 'auto' ? detectFormat(text, fileName) : format;
+        try {
+          setState({ data: parseDocument(text, resolved), error: null, errorLocation: null, status: 'done', progress: null, format: resolved });
+        } catch (e) {
+          const message = e instanceof Error ? e.message : 'Invalid input';
+          const errorLocation = e instanceof DocumentParseError ? e.location : null;
+          setState({ data: null, error: message, errorLocation, status: 'error', progress: null, format: resolved });
+        }
+        return;
+      }
+
+      const request: ParseRequest = { id, type: 'parse', text, format, fileName };
+      pendingRef.current = { id, text, format, fileName };
+      const worker = getWorker();
+      busyRef.current = true;
+      worker.postMessage(request);
+    }, delay);
+
+    return () => clearTimeout(timer);
+  }, [text, format, fileName, delay]);
+
+  useEffect(() => stopWorker, []);
+
+  return { ...state, cancel };
+}
+
+// Combine documents in a worker of its own, so parsing a folder of large
+// reports doesn't freeze the page
+export function combineDocumentsInWorker(files: OpenedFile[]): Promise<{ data: Record<string, unknown[]>; failed: string[] }> {
+  if (typeof Worker === 'undefined') return Promise.resolve(combineDocuments(files));
+  return new Promise((resolve, reject) => {
+    const worker = new Worker(new URL('./parse.worker.ts', import.meta.url));
+    worker.onmessage = (event: MessageEvent<CombineResponse>) => {
+      worker.terminate();
+      resolve({ data: event.data.data, failed: event.data.failed });
+    };
+    worker.onerror = (event) => {
+      worker.terminate();
+      reject(new Error(event.message || 'Could not combine the documents'));
+    };
+    const request: CombineRequest = { id: 0, type: 'combine', files };
+    worker.postMessage(request);
+  });
+}
@@ -0,0 +1,192 @@
+import { parsePointer } from './json-pointer';
+
+// How string values are shown in tables: as links, dates, advisory IDs,
+// embedded JSON or encoded data. Detected from the value unless a display rule
+// for its column path says otherwise.
+
+export type DisplayKind = 'auto' | 'text' | 'url' | 'timestamp' | 'advisory' | 'json' | 'base64' | 'jwt';
+
+export const DISPLAY_KINDS: { value: DisplayKind; label: string }[] = [
+  { value: 'auto', label: 'Detect' },
+  { value: 'text', label: 'Plain text' },
+  { value: 'url', label: 'Link' },
+  { value: 'timestamp', label: 'Date and time' },
+  { value: 'advisory', label: 'Advisory ID' },
+  { value: 'json', label: 'Embedded JSON' },
+  { value: 'base64', label: 'Base64' },
+  { value: 'jwt', label: 'JWT' },
+];
+
+// A column path and how to show its values. Paths are JSON Pointers with `*`
+// for any one segment (e.g. /Results/*/Vulnerabilities/*/PrimaryURL); a path
+// without a leading slash matches the last segment, i.e. the column name.
+export interface DisplayRule {
+  path: string;
+  kind: DisplayKind;
+}
+
+export interface DisplaySettings {
+  // Link for advisory IDs, with {id} where the ID goes
+  advisoryUrl: string;
+  // Strings longer than this are cut short until expanded; 0 never truncates
+  truncateAt: number;
+  rules: DisplayRule[];
+}
+
+export const DEFAULT_DISPLAY_SETTINGS: DisplaySettings = {
+  advisoryUrl: 'https://osv.dev/vulnerability/{id}',
+  truncateAt: 200,
+  rules: [],
+};
+
+const URL_PATTERN = /^https?:\/\/[^\s/$.?#][^\s]*$/i;
+// Date and time, as written by scanners and APIs; plain dates stay text
+const TIMESTAMP_PATTERN = /^\d{4}-\d{2}-\d{2}[T ]\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:?\d{2})?$/;
+const ADVISORY_PATTERN = /^(CVE-\d{4}-\d{4,}|GHSA(-[23456789cfghjmpqrvwx]{4}){3})$/i;
+const JWT_PATTERN = /^[A-Za-z0-9_-]{2,}\.[A-Za-z0-9_-]{2,}\.[A-Za-z0-9_-]*$/;
+const BASE64_PATTERN = /^[A-Za-z0-9+/]+={0,2}$/;
+// Shorter runs of base64 characters are usually words or identifiers
+const MIN_BASE64_LENGTH = 24;
+
+// Decode base64 or base64url to UTF-8 text; null when it isn't valid base64
+// or doesn't decode to text
+export function decodeBase64(value: string): string | null {
+  const normalized = value.trim().replace(/-/g, '+').replace(/_/g, '/');
+  try {
+    const binary = atob(normalized.padEnd(Math.ceil(normalized.length / 4) * 4, '='));
+    const text = new TextDecoder('utf-8', { fatal: true }).decode(Uint8Array.from(binary, char => char.charCodeAt(0)));
+    // Control characters other than whitespace mean binary data
+    return /[\u0000-\u0008\u000e-\u001f]/.test(text) ? null : text;
+  } catch {
+    return null;
+  }
+}
+
+const decodeJsonSegment = (segment: string): unknown => {
+  const text = decodeBase64(segment);
+  if (text === null) return undefined;
+  try {
+    return JSON.parse(text);
+  } catch {
+    return undefined;
+  }
+};
+
+// Header and payload of a JSON Web Token; the signature isn't checked
+export function decodeJwt(value: string): { header: unknown; payload: unknown } | null {
+  if (!JWT_PATTERN.test(value)) return null;
+  const [header, payload] = value.split('.').map(decodeJsonSegment);
+  if (typeof header !== 'object' || header === null || !('alg' in header) || payload === undefined) return null;
+  return { header, payload };
+}
+
+// Object or array serialized into a string, e.g. a scanner's raw output
+export function parseEmbeddedJson(value: string): object | undefined {
+  const text = value.trim();
+  if (!(text.startsWith('{') && text.endsWith('}')) && !(text.startsWith('[') && text.endsWith(']'))) return undefined;
+  try {
+    const parsed = JSON.parse(text);
+    return typeof parsed === 'object' && parsed !== null ? parsed : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+export function isUrl(value: string): boolean {
+  return URL_PATTERN.test(value);
+}
+
+export function isTimestamp(value: string): boolean {
+  return TIMESTAMP_PATTERN.test(value) && !Number.isNaN(Date.parse(value));
+}
+
+// What a string looks like; cheap checks first since every cell goes through it
+export function detectDisplayKind(value: string): Exclude<DisplayKind, 'auto'> {
+  if (value.length < 8) return 'text';
+  if (isUrl(value)) return 'url';
+  if (ADVISORY_PATTERN.test(value)) return 'advisory';
+  if (isTimestamp(value)) return 'timestamp';
+  if (parseEmbeddedJson(value) !== undefined) return 'json';
+  if (decodeJwt(value)) return 'jwt';
+  if (value.length >= MIN_BASE64_LENGTH && value.length % 4 === 0 && BASE64_PATTERN.test(value) && decodeBase64(value) !== null) {
+    return 'base64';
+  }
+  return 'text';
+}
+
+const matchesRule = (rule: string, tokens: string[] | null, key: string | undefined): boolean => {
+  if (!rule.startsWith('/')) return rule === key || (tokens !== null && rule === tokens[tokens.length - 1]);
+  if (tokens === null) return false;
+  const ruleTokens = parsePointer(rule);
+  return ruleTokens.length === tokens.length && ruleTokens.every((token, index) => token === '*' || token === tokens[index]);
+};
+
+// Kind for a value at `pointer` (or, in query results, under `key`): the last
+// matching rule wins, so later rules override earlier ones
+export function displayKindFor(rules: DisplayRule[], pointer: string | undefined, key: string | undefined): DisplayKind {
+  if (rules.length === 0) return 'auto';
+  const tokens = pointer !== undefined ? parsePointer(pointer) : null;
+  for (let i = rules.length - 1; i >= 0; i--) {
+    if (matchesRule(rules[i].path, tokens, key)) return rules[i].kind;
+  }
+  return 'auto';
+}
+
+export function advisoryLink(template: string, id: string): string {
+  return template.replace(/\{id\}/g, encodeURIComponent(id));
+}
+
+const RELATIVE_UNITS: [Intl.RelativeTimeFormatUnit, number][] = [
+  ['year', 365 * 24 * 3600],
+  ['month', 30 * 24 * 3600],
+  ['week', 7 * 24 * 3600],
+  ['day', 24 * 3600],
+  ['hour', 3600],
+  ['minute', 60],
+  ['second', 1],
+];
+
+// e.g. "3 days ago", "in 2 months"
+export function relativeTime(time: number, now = Date.now()): string {
+  const seconds = (time - now) / 1000;
+  const [unit, size] = RELATIVE_UNITS.find(([, size]) => Math.abs(seconds) >= size) ?? RELATIVE_UNITS[RELATIVE_UNITS.length - 1];
+  return new Intl.RelativeTimeFormat(undefined, { numeric: 'auto' }).format(Math.round(seconds / size), unit);
+}
+
+// Rules as edited in the display settings: one "path = kind" per line
+export function parseDisplayRules(text: string): DisplayRule[] {
+  return text.split('\n').flatMap((line, index) => {
+    if (!line.trim() || line.trim().startsWith('#')) return [];
+    const separator = line.lastIndexOf('=');
+    const path = line.slice(0, separator).trim();
+    const kind = line.slice(separator + 1).trim() as DisplayKind;
+    if (separator <= 0 || !path) throw new Error(`Rule on line ${index + 1} should look like "path = kind"`);
+    if (!DISPLAY_KINDS.some(({ value }) => value === kind)) {
+      throw new Error(`Unknown display "${kind}" on line ${index + 1}, expected one of: ${DISPLAY_KINDS.map(({ value }) => value).join(', ')}`);
+    }
+    return [{ path, kind }];
+  });
+}
+
+export function formatDisplayRules(rules: DisplayRule[]): string {
+  return rules.map(({ path, kind }) => `${path} = ${kind}`).join('\n');
+}
+
+const STORAGE_KEY = 'json-table-viewer:display';
+
+export function loadDisplaySettings(): DisplaySettings {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    return stored ? { ...DEFAULT_DISPLAY_SETTINGS, ...JSON.parse(stored) } : DEFAULT_DISPLAY_SETTINGS;
+  } catch {
+    return DEFAULT_DISPLAY_SETTINGS;
+  }
+}
+
+export function saveDisplaySettings(settings: DisplaySettings) {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+  } catch (err) {
+    console.error('Failed to save display settings:', err);
+  }
+}